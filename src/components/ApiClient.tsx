@@ -1,54 +1,142 @@
-import React, { useState, useRef } from 'react';
+import React, { useRef, useState } from 'react';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Textarea } from "@/components/ui/textarea";
-import { Send, FileText } from "lucide-react";
+import { Send, FileText, Save, Terminal, Code, Gauge } from "lucide-react";
 import RequestBody from "@/components/RequestBody";
 import ResponseViewer from "@/components/ResponseViewer";
+import HeadersEditor from "@/components/HeadersEditor";
+import KeyValueEditor from "@/components/KeyValueEditor";
+import AuthEditor from "@/components/AuthEditor";
+import ScriptsEditor from "@/components/ScriptsEditor";
+import AssertionsEditor from "@/components/AssertionsEditor";
+import SaveRequestDialog from "@/components/SaveRequestDialog";
+import ImportCurlDialog from "@/components/ImportCurlDialog";
+import CodeSnippetPanel from "@/components/CodeSnippetPanel";
+import LoadTestDialog from "@/components/LoadTestDialog";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
 import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
+import type { HttpMethod, KeyValueRow, RequestConfig } from "@/types/request";
+import type { RequestTab } from "@/types/tab";
+import { activeRows } from "@/lib/key-value";
+import { findNode, findNodePath } from "@/lib/collections";
+import { introspectSchema } from "@/lib/graphql";
+import { executeRequest } from "@/lib/execute";
+import { createTab, isTabDirty, requestSnapshot } from "@/lib/tabs";
+import { looksLikeCurl, parseCurl, type CurlImport } from "@/lib/curl";
+import { collectUnresolved, resolveRequestConfig, resolveVariables } from "@/lib/variables";
+import { useEnvironments } from "@/contexts/EnvironmentsContext";
+import { useCollections } from "@/contexts/CollectionsContext";
+import { useTabs } from "@/contexts/TabsContext";
+import { buildUrlWithParams, mergeQueryParams, parseQueryParams } from "@/lib/query-params";
 
-type HttpMethod = "GET" | "POST" | "PUT" | "DELETE" | "PATCH" | "OPTIONS" | "HEAD";
-
-interface ApiResponse {
-  status: number;
-  statusText: string;
-  headers: Record<string, string>;
-  data: any;
-  time: number;
-  error?: {
-    message: string;
-    stack?: string;
-    code?: string;
-    type?: string;
-    details?: any;
-  };
+interface ApiClientProps {
+  tab: RequestTab;
 }
 
-const ApiClient: React.FC = () => {
-  const [url, setUrl] = useState<string>("");
-  const [method, setMethod] = useState<HttpMethod>("GET");
-  const [body, setBody] = useState<string>("");
-  const [loading, setLoading] = useState<boolean>(false);
-  const [response, setResponse] = useState<ApiResponse | null>(null);
-  const [certificate, setCertificate] = useState<File | null>(null);
-  const [errorDetails, setErrorDetails] = useState<string | null>(null);
+const ApiClient: React.FC<ApiClientProps> = ({ tab }) => {
+  const { request: requestConfig, params, certificate, loading, response, errorDetails } = tab;
+  const { method, url, headers, body, auth, scripts, assertions } = requestConfig;
+  const [saveDialogOpen, setSaveDialogOpen] = useState<boolean>(false);
+  const [importDialogOpen, setImportDialogOpen] = useState<boolean>(false);
+  const [codePanelOpen, setCodePanelOpen] = useState<boolean>(false);
+  const [loadTestOpen, setLoadTestOpen] = useState<boolean>(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
+  const { variables, updateActiveVariables } = useEnvironments();
+  const { collections, saveRequest, updateRequest } = useCollections();
+  const { openTab, updateTab } = useTabs();
+
+  const unresolvedVariables = collectUnresolved(requestConfig, variables);
+  const resolvedUrl = resolveVariables(url, variables, { dynamic: false });
+
+  const savedNode = tab.savedRequestId ? findNode(collections, tab.savedRequestId) : undefined;
+  const savedRequest = savedNode && "type" in savedNode && savedNode.type === "request" ? savedNode : undefined;
+  const savedPath = savedRequest ? findNodePath(collections, savedRequest.id) : undefined;
+
+  // Edits go through the tab so they survive switching away and back.
+  const setRequest = (patch: Partial<RequestConfig>) => {
+    updateTab(tab.id, (current) => ({ request: { ...current.request, ...patch } }));
+  };
+
+  const handleSave = () => {
+    if (savedRequest) {
+      updateRequest(savedRequest.id, requestConfig);
+      updateTab(tab.id, { baseline: requestSnapshot(requestConfig) });
+      toast({ title: "Request saved", description: savedRequest.name });
+    } else {
+      setSaveDialogOpen(true);
+    }
+  };
+
+  const handleSaveAs = (parentId: string, name: string) => {
+    const saved = saveRequest(parentId, name, requestConfig);
+    updateTab(tab.id, { savedRequestId: saved.id, baseline: requestSnapshot(requestConfig) });
+    toast({ title: "Request saved", description: name });
+  };
+
+  const defaultRequestName = () => {
+    try {
+      return `${method} ${new URL(resolvedUrl).pathname}`;
+    } catch {
+      return url.trim() ? `${method} ${url.trim()}` : "New Request";
+    }
+  };
 
   const handleMethodChange = (value: string) => {
-    setMethod(value as HttpMethod);
+    setRequest({ method: value as HttpMethod });
+  };
+
+  const handleUrlChange = (value: string) => {
+    updateTab(tab.id, (current) => ({
+      request: { ...current.request, url: value },
+      params: mergeQueryParams(current.params, value),
+    }));
   };
 
-  const handleBodyChange = (value: string) => {
-    setBody(value);
+  const reportImportWarnings = ({ warnings }: CurlImport) => {
+    if (warnings.length === 0) return;
+    toast({
+      title: `Imported with ${warnings.length} warning${warnings.length === 1 ? "" : "s"}`,
+      description: warnings.join(" "),
+    });
+  };
+
+  const handleImportCurl = (result: CurlImport) => {
+    openTab(createTab({ request: result.request }));
+    reportImportWarnings(result);
+  };
+
+  // Pasting a whole curl command into the URL field replaces this tab's request with it.
+  const handleUrlPaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const text = e.clipboardData.getData("text");
+    if (!looksLikeCurl(text)) return;
+    e.preventDefault();
+    try {
+      const result = parseCurl(text);
+      updateTab(tab.id, { request: result.request, params: parseQueryParams(result.request.url) });
+      reportImportWarnings(result);
+    } catch (error) {
+      toast({
+        title: "Could not import cURL",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleParamsChange = (rows: KeyValueRow[]) => {
+    updateTab(tab.id, (current) => ({
+      request: { ...current.request, url: buildUrlWithParams(current.request.url, rows) },
+      params: rows,
+    }));
   };
 
   const handleCertificateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
-      setCertificate(e.target.files[0]);
+      updateTab(tab.id, { certificate: e.target.files[0] });
       toast({
         title: "Certificate uploaded",
         description: `File: ${e.target.files[0].name}`,
@@ -62,45 +150,7 @@ const ApiClient: React.FC = () => {
     }
   };
 
-  const formatErrorDetails = (error: any): string => {
-    let details = "";
-    
-    if (error instanceof Error) {
-      details = `Error Type: ${error.name}\nMessage: ${error.message}`;
-      
-      if (error.stack) {
-        details += `\n\nStack Trace:\n${error.stack}`;
-      }
-      
-      if (error instanceof TypeError) {
-        details += "\n\nThis is a TypeError, which often occurs when:";
-        details += "\n- Trying to access properties of undefined or null";
-        details += "\n- Calling a non-function value";
-        details += "\n- Incompatible value types in an operation";
-      } else if (error instanceof SyntaxError) {
-        details += "\n\nThis is a SyntaxError, which typically occurs when:";
-        details += "\n- JSON parsing failed due to malformed data";
-        details += "\n- Invalid syntax in dynamic code evaluation";
-      } else if (error instanceof URIError) {
-        details += "\n\nThis is a URIError, which occurs when:";
-        details += "\n- Malformed URI components in encoding/decoding functions";
-      }
-    } else if (typeof error === 'object' && error !== null) {
-      details = "Error Object Properties:\n";
-      for (const key in error) {
-        try {
-          details += `${key}: ${JSON.stringify(error[key])}\n`;
-        } catch (e) {
-          details += `${key}: [Circular or non-serializable value]\n`;
-        }
-      }
-    } else {
-      details = `Unexpected error: ${String(error)}`;
-    }
-    
-    return details;
-  };
-
+  // Only touches the tab through its id, so the result lands even if another tab is showing by then.
   const sendRequest = async () => {
     if (!url) {
       toast({
@@ -110,125 +160,22 @@ const ApiClient: React.FC = () => {
       });
       return;
     }
-    
-    setLoading(true);
-    setResponse(null);
-    setErrorDetails(null);
-    const startTime = Date.now();
 
-    try {
-      let urlObject;
-      try {
-        urlObject = new URL(url);
-      } catch (e) {
-        throw new Error(`Invalid URL: ${url}. Make sure to include the protocol (http:// or https://).`);
-      }
-      
-      const options: RequestInit = {
-        method,
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      };
-
-      if (method !== "GET" && method !== "HEAD" && body) {
-        try {
-          JSON.parse(body);
-          options.body = body;
-        } catch (e) {
-          const parseError = e as Error;
-          throw new Error(`Invalid JSON in request body: ${parseError.message}. Please check your JSON syntax.`);
-        }
-      }
-
-      if (certificate) {
-        console.log("Certificate would be used for SSL: ", certificate.name);
-      }
-
-      const res = await fetch(url, options);
-      const endTime = Date.now();
-      
-      const headers: Record<string, string> = {};
-      res.headers.forEach((value, key) => {
-        headers[key] = value;
-      });
+    updateTab(tab.id, { loading: true, response: null, errorDetails: null });
 
-      let data;
-      let parseError = null;
-      const contentType = res.headers.get('content-type');
-      
-      try {
-        if (contentType && contentType.includes('application/json')) {
-          data = await res.json();
-        } else {
-          data = await res.text();
-          
-          if (typeof data === 'string' && 
-              (data.trim().startsWith('{') || data.trim().startsWith('['))) {
-            try {
-              data = JSON.parse(data);
-            } catch (e) {
-              console.log("Response looks like JSON but couldn't be parsed:", e);
-            }
-          }
-        }
-      } catch (e) {
-        parseError = e as Error;
-        data = `Failed to parse response: ${parseError.message}`;
-      }
-
-      setResponse({
-        status: res.status,
-        statusText: res.statusText,
-        headers,
-        data,
-        time: endTime - startTime,
-      });
-      
-      if (!res.ok) {
-        setErrorDetails(`HTTP Error ${res.status} (${res.statusText}): The server returned an error response. 
-        
-Common causes for HTTP ${res.status}:
-${res.status >= 400 && res.status < 500 ? '- Client-side error (invalid request parameters, authentication issues, etc.)' : ''}
-${res.status >= 500 ? '- Server-side error (internal errors, service unavailable, etc.)' : ''}
-${res.status === 401 ? '- Authentication required or failed' : ''}
-${res.status === 403 ? '- Insufficient permissions to access the resource' : ''}
-${res.status === 404 ? '- Resource not found at the specified endpoint' : ''}
-${res.status === 429 ? '- Rate limit exceeded (too many requests)' : ''}
-${res.status === 500 ? '- Internal server error (generic server failure)' : ''}
-${res.status === 502 ? '- Bad gateway (upstream server received an invalid response)' : ''}
-${res.status === 503 ? '- Service unavailable (server is overloaded or down for maintenance)' : ''}
-${res.status === 504 ? '- Gateway timeout (server didn\'t receive timely response from upstream server)' : ''}`);
-      }
+    if (certificate) {
+      console.log("Certificate would be used for SSL: ", certificate.name);
+    }
 
-    } catch (error) {
-      console.error("Request error:", error);
-      
-      const errorObj = error as Error;
-      const detailedError = formatErrorDetails(errorObj);
-      setErrorDetails(detailedError);
-      
-      setResponse({
-        status: 0,
-        statusText: "Error",
-        headers: {},
-        data: errorObj.message || "Unknown error occurred",
-        time: Date.now() - startTime,
-        error: {
-          message: errorObj.message || "Unknown error occurred",
-          stack: errorObj.stack,
-          type: errorObj.name,
-          details: detailedError
-        }
-      });
-      
+    const result = await executeRequest(requestConfig, variables, { onVariableUpdates: updateActiveVariables });
+    updateTab(tab.id, { loading: false, response: result.response, errorDetails: result.errorDetails });
+
+    if (result.response.error) {
       toast({
         title: "Request failed",
-        description: errorObj.message || "Unknown error occurred",
+        description: result.response.error.message,
         variant: "destructive",
       });
-    } finally {
-      setLoading(false);
     }
   };
 
@@ -236,8 +183,41 @@ ${res.status === 504 ? '- Gateway timeout (server didn\'t receive timely respons
     <div className="container py-6 space-y-6">
       <div className="flex flex-col md:flex-row gap-4">
         <Card className="flex-1">
-          <CardHeader>
-            <CardTitle>Request</CardTitle>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 gap-2">
+            <div className="min-w-0">
+              <CardTitle className="truncate">
+                {savedRequest ? savedRequest.name : "Request"}
+                {isTabDirty(tab) && (
+                  <span className="ml-2 text-sm font-normal text-muted-foreground">Unsaved changes</span>
+                )}
+              </CardTitle>
+              {savedPath && savedPath.length > 0 && (
+                <p className="text-xs text-muted-foreground truncate">{savedPath.join(" / ")}</p>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setImportDialogOpen(true)}>
+                <Terminal className="h-4 w-4 mr-2" />
+                Import cURL
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setCodePanelOpen(true)}>
+                <Code className="h-4 w-4 mr-2" />
+                Code
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setLoadTestOpen(true)}>
+                <Gauge className="h-4 w-4 mr-2" />
+                Load Test
+              </Button>
+              {savedRequest && (
+                <Button variant="ghost" size="sm" onClick={() => setSaveDialogOpen(true)}>
+                  Save As
+                </Button>
+              )}
+              <Button variant="outline" size="sm" onClick={handleSave}>
+                <Save className="h-4 w-4 mr-2" />
+                Save
+              </Button>
+            </div>
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="flex flex-col md:flex-row gap-2">
@@ -259,10 +239,17 @@ ${res.status === 504 ? '- Gateway timeout (server didn\'t receive timely respons
               </div>
               <div className="flex-1">
                 <Input
-                  placeholder="Enter URL (e.g. https://api.example.com/data)"
+                  placeholder="Enter URL (e.g. https://api.example.com/data or {{baseUrl}}/data)"
                   value={url}
-                  onChange={(e) => setUrl(e.target.value)}
+                  onChange={(e) => handleUrlChange(e.target.value)}
+                  onPaste={handleUrlPaste}
+                  className={unresolvedVariables.length > 0 ? "border-amber-500 focus-visible:ring-amber-500" : ""}
                 />
+                {resolvedUrl !== url && (
+                  <div className="mt-1 text-xs text-muted-foreground font-mono truncate" title={resolvedUrl}>
+                    {resolvedUrl}
+                  </div>
+                )}
               </div>
               <Button onClick={sendRequest} disabled={loading}>
                 {loading ? "Sending..." : <Send className="h-4 w-4 mr-2" />}
@@ -296,17 +283,101 @@ ${res.status === 504 ? '- Gateway timeout (server didn\'t receive timely respons
               )}
             </div>
 
-            <div>
-              <h3 className="text-sm font-medium mb-2">Request Body</h3>
-              <RequestBody 
-                method={method} 
-                value={body} 
-                onChange={handleBodyChange} 
-              />
-            </div>
+            {unresolvedVariables.length > 0 && (
+              <Alert className="border-amber-500/50 text-amber-700 dark:text-amber-400">
+                <AlertTitle>Unresolved variables</AlertTitle>
+                <AlertDescription className="text-xs">
+                  {unresolvedVariables.map((name) => (
+                    <code key={name} className="mr-2 rounded bg-amber-100 dark:bg-amber-950 px-1">{`{{${name}}}`}</code>
+                  ))}
+                  <div className="mt-1">
+                    These are not defined in the active environment and will be sent as typed.
+                  </div>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Tabs defaultValue="params">
+              <TabsList className="h-auto flex-wrap">
+                <TabsTrigger value="params">
+                  Params{activeRows(params).length > 0 ? ` (${activeRows(params).length})` : ""}
+                </TabsTrigger>
+                <TabsTrigger value="auth">
+                  Auth{auth.type !== "none" ? " •" : ""}
+                </TabsTrigger>
+                <TabsTrigger value="headers">
+                  Headers{activeRows(headers).length > 0 ? ` (${activeRows(headers).length})` : ""}
+                </TabsTrigger>
+                <TabsTrigger value="body">Body</TabsTrigger>
+                <TabsTrigger value="scripts">
+                  Scripts{scripts.preRequest.trim() || scripts.test.trim() ? " •" : ""}
+                </TabsTrigger>
+                <TabsTrigger value="assertions">
+                  Assertions{assertions.length > 0 ? ` (${assertions.length})` : ""}
+                </TabsTrigger>
+              </TabsList>
+
+              <TabsContent value="params">
+                <KeyValueEditor
+                  rows={params}
+                  onChange={handleParamsChange}
+                  keyPlaceholder="Parameter"
+                  reorderable
+                />
+              </TabsContent>
+
+              <TabsContent value="auth">
+                <AuthEditor auth={auth} onChange={(value) => setRequest({ auth: value })} />
+              </TabsContent>
+
+              <TabsContent value="headers">
+                <HeadersEditor headers={headers} onChange={(rows) => setRequest({ headers: rows })} />
+              </TabsContent>
+
+              <TabsContent value="body">
+                <RequestBody 
+                  method={method} 
+                  value={body} 
+                  onChange={(value) => setRequest({ body: value })}
+                  endpoint={resolvedUrl}
+                  onIntrospect={() => introspectSchema(resolveRequestConfig(requestConfig, variables))}
+                />
+              </TabsContent>
+
+              <TabsContent value="scripts">
+                <ScriptsEditor value={scripts} onChange={(value) => setRequest({ scripts: value })} />
+              </TabsContent>
+
+              <TabsContent value="assertions">
+                <AssertionsEditor rows={assertions} onChange={(rows) => setRequest({ assertions: rows })} />
+              </TabsContent>
+            </Tabs>
           </CardContent>
         </Card>
 
+        <SaveRequestDialog
+          open={saveDialogOpen}
+          onOpenChange={setSaveDialogOpen}
+          defaultName={savedRequest ? `${savedRequest.name} Copy` : defaultRequestName()}
+          onSave={handleSaveAs}
+        />
+
+        <ImportCurlDialog open={importDialogOpen} onOpenChange={setImportDialogOpen} onImport={handleImportCurl} />
+
+        <CodeSnippetPanel
+          open={codePanelOpen}
+          onOpenChange={setCodePanelOpen}
+          request={requestConfig}
+          variables={variables}
+        />
+
+        <LoadTestDialog
+          open={loadTestOpen}
+          onOpenChange={setLoadTestOpen}
+          request={requestConfig}
+          variables={variables}
+        />
+
         <Card className="flex-1">
           <CardHeader>
             <CardTitle>Response</CardTitle>
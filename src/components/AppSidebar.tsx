@@ -0,0 +1,54 @@
+import React, { useState } from 'react';
+import { Sidebar, SidebarContent, SidebarHeader } from "@/components/ui/sidebar";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import CollectionsPanel from "@/components/CollectionsPanel";
+import HistoryPanel from "@/components/HistoryPanel";
+import type { ResponseExample, SavedRequest } from "@/types/collection";
+import type { HistoryEntry } from "@/types/history";
+import type { RequestConfig } from "@/types/request";
+
+interface AppSidebarProps {
+  activeRequestId: string | null;
+  onOpenRequest: (saved: SavedRequest) => void;
+  onOpenExample: (saved: SavedRequest, example: ResponseExample) => void;
+  onRestoreHistory: (entry: HistoryEntry) => void;
+  onOpenRequests: (requests: RequestConfig[]) => void;
+}
+
+type SidebarView = "collections" | "history";
+
+const AppSidebar: React.FC<AppSidebarProps> = ({
+  activeRequestId,
+  onOpenRequest,
+  onOpenExample,
+  onRestoreHistory,
+  onOpenRequests,
+}) => {
+  const [view, setView] = useState<SidebarView>("collections");
+
+  return (
+    <Sidebar>
+      <SidebarHeader>
+        <Tabs value={view} onValueChange={(value) => setView(value as SidebarView)}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="collections">Collections</TabsTrigger>
+            <TabsTrigger value="history">History</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </SidebarHeader>
+      <SidebarContent>
+        {view === "collections" ? (
+          <CollectionsPanel
+            activeRequestId={activeRequestId}
+            onOpenRequest={onOpenRequest}
+            onOpenExample={onOpenExample}
+          />
+        ) : (
+          <HistoryPanel onRestore={onRestoreHistory} onOpenRequests={onOpenRequests} />
+        )}
+      </SidebarContent>
+    </Sidebar>
+  );
+};
+
+export default AppSidebar;
@@ -0,0 +1,117 @@
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import type { AssertionOperator, AssertionRow, AssertionSource } from "@/types/request";
+import {
+  ASSERTION_OPERATOR_LABELS,
+  ASSERTION_SOURCE_LABELS,
+  VALUE_TYPES,
+  createAssertionRow,
+  sourceHasProperty,
+} from "@/lib/assertions";
+
+interface AssertionsEditorProps {
+  rows: AssertionRow[];
+  onChange: (rows: AssertionRow[]) => void;
+}
+
+const PROPERTY_PLACEHOLDERS: Partial<Record<AssertionSource, string>> = {
+  header: "Content-Type",
+  jsonpath: "$.data.items[0].id",
+};
+
+const AssertionsEditor: React.FC<AssertionsEditorProps> = ({ rows, onChange }) => {
+  const updateRow = (id: string, patch: Partial<AssertionRow>) => {
+    onChange(rows.map((row) => (row.id === id ? { ...row, ...patch } : row)));
+  };
+
+  const removeRow = (id: string) => {
+    onChange(rows.filter((row) => row.id !== id));
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">
+        Checked on every response. Results appear in the response's Tests tab.
+      </p>
+      {rows.map((row) => (
+        <div key={row.id} className={`flex flex-wrap items-center gap-2 ${row.enabled ? '' : 'opacity-50'}`}>
+          <Checkbox
+            checked={row.enabled}
+            onCheckedChange={(checked) => updateRow(row.id, { enabled: checked === true })}
+            aria-label="Enabled"
+          />
+          <Select
+            value={row.source}
+            onValueChange={(source) => updateRow(row.id, { source: source as AssertionSource })}
+          >
+            <SelectTrigger className="w-[170px]" aria-label="Source">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(ASSERTION_SOURCE_LABELS).map(([source, label]) => (
+                <SelectItem key={source} value={source}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {sourceHasProperty(row.source) && (
+            <Input
+              placeholder={PROPERTY_PLACEHOLDERS[row.source]}
+              value={row.property}
+              onChange={(e) => updateRow(row.id, { property: e.target.value })}
+              className="font-mono text-sm flex-1 min-w-[140px]"
+              aria-label={row.source === "header" ? "Header name" : "JSONPath"}
+            />
+          )}
+          <Select
+            value={row.operator}
+            onValueChange={(operator) => updateRow(row.id, { operator: operator as AssertionOperator })}
+          >
+            <SelectTrigger className="w-[140px]" aria-label="Operator">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(ASSERTION_OPERATOR_LABELS).map(([operator, label]) => (
+                <SelectItem key={operator} value={operator}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {row.operator === "typeIs" ? (
+            <Select value={row.expected} onValueChange={(expected) => updateRow(row.id, { expected })}>
+              <SelectTrigger className="flex-1 min-w-[120px]" aria-label="Expected type">
+                <SelectValue placeholder="Type" />
+              </SelectTrigger>
+              <SelectContent>
+                {VALUE_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>{type}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          ) : (
+            row.operator !== "exists" && (
+              <Input
+                placeholder="Expected"
+                value={row.expected}
+                onChange={(e) => updateRow(row.id, { expected: e.target.value })}
+                className="font-mono text-sm flex-1 min-w-[120px]"
+                aria-label="Expected value"
+              />
+            )
+          )}
+          <Button variant="ghost" size="icon" onClick={() => removeRow(row.id)} aria-label="Remove assertion">
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={() => onChange([...rows, createAssertionRow()])}>
+        <Plus className="h-4 w-4 mr-2" />
+        Add Assertion
+      </Button>
+    </div>
+  );
+};
+
+export default AssertionsEditor;
@@ -0,0 +1,213 @@
+import React, { useSyncExternalStore } from 'react';
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { ApiKeyLocation, AuthConfig, AuthType } from "@/types/request";
+import { resolveAuth } from "@/lib/auth";
+import { getTokenCacheVersion, subscribeTokens } from "@/lib/oauth2";
+import OAuth2Editor from "@/components/OAuth2Editor";
+
+interface AuthEditorProps {
+  auth: AuthConfig;
+  onChange: (auth: AuthConfig) => void;
+}
+
+const AuthEditor: React.FC<AuthEditorProps> = ({ auth, onChange }) => {
+  const update = <K extends keyof AuthConfig>(section: K, patch: Partial<AuthConfig[K]>) => {
+    onChange({ ...auth, [section]: { ...(auth[section] as object), ...patch } });
+  };
+
+  // Re-render when OAuth 2.0 tokens are fetched, refreshed or cleared.
+  useSyncExternalStore(subscribeTokens, getTokenCacheVersion);
+  const generated = resolveAuth(auth);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Type</Label>
+        <Select value={auth.type} onValueChange={(value) => onChange({ ...auth, type: value as AuthType })}>
+          <SelectTrigger className="w-full md:w-[220px]">
+            <SelectValue placeholder="Auth type" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">No Auth</SelectItem>
+            <SelectItem value="basic">Basic Auth</SelectItem>
+            <SelectItem value="bearer">Bearer Token</SelectItem>
+            <SelectItem value="apikey">API Key</SelectItem>
+            <SelectItem value="oauth2">OAuth 2.0</SelectItem>
+            <SelectItem value="awsv4">AWS Signature v4</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {auth.type === "none" && (
+        <div className="text-muted-foreground text-sm p-4 bg-muted rounded-md">
+          This request does not use any authorization.
+        </div>
+      )}
+
+      {auth.type === "basic" && (
+        <div className="grid gap-3 md:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="auth-basic-username">Username</Label>
+            <Input
+              id="auth-basic-username"
+              value={auth.basic.username}
+              onChange={(e) => update("basic", { username: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="auth-basic-password">Password</Label>
+            <Input
+              id="auth-basic-password"
+              type="password"
+              value={auth.basic.password}
+              onChange={(e) => update("basic", { password: e.target.value })}
+            />
+          </div>
+        </div>
+      )}
+
+      {auth.type === "bearer" && (
+        <div className="grid gap-3 md:grid-cols-[120px,1fr]">
+          <div className="space-y-2">
+            <Label htmlFor="auth-bearer-prefix">Prefix</Label>
+            <Input
+              id="auth-bearer-prefix"
+              value={auth.bearer.prefix}
+              onChange={(e) => update("bearer", { prefix: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="auth-bearer-token">Token</Label>
+            <Input
+              id="auth-bearer-token"
+              className="font-mono text-sm"
+              value={auth.bearer.token}
+              onChange={(e) => update("bearer", { token: e.target.value })}
+            />
+          </div>
+        </div>
+      )}
+
+      {auth.type === "apikey" && (
+        <div className="grid gap-3 md:grid-cols-3">
+          <div className="space-y-2">
+            <Label htmlFor="auth-apikey-key">Key</Label>
+            <Input
+              id="auth-apikey-key"
+              placeholder="X-API-Key"
+              value={auth.apiKey.key}
+              onChange={(e) => update("apiKey", { key: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="auth-apikey-value">Value</Label>
+            <Input
+              id="auth-apikey-value"
+              className="font-mono text-sm"
+              value={auth.apiKey.value}
+              onChange={(e) => update("apiKey", { value: e.target.value })}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Add to</Label>
+            <Select
+              value={auth.apiKey.addTo}
+              onValueChange={(value) => update("apiKey", { addTo: value as ApiKeyLocation })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="header">Header</SelectItem>
+                <SelectItem value="query">Query Params</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+
+      {auth.type === "oauth2" && (
+        <OAuth2Editor config={auth.oauth2} onChange={(patch) => update("oauth2", patch)} />
+      )}
+
+      {auth.type === "awsv4" && (
+        <div className="space-y-3">
+          <div className="grid gap-3 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="auth-aws-access-key">Access Key ID</Label>
+              <Input
+                id="auth-aws-access-key"
+                className="font-mono text-sm"
+                value={auth.awsV4.accessKeyId}
+                onChange={(e) => update("awsV4", { accessKeyId: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="auth-aws-secret">Secret Access Key</Label>
+              <Input
+                id="auth-aws-secret"
+                type="password"
+                value={auth.awsV4.secretAccessKey}
+                onChange={(e) => update("awsV4", { secretAccessKey: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="auth-aws-region">Region</Label>
+              <Input
+                id="auth-aws-region"
+                placeholder="us-east-1"
+                value={auth.awsV4.region}
+                onChange={(e) => update("awsV4", { region: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="auth-aws-service">Service Name</Label>
+              <Input
+                id="auth-aws-service"
+                placeholder="execute-api"
+                value={auth.awsV4.service}
+                onChange={(e) => update("awsV4", { service: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="auth-aws-session-token">Session Token (optional)</Label>
+            <Input
+              id="auth-aws-session-token"
+              className="font-mono text-sm"
+              value={auth.awsV4.sessionToken}
+              onChange={(e) => update("awsV4", { sessionToken: e.target.value })}
+            />
+          </div>
+          <div className="text-xs text-muted-foreground">
+            Authorization, X-Amz-Date{auth.awsV4.sessionToken ? ", X-Amz-Security-Token" : ""}
+            {auth.awsV4.service === "s3" ? " and X-Amz-Content-Sha256" : ""} are computed from the final
+            request when it is sent.
+          </div>
+        </div>
+      )}
+
+      {(generated.headers.length > 0 || generated.queryParams.length > 0) && (
+        <div className="space-y-1 rounded-md border p-2">
+          <h4 className="text-xs font-medium text-muted-foreground mb-1">Generated at send time</h4>
+          {generated.headers.map(([key, value]) => (
+            <div key={`header-${key}`} className="grid grid-cols-[1fr,2fr] gap-2 text-xs font-mono">
+              <div className="font-medium text-muted-foreground">{key}:</div>
+              <div className="break-all">{value}</div>
+            </div>
+          ))}
+          {generated.queryParams.map(([key, value]) => (
+            <div key={`query-${key}`} className="grid grid-cols-[1fr,2fr] gap-2 text-xs font-mono">
+              <div className="font-medium text-muted-foreground">?{key}=</div>
+              <div className="break-all">{value}</div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AuthEditor;
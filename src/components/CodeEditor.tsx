@@ -0,0 +1,70 @@
+import React, { useMemo } from 'react';
+import CodeMirror from "@uiw/react-codemirror";
+import type { Extension } from "@codemirror/state";
+import { cn } from "@/lib/utils";
+import { editorTheme, languageExtension, variableHighlighter, type EditorLanguage } from "@/lib/editor";
+import type { VariableMap } from "@/lib/variables";
+
+interface CodeEditorProps {
+  value: string;
+  onChange?: (value: string) => void;
+  language: EditorLanguage;
+  placeholder?: string;
+  minHeight?: string;
+  extensions?: Extension[];
+  // When given, {{name}} placeholders are highlighted against these.
+  variables?: VariableMap;
+  className?: string;
+  id?: string;
+  readOnly?: boolean;
+}
+
+const NO_EXTENSIONS: Extension[] = [];
+
+const CodeEditor: React.FC<CodeEditorProps> = ({
+  value,
+  onChange,
+  language,
+  placeholder,
+  minHeight = "200px",
+  extensions = NO_EXTENSIONS,
+  variables,
+  className,
+  id,
+  readOnly = false,
+}) => {
+  const allExtensions = useMemo(
+    () => [
+      languageExtension(language),
+      editorTheme,
+      ...(variables ? [variableHighlighter(variables)] : []),
+      ...extensions,
+    ],
+    [language, extensions, variables]
+  );
+
+  return (
+    <CodeMirror
+      id={id}
+      value={value}
+      onChange={onChange}
+      readOnly={readOnly}
+      extensions={allExtensions}
+      placeholder={placeholder}
+      minHeight={minHeight}
+      maxHeight="480px"
+      theme="none"
+      basicSetup={{
+        lineNumbers: true,
+        foldGutter: true,
+        bracketMatching: true,
+        closeBrackets: true,
+        highlightActiveLine: !readOnly,
+        autocompletion: false,
+      }}
+      className={cn("rounded-md border border-input overflow-hidden", className)}
+    />
+  );
+};
+
+export default CodeEditor;
@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { Check, Copy } from "lucide-react";
+import CodeEditor from "@/components/CodeEditor";
+import { useToast } from "@/hooks/use-toast";
+import type { RequestConfig } from "@/types/request";
+import { loadJson, saveJson } from "@/lib/storage";
+import { buildSnippetRequest, generateSnippet, SNIPPET_LANGUAGES, type SnippetLanguage } from "@/lib/snippets";
+import type { VariableMap } from "@/lib/variables";
+
+const LANGUAGE_KEY = "snippet-language";
+
+interface CodeSnippetPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  request: RequestConfig;
+  variables: VariableMap;
+}
+
+const CodeSnippetPanel: React.FC<CodeSnippetPanelProps> = ({ open, onOpenChange, request, variables }) => {
+  const [language, setLanguage] = useState<SnippetLanguage>(() => {
+    const stored = loadJson<SnippetLanguage>(LANGUAGE_KEY, "curl");
+    return SNIPPET_LANGUAGES.some((option) => option.id === stored) ? stored : "curl";
+  });
+  const [code, setCode] = useState<string>("");
+  const [copied, setCopied] = useState<boolean>(false);
+  const { toast } = useToast();
+
+  useEffect(() => saveJson(LANGUAGE_KEY, language), [language]);
+
+  // Building can sign AWS requests, which is async; only the latest result is shown.
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    buildSnippetRequest(request, variables).then((snippetRequest) => {
+      if (!cancelled) setCode(generateSnippet(language, snippetRequest));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, request, variables, language]);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timeout = window.setTimeout(() => setCopied(false), 1500);
+    return () => window.clearTimeout(timeout);
+  }, [copied]);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+    } catch {
+      toast({ title: "Could not copy", description: "The clipboard isn't available here.", variant: "destructive" });
+    }
+  };
+
+  const editorLanguage = SNIPPET_LANGUAGES.find((option) => option.id === language)?.editor ?? "text";
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side="right" className="w-full sm:max-w-2xl flex flex-col gap-4">
+        <SheetHeader>
+          <SheetTitle>Code</SheetTitle>
+          <SheetDescription>The current request as a ready-to-run snippet, with variables filled in.</SheetDescription>
+        </SheetHeader>
+        <div className="flex items-center gap-2">
+          <Select value={language} onValueChange={(value) => setLanguage(value as SnippetLanguage)}>
+            <SelectTrigger className="flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SNIPPET_LANGUAGES.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={handleCopy} disabled={!code}>
+            {copied ? <Check className="h-4 w-4 mr-2" /> : <Copy className="h-4 w-4 mr-2" />}
+            {copied ? "Copied" : "Copy"}
+          </Button>
+        </div>
+        <CodeEditor value={code} language={editorLanguage} readOnly minHeight="320px" className="text-xs" />
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default CodeSnippetPanel;
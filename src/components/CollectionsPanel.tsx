@@ -0,0 +1,355 @@
+import React, { useState } from 'react';
+import {
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSub,
+} from "@/components/ui/sidebar";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  ChevronRight,
+  Copy,
+  FileDown,
+  FileText,
+  FileUp,
+  Folder,
+  FolderPlus,
+  Library,
+  MoreHorizontal,
+  Pencil,
+  Play,
+  Plus,
+  Trash2,
+} from "lucide-react";
+import MethodBadge from "@/components/MethodBadge";
+import NameDialog from "@/components/NameDialog";
+import ImportDialog from "@/components/ImportDialog";
+import RunnerDialog from "@/components/RunnerDialog";
+import { useCollections } from "@/contexts/CollectionsContext";
+import { useEnvironments } from "@/contexts/EnvironmentsContext";
+import { useToast } from "@/hooks/use-toast";
+import type { Collection, CollectionFolder, CollectionItem, ResponseExample, SavedRequest } from "@/types/collection";
+import type { ImportResult } from "@/types/import";
+import { countRequests, type CollectionNode } from "@/lib/collections";
+import { downloadFile, toFileName } from "@/lib/download";
+import { exportHttpFile } from "@/lib/http-file";
+import { exportOpenApi, serializeOpenApi } from "@/lib/openapi-export";
+
+interface CollectionsPanelProps {
+  activeRequestId: string | null;
+  onOpenRequest: (saved: SavedRequest) => void;
+  onOpenExample: (saved: SavedRequest, example: ResponseExample) => void;
+}
+
+type NamePrompt =
+  | { kind: "collection" }
+  | { kind: "folder"; parentId: string }
+  | { kind: "rename"; node: CollectionNode };
+
+interface NodeActions {
+  activeRequestId: string | null;
+  onOpenRequest: (saved: SavedRequest) => void;
+  onOpenExample: (saved: SavedRequest, example: ResponseExample) => void;
+  onPrompt: (prompt: NamePrompt) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (node: CollectionNode) => void;
+  onExport: (node: Collection | CollectionFolder, format: ExportFormat) => void;
+  onRun: (node: Collection | CollectionFolder) => void;
+}
+
+type ExportFormat = "http" | "openapi-yaml" | "openapi-json";
+
+const NodeMenu: React.FC<{ node: CollectionNode; isContainer: boolean; actions: NodeActions }> = ({
+  node,
+  isContainer,
+  actions,
+}) => (
+  <DropdownMenu>
+    <DropdownMenuTrigger asChild>
+      <SidebarMenuAction showOnHover aria-label={`Actions for ${node.name}`}>
+        <MoreHorizontal />
+      </SidebarMenuAction>
+    </DropdownMenuTrigger>
+    <DropdownMenuContent side="right" align="start">
+      {isContainer && (
+        <>
+          <DropdownMenuItem onClick={() => actions.onPrompt({ kind: "folder", parentId: node.id })}>
+            <FolderPlus className="h-4 w-4 mr-2" />
+            New Folder
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => actions.onRun(node as Collection | CollectionFolder)}>
+            <Play className="h-4 w-4 mr-2" />
+            Run
+          </DropdownMenuItem>
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>
+              <FileDown className="h-4 w-4 mr-2" />
+              Export
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              <DropdownMenuItem onClick={() => actions.onExport(node as Collection | CollectionFolder, "http")}>
+                .http file
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => actions.onExport(node as Collection | CollectionFolder, "openapi-yaml")}>
+                OpenAPI 3.1 (YAML)
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => actions.onExport(node as Collection | CollectionFolder, "openapi-json")}>
+                OpenAPI 3.1 (JSON)
+              </DropdownMenuItem>
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          <DropdownMenuSeparator />
+        </>
+      )}
+      {"type" in node && node.type === "request" && node.examples?.length > 0 && (
+        <>
+          <DropdownMenuSub>
+            <DropdownMenuSubTrigger>
+              <FileText className="h-4 w-4 mr-2" />
+              Examples
+            </DropdownMenuSubTrigger>
+            <DropdownMenuSubContent>
+              {node.examples.map((example) => (
+                <DropdownMenuItem key={example.id} onClick={() => actions.onOpenExample(node, example)}>
+                  <span className="truncate">{example.name}</span>
+                  <span className="ml-auto pl-4 text-xs text-muted-foreground">{example.status || ""}</span>
+                </DropdownMenuItem>
+              ))}
+            </DropdownMenuSubContent>
+          </DropdownMenuSub>
+          <DropdownMenuSeparator />
+        </>
+      )}
+      <DropdownMenuItem onClick={() => actions.onPrompt({ kind: "rename", node })}>
+        <Pencil className="h-4 w-4 mr-2" />
+        Rename
+      </DropdownMenuItem>
+      <DropdownMenuItem onClick={() => actions.onDuplicate(node.id)}>
+        <Copy className="h-4 w-4 mr-2" />
+        Duplicate
+      </DropdownMenuItem>
+      <DropdownMenuItem className="text-destructive" onClick={() => actions.onDelete(node)}>
+        <Trash2 className="h-4 w-4 mr-2" />
+        Delete
+      </DropdownMenuItem>
+    </DropdownMenuContent>
+  </DropdownMenu>
+);
+
+const TreeItem: React.FC<{ item: CollectionItem; actions: NodeActions }> = ({ item, actions }) => {
+  if (item.type === "request") {
+    return (
+      <SidebarMenuItem>
+        <SidebarMenuButton
+          size="sm"
+          isActive={actions.activeRequestId === item.id}
+          onClick={() => actions.onOpenRequest(item)}
+          title={item.request.url}
+        >
+          <MethodBadge method={item.request.method} />
+          <span className="truncate">{item.name}</span>
+        </SidebarMenuButton>
+        <NodeMenu node={item} isContainer={false} actions={actions} />
+      </SidebarMenuItem>
+    );
+  }
+
+  return (
+    <Collapsible asChild defaultOpen className="group/collapsible">
+      <SidebarMenuItem>
+        <CollapsibleTrigger asChild>
+          <SidebarMenuButton size="sm">
+            <ChevronRight className="transition-transform group-data-[state=open]/collapsible:rotate-90" />
+            <Folder />
+            <span className="truncate">{item.name}</span>
+          </SidebarMenuButton>
+        </CollapsibleTrigger>
+        <NodeMenu node={item} isContainer actions={actions} />
+        <CollapsibleContent>
+          <SidebarMenuSub className="mr-0 pr-0">
+            {item.items.map((child) => (
+              <TreeItem key={child.id} item={child} actions={actions} />
+            ))}
+          </SidebarMenuSub>
+        </CollapsibleContent>
+      </SidebarMenuItem>
+    </Collapsible>
+  );
+};
+
+const CollectionTree: React.FC<{ collection: Collection; actions: NodeActions }> = ({ collection, actions }) => (
+  <Collapsible asChild defaultOpen className="group/collapsible">
+    <SidebarMenuItem>
+      <CollapsibleTrigger asChild>
+        <SidebarMenuButton className="font-medium">
+          <ChevronRight className="transition-transform group-data-[state=open]/collapsible:rotate-90" />
+          <Library />
+          <span className="truncate">{collection.name}</span>
+        </SidebarMenuButton>
+      </CollapsibleTrigger>
+      <NodeMenu node={collection} isContainer actions={actions} />
+      <CollapsibleContent>
+        <SidebarMenuSub className="mr-0 pr-0">
+          {collection.items.length === 0 && (
+            <li className="px-2 py-1 text-xs text-muted-foreground">Empty collection</li>
+          )}
+          {collection.items.map((item) => (
+            <TreeItem key={item.id} item={item} actions={actions} />
+          ))}
+        </SidebarMenuSub>
+      </CollapsibleContent>
+    </SidebarMenuItem>
+  </Collapsible>
+);
+
+const CollectionsPanel: React.FC<CollectionsPanelProps> = ({ activeRequestId, onOpenRequest, onOpenExample }) => {
+  const { collections, addCollection, importCollection, addFolder, renameItem, duplicateItem, deleteItem } =
+    useCollections();
+  const { variables, importEnvironments } = useEnvironments();
+  const { toast } = useToast();
+  const [prompt, setPrompt] = useState<NamePrompt | null>(null);
+  const [pendingDelete, setPendingDelete] = useState<CollectionNode | null>(null);
+  const [importOpen, setImportOpen] = useState<boolean>(false);
+  const [runTarget, setRunTarget] = useState<Collection | CollectionFolder | null>(null);
+
+  const actions: NodeActions = {
+    activeRequestId,
+    onOpenRequest,
+    onOpenExample,
+    onPrompt: setPrompt,
+    onDuplicate: duplicateItem,
+    onDelete: setPendingDelete,
+    onRun: setRunTarget,
+    onExport: (node, format) => {
+      if (format === "http") {
+        downloadFile(toFileName(node.name, "http"), exportHttpFile(node));
+        return;
+      }
+      // Server variables default to the active environment's values.
+      const spec = exportOpenApi(node, variables);
+      if (format === "openapi-json") {
+        downloadFile(toFileName(node.name, "openapi.json"), serializeOpenApi(spec, "json"), "application/json");
+      } else {
+        downloadFile(toFileName(node.name, "openapi.yaml"), serializeOpenApi(spec, "yaml"), "application/yaml");
+      }
+    },
+  };
+
+  const handleNameSubmit = (name: string) => {
+    if (!prompt) return;
+    if (prompt.kind === "collection") addCollection(name);
+    else if (prompt.kind === "folder") addFolder(prompt.parentId, name);
+    else renameItem(prompt.node.id, name);
+  };
+
+  const handleImport = ({ collection, environments }: ImportResult) => {
+    if (collection) importCollection(collection);
+    importEnvironments(environments);
+    toast(
+      collection
+        ? {
+            title: `Imported ${collection.name}`,
+            description: `${countRequests(collection.items)} requests, ${environments.length} environments`,
+          }
+        : { title: `Imported ${environments.map((env) => env.name).join(", ")}` }
+    );
+  };
+
+  const promptTitle = !prompt
+    ? ""
+    : prompt.kind === "collection"
+      ? "New Collection"
+      : prompt.kind === "folder"
+        ? "New Folder"
+        : "Rename";
+
+  return (
+    <>
+      <SidebarGroup>
+        <SidebarGroupLabel>Collections</SidebarGroupLabel>
+        <SidebarGroupAction className="right-9" onClick={() => setImportOpen(true)} title="Import">
+          <FileUp />
+          <span className="sr-only">Import</span>
+        </SidebarGroupAction>
+        <SidebarGroupAction onClick={() => setPrompt({ kind: "collection" })} title="New collection">
+          <Plus />
+          <span className="sr-only">New collection</span>
+        </SidebarGroupAction>
+        <SidebarGroupContent>
+          {collections.length === 0 ? (
+            <p className="px-2 py-4 text-xs text-muted-foreground">
+              No collections yet. Save a request or create a collection to get started.
+            </p>
+          ) : (
+            <SidebarMenu>
+              {collections.map((collection) => (
+                <CollectionTree key={collection.id} collection={collection} actions={actions} />
+              ))}
+            </SidebarMenu>
+          )}
+        </SidebarGroupContent>
+      </SidebarGroup>
+
+      <NameDialog
+        open={prompt !== null}
+        onOpenChange={(open) => !open && setPrompt(null)}
+        title={promptTitle}
+        initialName={prompt?.kind === "rename" ? prompt.node.name : ""}
+        confirmLabel={prompt?.kind === "rename" ? "Rename" : "Create"}
+        onSubmit={handleNameSubmit}
+      />
+
+      <ImportDialog open={importOpen} onOpenChange={setImportOpen} onImport={handleImport} />
+      <RunnerDialog node={runTarget} onOpenChange={(open) => !open && setRunTarget(null)} />
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{pendingDelete?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingDelete && "type" in pendingDelete && pendingDelete.type === "request"
+                ? "The saved request will be removed."
+                : "Everything inside it will be removed as well."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => pendingDelete && deleteItem(pendingDelete.id)}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default CollectionsPanel;
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Copy, Plus, Trash2 } from "lucide-react";
+import KeyValueEditor from "@/components/KeyValueEditor";
+import { useEnvironments } from "@/contexts/EnvironmentsContext";
+import { DYNAMIC_VARIABLES } from "@/lib/dynamic-variables";
+
+interface EnvironmentManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EnvironmentManager: React.FC<EnvironmentManagerProps> = ({ open, onOpenChange }) => {
+  const {
+    environments,
+    activeEnvironment,
+    addEnvironment,
+    updateEnvironment,
+    duplicateEnvironment,
+    deleteEnvironment,
+  } = useEnvironments();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  const selected =
+    environments.find((env) => env.id === selectedId) ?? activeEnvironment ?? environments[0] ?? null;
+
+  const handleAdd = () => {
+    const environment = addEnvironment(`Environment ${environments.length + 1}`);
+    setSelectedId(environment.id);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Environments</DialogTitle>
+          <DialogDescription>
+            Variables are referenced as {"{{name}}"} in the URL, headers, auth and body.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 md:grid-cols-[200px,1fr]">
+          <div className="space-y-2">
+            <ScrollArea className="h-[320px] rounded-md border">
+              <div className="p-1 space-y-1">
+                {environments.map((env) => (
+                  <button
+                    key={env.id}
+                    onClick={() => setSelectedId(env.id)}
+                    className={`w-full text-left rounded-sm px-2 py-1.5 text-sm ${selected?.id === env.id ? 'bg-accent font-medium' : 'hover:bg-muted'}`}
+                  >
+                    {env.name}
+                    {activeEnvironment?.id === env.id && (
+                      <span className="ml-1 text-xs text-muted-foreground">(active)</span>
+                    )}
+                  </button>
+                ))}
+              </div>
+            </ScrollArea>
+            <Button variant="outline" size="sm" className="w-full" onClick={handleAdd}>
+              <Plus className="h-4 w-4 mr-2" />
+              New Environment
+            </Button>
+          </div>
+
+          {selected ? (
+            <div className="space-y-3 min-w-0">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={selected.name}
+                  onChange={(e) => updateEnvironment(selected.id, { name: e.target.value })}
+                  aria-label="Environment name"
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => duplicateEnvironment(selected.id)}
+                  aria-label="Duplicate environment"
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => {
+                    deleteEnvironment(selected.id);
+                    setSelectedId(null);
+                  }}
+                  aria-label="Delete environment"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <ScrollArea className="h-[280px] pr-3">
+                <KeyValueEditor
+                  rows={selected.variables}
+                  onChange={(variables) => updateEnvironment(selected.id, { variables })}
+                  keyPlaceholder="Variable"
+                />
+              </ScrollArea>
+            </div>
+          ) : (
+            <div className="flex items-center justify-center text-sm text-muted-foreground">
+              Create an environment to get started
+            </div>
+          )}
+        </div>
+
+        <details className="text-sm">
+          <summary className="cursor-pointer text-muted-foreground">Dynamic variables</summary>
+          <div className="mt-2 grid gap-1 md:grid-cols-2">
+            {Object.entries(DYNAMIC_VARIABLES).map(([name, variable]) => (
+              <div key={name} className="text-xs">
+                <code className="font-mono">{variable.usage}</code>
+                <span className="text-muted-foreground"> — {variable.description}</span>
+              </div>
+            ))}
+          </div>
+          <p className="mt-2 text-xs text-muted-foreground">
+            Dynamic values are generated fresh every time a request is sent.
+          </p>
+        </details>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EnvironmentManager;
@@ -0,0 +1,40 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Settings2 } from "lucide-react";
+import EnvironmentManager from "@/components/EnvironmentManager";
+import { useEnvironments } from "@/contexts/EnvironmentsContext";
+
+const NO_ENVIRONMENT = "__none__";
+
+const EnvironmentSwitcher: React.FC = () => {
+  const { environments, activeEnvironment, setActiveEnvironmentId } = useEnvironments();
+  const [managerOpen, setManagerOpen] = useState<boolean>(false);
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        value={activeEnvironment?.id ?? NO_ENVIRONMENT}
+        onValueChange={(value) => setActiveEnvironmentId(value === NO_ENVIRONMENT ? null : value)}
+      >
+        <SelectTrigger className="w-[200px]">
+          <SelectValue placeholder="No Environment" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NO_ENVIRONMENT}>No Environment</SelectItem>
+          {environments.map((env) => (
+            <SelectItem key={env.id} value={env.id}>
+              {env.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button variant="outline" size="icon" onClick={() => setManagerOpen(true)} aria-label="Manage environments">
+        <Settings2 className="h-4 w-4" />
+      </Button>
+      <EnvironmentManager open={managerOpen} onOpenChange={setManagerOpen} />
+    </div>
+  );
+};
+
+export default EnvironmentSwitcher;
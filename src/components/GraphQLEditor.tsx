@@ -0,0 +1,124 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { BookOpen, Braces, RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useEnvironments } from "@/contexts/EnvironmentsContext";
+import GraphQLSchemaExplorer from "@/components/GraphQLSchemaExplorer";
+import CodeEditor from "@/components/CodeEditor";
+import type { RequestBodyConfig } from "@/types/request";
+import { getCachedSchema, type IntrospectionSchema } from "@/lib/graphql";
+import { graphqlAutocomplete, parseErrorLinter } from "@/lib/editor";
+import { formatJson, parseJsonError } from "@/lib/format";
+
+interface GraphQLEditorProps {
+  value: RequestBodyConfig["graphql"];
+  onChange: (value: RequestBodyConfig["graphql"]) => void;
+  endpoint: string;
+  onIntrospect: () => Promise<IntrospectionSchema>;
+}
+
+const VARIABLES_EXTENSIONS = [parseErrorLinter(parseJsonError)];
+
+const GraphQLEditor: React.FC<GraphQLEditorProps> = ({ value, onChange, endpoint, onIntrospect }) => {
+  // The schema fetched here, with the endpoint it belongs to. Other endpoints
+  // read the cache, so changing the URL never keeps the old endpoint's schema.
+  const [fetched, setFetched] = useState<{ endpoint: string; schema: IntrospectionSchema } | null>(null);
+  const schema = fetched?.endpoint === endpoint ? fetched.schema : getCachedSchema(endpoint);
+  const [loadingSchema, setLoadingSchema] = useState<boolean>(false);
+  const [showExplorer, setShowExplorer] = useState<boolean>(false);
+  const { toast } = useToast();
+  const { variables } = useEnvironments();
+
+  // The completion source reads the schema through a ref so the editor
+  // extensions stay stable when the schema is (re)fetched.
+  const schemaRef = useRef(schema);
+  schemaRef.current = schema;
+  const queryExtensions = useMemo(() => [graphqlAutocomplete(() => schemaRef.current)], []);
+
+  const fetchSchema = async () => {
+    const fetchedFor = endpoint;
+    setLoadingSchema(true);
+    try {
+      setFetched({ endpoint: fetchedFor, schema: await onIntrospect() });
+      setShowExplorer(true);
+    } catch (error) {
+      toast({
+        title: "Schema introspection failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingSchema(false);
+    }
+  };
+
+  const formatVariables = () => {
+    try {
+      onChange({ ...value, variables: formatJson(value.variables) });
+    } catch (error) {
+      toast({
+        title: "Cannot format variables",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="sm" onClick={fetchSchema} disabled={loadingSchema || !endpoint}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${loadingSchema ? 'animate-spin' : ''}`} />
+          {schema ? "Refresh Schema" : "Fetch Schema"}
+        </Button>
+        {schema && (
+          <Button variant="ghost" size="sm" onClick={() => setShowExplorer(!showExplorer)}>
+            <BookOpen className="h-4 w-4 mr-2" />
+            {showExplorer ? "Hide Schema" : "Show Schema"}
+          </Button>
+        )}
+        <span className="text-xs text-muted-foreground">
+          {schema ? "Ctrl+Space for suggestions" : "Fetch the schema to enable autocomplete"}
+        </span>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="graphql-query">Query</Label>
+        <CodeEditor
+          id="graphql-query"
+          language="graphql"
+          value={value.query}
+          onChange={(query) => onChange({ ...value, query })}
+          extensions={queryExtensions}
+          variables={variables}
+          placeholder={"query {\n  \n}"}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="graphql-variables">Variables (JSON)</Label>
+          <Button variant="ghost" size="sm" onClick={formatVariables} disabled={!value.variables.trim()}>
+            <Braces className="h-4 w-4 mr-2" />
+            Format
+          </Button>
+        </div>
+        <CodeEditor
+          id="graphql-variables"
+          language="json"
+          value={value.variables}
+          onChange={(text) => onChange({ ...value, variables: text })}
+          extensions={VARIABLES_EXTENSIONS}
+          variables={variables}
+          placeholder={"{\n  \"id\": 1\n}"}
+          minHeight="100px"
+        />
+      </div>
+
+      {schema && showExplorer && <GraphQLSchemaExplorer schema={schema} />}
+    </div>
+  );
+};
+
+export default GraphQLEditor;
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { ChevronLeft } from "lucide-react";
+import {
+  findType,
+  formatTypeRef,
+  isBuiltinType,
+  namedType,
+  type IntrospectionInputValue,
+  type IntrospectionSchema,
+  type IntrospectionTypeRef,
+} from "@/lib/graphql";
+
+interface GraphQLSchemaExplorerProps {
+  schema: IntrospectionSchema;
+}
+
+const GraphQLSchemaExplorer: React.FC<GraphQLSchemaExplorerProps> = ({ schema }) => {
+  const [history, setHistory] = useState<string[]>([]);
+  const [search, setSearch] = useState<string>("");
+  const current = history.length > 0 ? findType(schema, history[history.length - 1]) : undefined;
+
+  const open = (name: string | null) => {
+    if (name && findType(schema, name)) {
+      setHistory([...history, name]);
+    }
+  };
+
+  const typeLink = (ref: IntrospectionTypeRef) => (
+    <button
+      className="text-method-post hover:underline font-mono"
+      onClick={() => open(namedType(ref))}
+    >
+      {formatTypeRef(ref)}
+    </button>
+  );
+
+  const renderArgs = (args: IntrospectionInputValue[]) =>
+    args.length > 0 && (
+      <span className="text-muted-foreground">
+        (
+        {args.map((arg, i) => (
+          <span key={arg.name}>
+            {i > 0 && ", "}
+            {arg.name}: {typeLink(arg.type)}
+            {arg.defaultValue !== null && ` = ${arg.defaultValue}`}
+          </span>
+        ))}
+        )
+      </span>
+    );
+
+  const roots = [
+    ["Query", schema.queryType?.name],
+    ["Mutation", schema.mutationType?.name],
+    ["Subscription", schema.subscriptionType?.name],
+  ].filter(([, name]) => name) as [string, string][];
+
+  const matchingTypes = search
+    ? schema.types.filter((type) => !isBuiltinType(type) && type.name.toLowerCase().includes(search.toLowerCase()))
+    : [];
+
+  return (
+    <div className="rounded-md border">
+      <div className="flex items-center gap-2 border-b p-2">
+        {current ? (
+          <>
+            <Button variant="ghost" size="sm" onClick={() => setHistory(history.slice(0, -1))}>
+              <ChevronLeft className="h-4 w-4 mr-1" />
+              Back
+            </Button>
+            <span className="font-mono text-sm font-medium">{current.name}</span>
+            <Badge variant="outline" className="ml-auto">{current.kind}</Badge>
+          </>
+        ) : (
+          <Input
+            placeholder="Search types"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="h-8"
+          />
+        )}
+      </div>
+
+      <ScrollArea className="h-[260px]">
+        <div className="p-2 space-y-2 text-xs">
+          {!current && !search && roots.map(([label, name]) => (
+            <div key={label}>
+              <span className="text-muted-foreground">{label}: </span>
+              <button className="text-method-post hover:underline font-mono" onClick={() => open(name)}>
+                {name}
+              </button>
+            </div>
+          ))}
+
+          {!current && matchingTypes.map((type) => (
+            <div key={type.name} className="flex items-center gap-2">
+              <button className="text-method-post hover:underline font-mono" onClick={() => open(type.name)}>
+                {type.name}
+              </button>
+              <span className="text-muted-foreground">{type.kind}</span>
+            </div>
+          ))}
+
+          {current && (
+            <>
+              {current.description && <p className="text-muted-foreground">{current.description}</p>}
+
+              {current.fields?.map((field) => (
+                <div key={field.name} className={field.isDeprecated ? "opacity-60" : ""}>
+                  <div className="font-mono">
+                    <span className="font-medium">{field.name}</span>
+                    {renderArgs(field.args)}: {typeLink(field.type)}
+                  </div>
+                  {field.description && <div className="text-muted-foreground pl-2">{field.description}</div>}
+                  {field.deprecationReason && (
+                    <div className="text-amber-600 dark:text-amber-400 pl-2">Deprecated: {field.deprecationReason}</div>
+                  )}
+                </div>
+              ))}
+
+              {current.inputFields?.map((field) => (
+                <div key={field.name}>
+                  <div className="font-mono">
+                    <span className="font-medium">{field.name}</span>: {typeLink(field.type)}
+                  </div>
+                  {field.description && <div className="text-muted-foreground pl-2">{field.description}</div>}
+                </div>
+              ))}
+
+              {current.enumValues?.map((value) => (
+                <div key={value.name} className={value.isDeprecated ? "opacity-60" : ""}>
+                  <span className="font-mono font-medium">{value.name}</span>
+                  {value.description && <span className="text-muted-foreground"> — {value.description}</span>}
+                </div>
+              ))}
+
+              {current.possibleTypes && current.possibleTypes.length > 0 && (
+                <div>
+                  <div className="text-muted-foreground mb-1">Possible types:</div>
+                  {current.possibleTypes.map((ref) => (
+                    <div key={ref.name}>{typeLink(ref)}</div>
+                  ))}
+                </div>
+              )}
+
+              {current.interfaces && current.interfaces.length > 0 && (
+                <div>
+                  <div className="text-muted-foreground mb-1">Implements:</div>
+                  {current.interfaces.map((ref) => (
+                    <div key={ref.name}>{typeLink(ref)}</div>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+};
+
+export default GraphQLSchemaExplorer;
@@ -0,0 +1,182 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import MethodBadge from "@/components/MethodBadge";
+import { parseHar, type HarImport, type HarImportEntry } from "@/lib/har";
+
+interface HarImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onOpenEntries: (entries: HarImportEntry[]) => void;
+  onSaveEntries: (name: string, entries: HarImportEntry[]) => void;
+}
+
+// Opening more than this many tabs at once is more likely a mistake.
+const MAX_TABS = 10;
+
+// Chrome's resource types for requests made from page scripts.
+const API_RESOURCE_TYPES = new Set(["fetch", "xhr"]);
+
+const HarImportDialog: React.FC<HarImportDialogProps> = ({ open, onOpenChange, onOpenEntries, onSaveEntries }) => {
+  const [parsed, setParsed] = useState<HarImport | { error: string } | null>(null);
+  const [fileName, setFileName] = useState<string>("");
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [apiOnly, setApiOnly] = useState<boolean>(true);
+
+  useEffect(() => {
+    if (open) {
+      setParsed(null);
+      setFileName("");
+      setSelected(new Set());
+    }
+  }, [open]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setFileName(file.name);
+    try {
+      setParsed(parseHar(await file.text()));
+    } catch (error) {
+      setParsed({ error: (error as Error).message });
+    }
+    setSelected(new Set());
+  };
+
+  const hasResourceTypes = parsed !== null && !("error" in parsed) && parsed.entries.some((entry) => entry.resourceType);
+
+  const visible = useMemo(() => {
+    if (!parsed || "error" in parsed) return [];
+    return hasResourceTypes && apiOnly
+      ? parsed.entries.filter((entry) => API_RESOURCE_TYPES.has(entry.resourceType))
+      : parsed.entries;
+  }, [parsed, hasResourceTypes, apiOnly]);
+
+  const chosen = visible.filter((entry) => selected.has(entry.id));
+
+  const toggle = (id: string, checked: boolean) => {
+    setSelected((current) => {
+      const next = new Set(current);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const collectionName = (parsed && !("error" in parsed) && parsed.title) || fileName.replace(/\.[^.]*$/, "") || "HAR Import";
+
+  const handleOpen = () => {
+    onOpenEntries(chosen);
+    onOpenChange(false);
+  };
+
+  const handleSave = () => {
+    onSaveEntries(collectionName, chosen);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import HAR</DialogTitle>
+          <DialogDescription>
+            Pick requests from a HAR file, such as one saved from the browser's network panel, to replay in tabs or save
+            as a collection with their recorded responses as examples.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-2">
+          <Label htmlFor="har-file">File</Label>
+          <Input id="har-file" type="file" accept=".har,.json" onChange={handleFileChange} />
+        </div>
+        {parsed && "error" in parsed && <p className="text-sm text-destructive">{parsed.error}</p>}
+        {parsed && !("error" in parsed) && (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center gap-3 text-sm">
+              {hasResourceTypes && (
+                <label className="flex items-center gap-2">
+                  <Checkbox checked={apiOnly} onCheckedChange={(checked) => setApiOnly(checked === true)} />
+                  Only fetch/XHR
+                </label>
+              )}
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setSelected(new Set(visible.map((entry) => entry.id)))}
+              >
+                Select all
+              </Button>
+              <Button type="button" variant="ghost" size="sm" onClick={() => setSelected(new Set())}>
+                Select none
+              </Button>
+              <span className="ml-auto text-muted-foreground">
+                {chosen.length} of {visible.length} selected
+              </span>
+            </div>
+            <div className="max-h-72 overflow-y-auto rounded-md border">
+              {visible.length === 0 && (
+                <p className="p-4 text-center text-sm text-muted-foreground">No requests to show.</p>
+              )}
+              {visible.map((entry) => (
+                <label
+                  key={entry.id}
+                  className="flex cursor-pointer items-center gap-2 border-b px-3 py-1.5 text-sm last:border-b-0 hover:bg-muted/50"
+                  title={entry.request.url}
+                >
+                  <Checkbox checked={selected.has(entry.id)} onCheckedChange={(checked) => toggle(entry.id, checked === true)} />
+                  <MethodBadge method={entry.request.method} />
+                  <span className="w-10 shrink-0 text-xs text-muted-foreground">{entry.example?.status ?? "—"}</span>
+                  <span className="min-w-0 flex-1 truncate">{entry.name}</span>
+                  <span className="shrink-0 text-xs text-muted-foreground">{entry.host}</span>
+                </label>
+              ))}
+            </div>
+            {parsed.warnings.length > 0 && (
+              <Alert className="border-amber-500/50 text-amber-700 dark:text-amber-400">
+                <AlertTitle>Some parts couldn't be imported</AlertTitle>
+                <AlertDescription>
+                  <ul className="list-disc pl-4 text-xs space-y-1">
+                    {parsed.warnings.map((warning) => (
+                      <li key={warning}>{warning}</li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+          </div>
+        )}
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={handleOpen}
+            disabled={chosen.length === 0 || chosen.length > MAX_TABS}
+            title={chosen.length > MAX_TABS ? `Select at most ${MAX_TABS} requests to open as tabs` : undefined}
+          >
+            Open in tabs
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={chosen.length === 0}>
+            Save as collection
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default HarImportDialog;
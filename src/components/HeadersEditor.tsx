@@ -0,0 +1,29 @@
+import React from 'react';
+import KeyValueEditor from "@/components/KeyValueEditor";
+import type { KeyValueRow } from "@/types/request";
+import { isForbiddenHeader } from "@/lib/headers";
+
+interface HeadersEditorProps {
+  headers: KeyValueRow[];
+  onChange: (headers: KeyValueRow[]) => void;
+}
+
+const HeadersEditor: React.FC<HeadersEditorProps> = ({ headers, onChange }) => {
+  return (
+    <KeyValueEditor
+      rows={headers}
+      onChange={onChange}
+      keyPlaceholder="Header"
+      valuePlaceholder="Value"
+      renderRowHint={(row) =>
+        row.enabled && isForbiddenHeader(row.key) ? (
+          <div className="text-xs text-amber-600 dark:text-amber-400 pl-6">
+            {row.key.trim()} is controlled by the browser and will not be sent.
+          </div>
+        ) : null
+      }
+    />
+  );
+};
+
+export default HeadersEditor;
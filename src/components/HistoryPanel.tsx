@@ -0,0 +1,318 @@
+import React, { useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import { format, isToday, isYesterday } from "date-fns";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from "@/components/ui/sidebar";
+import { FileDown, FileJson, FileUp, Settings2, Trash2, X } from "lucide-react";
+import MethodBadge from "@/components/MethodBadge";
+import HarImportDialog from "@/components/HarImportDialog";
+import { useCollections } from "@/contexts/CollectionsContext";
+import { useToast } from "@/hooks/use-toast";
+import type { HistoryEntry, HistoryRetention } from "@/types/history";
+import type { RequestConfig } from "@/types/request";
+import {
+  clearHistory,
+  deleteHistoryEntry,
+  getHistoryVersion,
+  getRetention,
+  listHistory,
+  setRetention,
+  statusClass,
+  subscribeHistory,
+  type StatusClass,
+} from "@/lib/history";
+import { HTTP_METHODS } from "@/lib/request";
+import { countRequests } from "@/lib/collections";
+import { downloadFile } from "@/lib/download";
+import { harToCollection, historyToHar, type HarImportEntry } from "@/lib/har";
+
+interface HistoryPanelProps {
+  onRestore: (entry: HistoryEntry) => void;
+  onOpenRequests: (requests: RequestConfig[]) => void;
+}
+
+const ALL = "all";
+const STATUS_CLASSES: StatusClass[] = ["1xx", "2xx", "3xx", "4xx", "5xx", "error"];
+
+const STATUS_COLORS: Record<StatusClass, string> = {
+  "1xx": "text-muted-foreground",
+  "2xx": "text-method-post",
+  "3xx": "text-method-put",
+  "4xx": "text-method-delete",
+  "5xx": "text-destructive",
+  error: "text-destructive",
+};
+
+const dayLabel = (timestamp: number) => {
+  if (isToday(timestamp)) return "Today";
+  if (isYesterday(timestamp)) return "Yesterday";
+  return format(timestamp, "EEE, MMM d, yyyy");
+};
+
+const RetentionSettings: React.FC = () => {
+  const [retention, setRetentionState] = useState<HistoryRetention>(getRetention);
+
+  const update = (patch: Partial<HistoryRetention>) => {
+    const next = { ...retention, ...patch };
+    setRetentionState(next);
+    if (next.maxEntries > 0 && next.maxAgeDays > 0) {
+      setRetention(next).catch((error) => console.warn("Could not prune history:", error));
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <Label htmlFor="history-max-entries">Keep at most (entries)</Label>
+        <Input
+          id="history-max-entries"
+          type="number"
+          min={1}
+          value={retention.maxEntries}
+          onChange={(e) => update({ maxEntries: Number(e.target.value) })}
+        />
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="history-max-age">Keep for (days)</Label>
+        <Input
+          id="history-max-age"
+          type="number"
+          min={1}
+          value={retention.maxAgeDays}
+          onChange={(e) => update({ maxAgeDays: Number(e.target.value) })}
+        />
+      </div>
+    </div>
+  );
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ onRestore, onOpenRequests }) => {
+  const { importCollection } = useCollections();
+  const { toast } = useToast();
+  const version = useSyncExternalStore(subscribeHistory, getHistoryVersion);
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [methodFilter, setMethodFilter] = useState<string>(ALL);
+  const [statusFilter, setStatusFilter] = useState<string>(ALL);
+  const [urlFilter, setUrlFilter] = useState<string>("");
+  const [confirmClear, setConfirmClear] = useState<boolean>(false);
+  const [harImportOpen, setHarImportOpen] = useState<boolean>(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    listHistory()
+      .then((loaded) => {
+        if (cancelled) return;
+        setEntries(loaded);
+        setLoadError(null);
+      })
+      .catch((error) => !cancelled && setLoadError((error as Error).message));
+    return () => {
+      cancelled = true;
+    };
+  }, [version]);
+
+  const filtered = useMemo(() => {
+    const query = urlFilter.trim().toLowerCase();
+    return entries.filter(
+      (entry) =>
+        (methodFilter === ALL || entry.request.method === methodFilter) &&
+        (statusFilter === ALL || statusClass(entry.response.status) === statusFilter) &&
+        (!query || entry.url.toLowerCase().includes(query))
+    );
+  }, [entries, methodFilter, statusFilter, urlFilter]);
+
+  const groups = useMemo(() => {
+    const byDay = new Map<string, HistoryEntry[]>();
+    for (const entry of filtered) {
+      const label = dayLabel(entry.timestamp);
+      byDay.set(label, [...(byDay.get(label) ?? []), entry]);
+    }
+    return [...byDay.entries()];
+  }, [filtered]);
+
+  // Exports what the filters currently show.
+  const exportHar = () => {
+    const fileName = `history-${format(Date.now(), "yyyy-MM-dd-HHmm")}.har`;
+    downloadFile(fileName, JSON.stringify(historyToHar(filtered), null, 2), "application/json");
+  };
+
+  const saveHarEntries = (name: string, harEntries: HarImportEntry[]) => {
+    const collection = harToCollection(name, harEntries);
+    importCollection(collection);
+    toast({ title: `Imported ${collection.name}`, description: `${countRequests(collection.items)} requests` });
+  };
+
+  return (
+    <>
+      <SidebarGroup>
+        <SidebarGroupLabel>History</SidebarGroupLabel>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <SidebarGroupAction className="right-[3.75rem]" title="HAR import and export">
+              <FileJson />
+              <span className="sr-only">HAR import and export</span>
+            </SidebarGroupAction>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent side="right" align="start">
+            <DropdownMenuItem onClick={() => setHarImportOpen(true)}>
+              <FileUp className="h-4 w-4 mr-2" />
+              Import HAR…
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={exportHar} disabled={filtered.length === 0}>
+              <FileDown className="h-4 w-4 mr-2" />
+              Export {filtered.length === entries.length ? "all" : filtered.length} as HAR
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <Popover>
+          <PopoverTrigger asChild>
+            <SidebarGroupAction className="right-9" title="Retention settings">
+              <Settings2 />
+              <span className="sr-only">Retention settings</span>
+            </SidebarGroupAction>
+          </PopoverTrigger>
+          <PopoverContent side="right" align="start" className="w-64">
+            <RetentionSettings />
+          </PopoverContent>
+        </Popover>
+        <SidebarGroupAction
+          onClick={() => setConfirmClear(true)}
+          disabled={entries.length === 0}
+          className="disabled:opacity-50"
+          title="Clear history"
+        >
+          <Trash2 />
+          <span className="sr-only">Clear history</span>
+        </SidebarGroupAction>
+        <SidebarGroupContent className="space-y-2">
+          <SidebarInput placeholder="Filter by URL" value={urlFilter} onChange={(e) => setUrlFilter(e.target.value)} />
+          <div className="flex gap-2">
+            <Select value={methodFilter} onValueChange={setMethodFilter}>
+              <SelectTrigger className="h-8 text-xs" aria-label="Method filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All methods</SelectItem>
+                {HTTP_METHODS.map((method) => (
+                  <SelectItem key={method} value={method}>{method}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="h-8 text-xs" aria-label="Status filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All statuses</SelectItem>
+                {STATUS_CLASSES.map((status) => (
+                  <SelectItem key={status} value={status}>{status === "error" ? "Errors" : status}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {loadError && <p className="px-2 text-xs text-destructive">{loadError}</p>}
+          {!loadError && groups.length === 0 && (
+            <p className="px-2 py-4 text-xs text-muted-foreground">
+              {entries.length === 0 ? "Requests you send will show up here." : "No requests match the filters."}
+            </p>
+          )}
+        </SidebarGroupContent>
+      </SidebarGroup>
+
+      {groups.map(([label, dayEntries]) => (
+        <SidebarGroup key={label} className="py-0">
+          <SidebarGroupLabel>{label}</SidebarGroupLabel>
+          <SidebarGroupContent>
+            <SidebarMenu>
+              {dayEntries.map((entry) => (
+                <SidebarMenuItem key={entry.id}>
+                  <SidebarMenuButton
+                    size="sm"
+                    className="h-auto py-1"
+                    onClick={() => onRestore(entry)}
+                    title={`${entry.url}\n${format(entry.timestamp, "PPpp")}`}
+                  >
+                    <MethodBadge method={entry.request.method} />
+                    <span className="min-w-0 flex-1">
+                      <span className="block truncate">{entry.url}</span>
+                      <span className="block text-[10px] text-muted-foreground">
+                        <span className={STATUS_COLORS[statusClass(entry.response.status)]}>
+                          {entry.response.status || "ERR"}
+                        </span>
+                        {" · "}
+                        {entry.response.time}ms · {format(entry.timestamp, "HH:mm:ss")}
+                      </span>
+                    </span>
+                  </SidebarMenuButton>
+                  <SidebarMenuAction
+                    showOnHover
+                    onClick={() => deleteHistoryEntry(entry.id)}
+                    aria-label="Remove from history"
+                  >
+                    <X />
+                  </SidebarMenuAction>
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroupContent>
+        </SidebarGroup>
+      ))}
+
+      <HarImportDialog
+        open={harImportOpen}
+        onOpenChange={setHarImportOpen}
+        onOpenEntries={(harEntries) => onOpenRequests(harEntries.map((entry) => entry.request))}
+        onSaveEntries={saveHarEntries}
+      />
+
+      <AlertDialog open={confirmClear} onOpenChange={setConfirmClear}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Clear history?</AlertDialogTitle>
+            <AlertDialogDescription>All {entries.length} recorded requests will be deleted.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => clearHistory()}
+            >
+              Clear
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default HistoryPanel;
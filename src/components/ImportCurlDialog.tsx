@@ -0,0 +1,94 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { parseCurl, type CurlImport } from "@/lib/curl";
+
+interface ImportCurlDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (result: CurlImport) => void;
+}
+
+const ImportCurlDialog: React.FC<ImportCurlDialogProps> = ({ open, onOpenChange, onImport }) => {
+  const [command, setCommand] = useState<string>("");
+
+  useEffect(() => {
+    if (open) setCommand("");
+  }, [open]);
+
+  const parsed = useMemo(() => {
+    if (!command.trim()) return null;
+    try {
+      return parseCurl(command);
+    } catch (e) {
+      return { error: (e as Error).message };
+    }
+  }, [command]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!parsed || "error" in parsed) return;
+    onImport(parsed);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Import cURL</DialogTitle>
+            <DialogDescription>Paste a curl command to open it as a new request.</DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={command}
+            onChange={(e) => setCommand(e.target.value)}
+            placeholder={"curl -X POST https://api.example.com/users \\\n  -H 'Content-Type: application/json' \\\n  -d '{\"name\": \"Ann\"}'"}
+            className="min-h-[160px] font-mono text-xs"
+            spellCheck={false}
+            autoFocus
+          />
+          {parsed && "error" in parsed && <p className="text-sm text-destructive">{parsed.error}</p>}
+          {parsed && !("error" in parsed) && (
+            <div className="space-y-2">
+              <p className="font-mono text-xs truncate">
+                <span className="font-semibold">{parsed.request.method}</span> {parsed.request.url}
+              </p>
+              {parsed.warnings.length > 0 && (
+                <Alert className="border-amber-500/50 text-amber-700 dark:text-amber-400">
+                  <AlertTitle>Some options couldn't be imported</AlertTitle>
+                  <AlertDescription>
+                    <ul className="list-disc pl-4 text-xs space-y-1">
+                      {parsed.warnings.map((warning) => (
+                        <li key={warning}>{warning}</li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!parsed || "error" in parsed}>
+              Import
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportCurlDialog;
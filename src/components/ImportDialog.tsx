@@ -0,0 +1,131 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { ImportResult } from "@/types/import";
+import { countRequests } from "@/lib/collections";
+import { importFromText } from "@/lib/import";
+
+interface ImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (result: ImportResult) => void;
+}
+
+const ImportDialog: React.FC<ImportDialogProps> = ({ open, onOpenChange, onImport }) => {
+  const [source, setSource] = useState<string>("");
+  // Names the collection for formats that don't carry a name of their own.
+  const [fileName, setFileName] = useState<string>("");
+
+  useEffect(() => {
+    if (open) {
+      setSource("");
+      setFileName("");
+    }
+  }, [open]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      setFileName(file.name);
+      setSource(await file.text());
+    }
+  };
+
+  const parsed = useMemo(() => {
+    if (!source.trim()) return null;
+    try {
+      return importFromText(source, fileName);
+    } catch (e) {
+      return { error: (e as Error).message };
+    }
+  }, [source, fileName]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!parsed || "error" in parsed) return;
+    onImport(parsed);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>Import</DialogTitle>
+            <DialogDescription>
+              Load an OpenAPI 3.x or Swagger 2.0 spec (JSON or YAML), a Postman v2.1 collection or environment, an
+              Insomnia v4 export, or a REST Client / JetBrains .http file.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="import-file">File</Label>
+            <Input id="import-file" type="file" accept=".json,.yaml,.yml,.http,.rest" onChange={handleFileChange} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="import-source">Or paste its contents</Label>
+            <Textarea
+              id="import-source"
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              placeholder={"openapi: 3.0.3\ninfo:\n  title: My API\npaths: …"}
+              className="min-h-[160px] font-mono text-xs"
+              spellCheck={false}
+            />
+          </div>
+          {parsed && "error" in parsed && <p className="text-sm text-destructive">{parsed.error}</p>}
+          {parsed && !("error" in parsed) && (
+            <div className="space-y-2">
+              <p className="text-sm">
+                {parsed.collection ? (
+                  <>
+                    <span className="font-semibold">{parsed.collection.name}</span>:{" "}
+                    {countRequests(parsed.collection.items)} requests, {parsed.environments.length} environments
+                  </>
+                ) : (
+                  <>
+                    Environments:{" "}
+                    <span className="font-semibold">{parsed.environments.map((env) => env.name).join(", ")}</span>
+                  </>
+                )}
+              </p>
+              {parsed.warnings.length > 0 && (
+                <Alert className="border-amber-500/50 text-amber-700 dark:text-amber-400">
+                  <AlertTitle>Some parts couldn't be imported</AlertTitle>
+                  <AlertDescription>
+                    <ul className="list-disc pl-4 text-xs space-y-1 max-h-48 overflow-y-auto">
+                      {parsed.warnings.map((warning) => (
+                        <li key={warning}>{warning}</li>
+                      ))}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!parsed || "error" in parsed}>
+              Import
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportDialog;
@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Plus, Trash2, List, AlignLeft, ArrowUp, ArrowDown } from "lucide-react";
+import type { KeyValueRow } from "@/types/request";
+import { createRow, rowsToBulkText, bulkTextToRows } from "@/lib/key-value";
+
+interface KeyValueEditorProps {
+  rows: KeyValueRow[];
+  onChange: (rows: KeyValueRow[]) => void;
+  keyPlaceholder?: string;
+  valuePlaceholder?: string;
+  reorderable?: boolean;
+  renderRowHint?: (row: KeyValueRow) => React.ReactNode;
+}
+
+const KeyValueEditor: React.FC<KeyValueEditorProps> = ({
+  rows,
+  onChange,
+  keyPlaceholder = "Key",
+  valuePlaceholder = "Value",
+  reorderable = false,
+  renderRowHint,
+}) => {
+  const [bulkMode, setBulkMode] = useState<boolean>(false);
+  const [bulkText, setBulkText] = useState<string>("");
+
+  const updateRow = (id: string, patch: Partial<KeyValueRow>) => {
+    onChange(rows.map((row) => (row.id === id ? { ...row, ...patch } : row)));
+  };
+
+  const removeRow = (id: string) => {
+    onChange(rows.filter((row) => row.id !== id));
+  };
+
+  const moveRow = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= rows.length) return;
+    const reordered = [...rows];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const addRow = () => {
+    onChange([...rows, createRow()]);
+  };
+
+  const toggleBulkMode = () => {
+    if (bulkMode) {
+      onChange(bulkTextToRows(bulkText));
+    } else {
+      setBulkText(rowsToBulkText(rows));
+    }
+    setBulkMode(!bulkMode);
+  };
+
+  const handleBulkChange = (text: string) => {
+    setBulkText(text);
+    onChange(bulkTextToRows(text));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-end">
+        <Button variant="ghost" size="sm" onClick={toggleBulkMode}>
+          {bulkMode ? <List className="h-4 w-4 mr-2" /> : <AlignLeft className="h-4 w-4 mr-2" />}
+          {bulkMode ? "Key-Value Edit" : "Bulk Edit"}
+        </Button>
+      </div>
+
+      {bulkMode ? (
+        <Textarea
+          placeholder={`${keyPlaceholder}: ${valuePlaceholder}\n//Disabled: row`}
+          value={bulkText}
+          onChange={(e) => handleBulkChange(e.target.value)}
+          className="font-mono text-sm min-h-[160px]"
+        />
+      ) : (
+        <div className="space-y-2">
+          {rows.map((row, index) => (
+            <div key={row.id} className="space-y-1">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  checked={row.enabled}
+                  onCheckedChange={(checked) => updateRow(row.id, { enabled: checked === true })}
+                  aria-label="Enabled"
+                />
+                <Input
+                  placeholder={keyPlaceholder}
+                  value={row.key}
+                  onChange={(e) => updateRow(row.id, { key: e.target.value })}
+                  className={`font-mono text-sm ${row.enabled ? '' : 'opacity-50'}`}
+                />
+                <Input
+                  placeholder={valuePlaceholder}
+                  value={row.value}
+                  onChange={(e) => updateRow(row.id, { value: e.target.value })}
+                  className={`font-mono text-sm ${row.enabled ? '' : 'opacity-50'}`}
+                />
+                {reorderable && (
+                  <>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => moveRow(index, -1)}
+                      disabled={index === 0}
+                      aria-label="Move up"
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => moveRow(index, 1)}
+                      disabled={index === rows.length - 1}
+                      aria-label="Move down"
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => removeRow(row.id)}
+                  aria-label="Remove row"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              {renderRowHint && renderRowHint(row)}
+            </div>
+          ))}
+          <Button variant="outline" size="sm" onClick={addRow}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default KeyValueEditor;
@@ -0,0 +1,314 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import type { RequestConfig } from "@/types/request";
+import {
+  latencyHistogram,
+  loadTimeSeries,
+  MAX_CONCURRENCY,
+  MAX_DURATION_SECONDS,
+  MAX_REQUESTS,
+  runLoadTest,
+  summarizeLoad,
+  type LoadSample,
+  type LoadTestLimit,
+} from "@/lib/load-test";
+import type { VariableMap } from "@/lib/variables";
+
+interface LoadTestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  request: RequestConfig;
+  variables: VariableMap;
+}
+
+// Charts and numbers refresh at this pace while the test runs.
+const REFRESH_INTERVAL = 500;
+
+const timeSeriesConfig = {
+  requests: { label: "Requests", color: "#61affe" },
+  p50: { label: "p50", color: "#49cc90" },
+  p90: { label: "p90", color: "#fca130" },
+  p99: { label: "p99", color: "#f93e3e" },
+} satisfies ChartConfig;
+
+const histogramConfig = {
+  count: { label: "Requests", color: "#61affe" },
+} satisfies ChartConfig;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, Math.round(value) || min));
+
+const Stat: React.FC<{ label: string; value: React.ReactNode; className?: string }> = ({ label, value, className }) => (
+  <div>
+    <div className="text-xs text-muted-foreground">{label}</div>
+    <div className={`text-lg font-medium ${className ?? ""}`}>{value}</div>
+  </div>
+);
+
+const LoadTestDialog: React.FC<LoadTestDialogProps> = ({ open, onOpenChange, request, variables }) => {
+  const [concurrency, setConcurrency] = useState<number>(5);
+  const [limitKind, setLimitKind] = useState<LoadTestLimit["kind"]>("count");
+  const [count, setCount] = useState<number>(100);
+  const [seconds, setSeconds] = useState<number>(10);
+  const [targetRps, setTargetRps] = useState<number>(0);
+  const [running, setRunning] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  // Samples accumulate in a ref while the test runs; each refresh copies them
+  // into the snapshot the views are derived from.
+  const [snapshot, setSnapshot] = useState<{ samples: LoadSample[]; elapsed: number }>({ samples: [], elapsed: 0 });
+  const samplesRef = useRef<LoadSample[]>([]);
+  const startRef = useRef<number>(0);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // Closing the dialog stops the test.
+  useEffect(() => {
+    if (open) return;
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  }, [open]);
+
+  const takeSnapshot = useCallback(
+    () => setSnapshot({ samples: [...samplesRef.current], elapsed: performance.now() - startRef.current }),
+    []
+  );
+
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(takeSnapshot, REFRESH_INTERVAL);
+    return () => clearInterval(timer);
+  }, [running, takeSnapshot]);
+
+  const view = useMemo(() => {
+    const { samples, elapsed } = snapshot;
+    return {
+      elapsed,
+      stats: summarizeLoad(samples, elapsed),
+      series: loadTimeSeries(samples),
+      histogram: latencyHistogram(samples).map((bucket) => ({ ...bucket, label: `${bucket.from}–${bucket.to}` })),
+      lastError: [...samples].reverse().find((sample) => sample.error)?.error,
+    };
+  }, [snapshot]);
+
+  const limit: LoadTestLimit =
+    limitKind === "count"
+      ? { kind: "count", count: clamp(count, 1, MAX_REQUESTS) }
+      : { kind: "duration", seconds: clamp(seconds, 1, MAX_DURATION_SECONDS) };
+  const progress =
+    limit.kind === "count" ? (view.stats.total / limit.count) * 100 : (view.elapsed / (limit.seconds * 1000)) * 100;
+
+  const start = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    samplesRef.current = [];
+    startRef.current = performance.now();
+    setSnapshot({ samples: [], elapsed: 0 });
+    setError(null);
+    setRunning(true);
+    try {
+      await runLoadTest(
+        request,
+        variables,
+        { concurrency: clamp(concurrency, 1, MAX_CONCURRENCY), limit, targetRps: Math.max(0, targetRps || 0) },
+        (sample) => samplesRef.current.push(sample),
+        controller.signal
+      );
+    } catch (e) {
+      setError((e as Error).message);
+    }
+    if (controllerRef.current === controller) controllerRef.current = null;
+    takeSnapshot();
+    setRunning(false);
+  };
+
+  const { stats, series, histogram, lastError } = view;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Load Test</DialogTitle>
+          <DialogDescription>
+            Sends the current request repeatedly from the browser, without its scripts and assertions. Browsers open
+            at most six connections to one host over HTTP/1.1, so higher concurrency queues there rather than at the
+            server.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-4">
+          <div className="space-y-1">
+            <Label htmlFor="load-concurrency">Concurrency</Label>
+            <Input
+              id="load-concurrency"
+              type="number"
+              min={1}
+              max={MAX_CONCURRENCY}
+              value={concurrency}
+              onChange={(e) => setConcurrency(Number(e.target.value))}
+              disabled={running}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label>Stop after</Label>
+            <Select
+              value={limitKind}
+              onValueChange={(value) => setLimitKind(value as LoadTestLimit["kind"])}
+              disabled={running}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="count">Request count</SelectItem>
+                <SelectItem value="duration">Duration (s)</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="load-limit">{limitKind === "count" ? "Requests" : "Seconds"}</Label>
+            <Input
+              id="load-limit"
+              type="number"
+              min={1}
+              max={limitKind === "count" ? MAX_REQUESTS : MAX_DURATION_SECONDS}
+              value={limitKind === "count" ? count : seconds}
+              onChange={(e) => (limitKind === "count" ? setCount : setSeconds)(Number(e.target.value))}
+              disabled={running}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="load-rps">Target RPS (0 = unlimited)</Label>
+            <Input
+              id="load-rps"
+              type="number"
+              min={0}
+              value={targetRps}
+              onChange={(e) => setTargetRps(Number(e.target.value))}
+              disabled={running}
+            />
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        {(running || stats.total > 0) && (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                {running && <Loader2 className="h-3 w-3 animate-spin" />}
+                <span className="flex-1">
+                  {stats.total} requests in {(view.elapsed / 1000).toFixed(1)}s
+                </span>
+              </div>
+              <Progress value={Math.min(100, progress)} className="h-2" />
+            </div>
+
+            <div className="grid grid-cols-3 gap-3 rounded-md border p-3 sm:grid-cols-6">
+              <Stat label="Throughput" value={`${stats.throughput.toFixed(1)}/s`} />
+              <Stat
+                label="Error rate"
+                value={`${(stats.errorRate * 100).toFixed(1)}%`}
+                className={stats.errors > 0 ? "text-destructive" : undefined}
+              />
+              <Stat label="p50" value={`${stats.p50}ms`} />
+              <Stat label="p90" value={`${stats.p90}ms`} />
+              <Stat label="p99" value={`${stats.p99}ms`} />
+              <Stat label="Min / mean / max" value={`${stats.min} / ${stats.mean} / ${stats.max}ms`} className="text-sm" />
+            </div>
+
+            <div className="flex flex-wrap gap-2 text-xs">
+              {stats.statusCounts.map(([status, statusCount]) => (
+                <span
+                  key={status}
+                  className={`rounded-md border px-2 py-0.5 ${
+                    status === "ERR" || Number(status) >= 400 ? "border-destructive/50 text-destructive" : ""
+                  }`}
+                >
+                  {status} × {statusCount} ({((statusCount / stats.total) * 100).toFixed(1)}%)
+                </span>
+              ))}
+              {lastError && <span className="min-w-0 truncate text-destructive">Last error: {lastError}</span>}
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-1">
+                <h4 className="text-xs font-medium text-muted-foreground">Requests and latency per second</h4>
+                <ChartContainer config={timeSeriesConfig} className="aspect-auto h-56 w-full">
+                  <ComposedChart data={series} margin={{ left: 0, right: 0 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="second" tickLine={false} axisLine={false} tickFormatter={(value) => `${value}s`} />
+                    <YAxis yAxisId="ms" tickLine={false} axisLine={false} width={40} unit="ms" />
+                    <YAxis yAxisId="requests" orientation="right" tickLine={false} axisLine={false} width={30} />
+                    <ChartTooltip
+                      content={<ChartTooltipContent labelFormatter={(_, [item]) => `${item?.payload.second}s`} />}
+                    />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar
+                      yAxisId="requests"
+                      dataKey="requests"
+                      fill="var(--color-requests)"
+                      fillOpacity={0.4}
+                      isAnimationActive={false}
+                    />
+                    <Line yAxisId="ms" dataKey="p50" stroke="var(--color-p50)" dot={false} isAnimationActive={false} />
+                    <Line yAxisId="ms" dataKey="p90" stroke="var(--color-p90)" dot={false} isAnimationActive={false} />
+                    <Line yAxisId="ms" dataKey="p99" stroke="var(--color-p99)" dot={false} isAnimationActive={false} />
+                  </ComposedChart>
+                </ChartContainer>
+              </div>
+              <div className="space-y-1">
+                <h4 className="text-xs font-medium text-muted-foreground">Latency distribution (ms)</h4>
+                <ChartContainer config={histogramConfig} className="aspect-auto h-56 w-full">
+                  <BarChart data={histogram} margin={{ left: 0, right: 0 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} width={30} allowDecimals={false} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={(label) => `${label}ms`} />} />
+                    <Bar dataKey="count" fill="var(--color-count)" radius={2} isAnimationActive={false} />
+                  </BarChart>
+                </ChartContainer>
+              </div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          {running ? (
+            <Button type="button" variant="destructive" onClick={() => controllerRef.current?.abort()}>
+              Stop
+            </Button>
+          ) : (
+            <Button type="button" onClick={start} disabled={!request.url}>
+              {stats.total > 0 ? "Run again" : "Start"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LoadTestDialog;
@@ -0,0 +1,32 @@
+import React from 'react';
+import { cn } from "@/lib/utils";
+import type { HttpMethod } from "@/types/request";
+
+// Spelled out so Tailwind picks the classes up.
+const METHOD_COLORS: Record<HttpMethod, string> = {
+  GET: "text-method-get",
+  POST: "text-method-post",
+  PUT: "text-method-put",
+  DELETE: "text-method-delete",
+  PATCH: "text-method-patch",
+  OPTIONS: "text-method-options",
+  HEAD: "text-method-head",
+};
+
+const SHORT_NAMES: Partial<Record<HttpMethod, string>> = {
+  DELETE: "DEL",
+  OPTIONS: "OPT",
+};
+
+interface MethodBadgeProps {
+  method: HttpMethod;
+  className?: string;
+}
+
+const MethodBadge: React.FC<MethodBadgeProps> = ({ method, className }) => (
+  <span className={cn("shrink-0 w-9 font-mono text-[10px] font-semibold", METHOD_COLORS[method], className)}>
+    {SHORT_NAMES[method] ?? method}
+  </span>
+);
+
+export default MethodBadge;
@@ -0,0 +1,84 @@
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import type { MultipartRow } from "@/types/request";
+import { createMultipartRow } from "@/lib/body";
+
+interface MultipartEditorProps {
+  rows: MultipartRow[];
+  onChange: (rows: MultipartRow[]) => void;
+}
+
+const MultipartEditor: React.FC<MultipartEditorProps> = ({ rows, onChange }) => {
+  const updateRow = (id: string, patch: Partial<MultipartRow>) => {
+    onChange(rows.map((row) => (row.id === id ? { ...row, ...patch } : row)));
+  };
+
+  const handleFileChange = (id: string, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files && e.target.files.length > 0 ? e.target.files[0] : null;
+    updateRow(id, { file, value: file ? file.name : "" });
+  };
+
+  return (
+    <div className="space-y-2">
+      {rows.map((row) => (
+        <div key={row.id} className="flex items-center gap-2">
+          <Checkbox
+            checked={row.enabled}
+            onCheckedChange={(checked) => updateRow(row.id, { enabled: checked === true })}
+            aria-label="Enabled"
+          />
+          <Input
+            placeholder="Field"
+            value={row.key}
+            onChange={(e) => updateRow(row.id, { key: e.target.value })}
+            className={`font-mono text-sm ${row.enabled ? '' : 'opacity-50'}`}
+          />
+          <Select
+            value={row.type}
+            onValueChange={(value) => updateRow(row.id, { type: value as MultipartRow["type"], file: null, value: "" })}
+          >
+            <SelectTrigger className="w-[90px] shrink-0">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="text">Text</SelectItem>
+              <SelectItem value="file">File</SelectItem>
+            </SelectContent>
+          </Select>
+          {row.type === "file" ? (
+            <Input
+              type="file"
+              onChange={(e) => handleFileChange(row.id, e)}
+              className={`text-sm ${row.enabled ? '' : 'opacity-50'}`}
+            />
+          ) : (
+            <Input
+              placeholder="Value"
+              value={row.value}
+              onChange={(e) => updateRow(row.id, { value: e.target.value })}
+              className={`font-mono text-sm ${row.enabled ? '' : 'opacity-50'}`}
+            />
+          )}
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => onChange(rows.filter((r) => r.id !== row.id))}
+            aria-label="Remove field"
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={() => onChange([...rows, createMultipartRow()])}>
+        <Plus className="h-4 w-4 mr-2" />
+        Add
+      </Button>
+    </div>
+  );
+};
+
+export default MultipartEditor;
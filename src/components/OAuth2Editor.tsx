@@ -0,0 +1,172 @@
+import React, { useState } from 'react';
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { KeyRound, RefreshCw, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { OAuth2ClientAuth, OAuth2Config, OAuth2GrantType } from "@/types/request";
+import {
+  clearCachedToken,
+  defaultRedirectUri,
+  fetchNewToken,
+  getCachedToken,
+  isTokenExpired,
+  refreshAccessToken,
+} from "@/lib/oauth2";
+
+interface OAuth2EditorProps {
+  config: OAuth2Config;
+  onChange: (patch: Partial<OAuth2Config>) => void;
+}
+
+const OAuth2Editor: React.FC<OAuth2EditorProps> = ({ config, onChange }) => {
+  const [fetching, setFetching] = useState<boolean>(false);
+  const { toast } = useToast();
+  const token = getCachedToken(config);
+
+  const runTokenAction = async (action: () => Promise<unknown>, success: string) => {
+    setFetching(true);
+    try {
+      await action();
+      toast({ title: success });
+    } catch (error) {
+      toast({
+        title: "OAuth 2.0 error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setFetching(false);
+    }
+  };
+
+  const field = (id: keyof OAuth2Config, label: string, props: React.InputHTMLAttributes<HTMLInputElement> = {}) => (
+    <div className="space-y-2">
+      <Label htmlFor={`oauth2-${id}`}>{label}</Label>
+      <Input
+        id={`oauth2-${id}`}
+        value={config[id] as string}
+        onChange={(e) => onChange({ [id]: e.target.value })}
+        {...props}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-3 md:grid-cols-2">
+        <div className="space-y-2">
+          <Label>Grant Type</Label>
+          <Select
+            value={config.grantType}
+            onValueChange={(value) => onChange({ grantType: value as OAuth2GrantType })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="client_credentials">Client Credentials</SelectItem>
+              <SelectItem value="password">Password Credentials</SelectItem>
+              <SelectItem value="authorization_code">Authorization Code</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-2">
+          <Label>Client Authentication</Label>
+          <Select
+            value={config.clientAuth}
+            onValueChange={(value) => onChange({ clientAuth: value as OAuth2ClientAuth })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="header">Basic Auth header</SelectItem>
+              <SelectItem value="body">Client credentials in body</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-2">
+        {config.grantType === "authorization_code" &&
+          field("authUrl", "Authorization URL", { placeholder: "https://auth.example.com/authorize" })}
+        {field("tokenUrl", "Access Token URL", { placeholder: "https://auth.example.com/token" })}
+        {field("clientId", "Client ID")}
+        {field("clientSecret", "Client Secret", { type: "password" })}
+        {field("scope", "Scope", { placeholder: "read write" })}
+        {field("headerPrefix", "Header Prefix")}
+        {config.grantType === "password" && field("username", "Username")}
+        {config.grantType === "password" && field("password", "Password", { type: "password" })}
+        {config.grantType === "authorization_code" &&
+          field("redirectUri", "Callback URL", { placeholder: defaultRedirectUri() })}
+      </div>
+
+      {config.grantType === "authorization_code" && (
+        <div className="flex items-center gap-2">
+          <Switch
+            id="oauth2-pkce"
+            checked={config.usePkce}
+            onCheckedChange={(checked) => onChange({ usePkce: checked })}
+          />
+          <Label htmlFor="oauth2-pkce">Use PKCE (S256)</Label>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          size="sm"
+          disabled={fetching}
+          onClick={() => runTokenAction(() => fetchNewToken(config), "Access token acquired")}
+        >
+          <KeyRound className="h-4 w-4 mr-2" />
+          {fetching ? "Requesting..." : "Get New Access Token"}
+        </Button>
+        {token?.refreshToken && (
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={fetching}
+            onClick={() => runTokenAction(() => refreshAccessToken(config, token), "Access token refreshed")}
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+        )}
+        {token && (
+          <Button size="sm" variant="ghost" onClick={() => clearCachedToken(config)}>
+            <Trash2 className="h-4 w-4 mr-2" />
+            Clear Token
+          </Button>
+        )}
+      </div>
+
+      {token ? (
+        <div className="space-y-1 rounded-md border p-2 text-xs">
+          <div className="font-mono break-all">{token.accessToken}</div>
+          <div className="text-muted-foreground">
+            {token.tokenType}
+            {token.scope ? ` · scope: ${token.scope}` : ""}
+            {token.expiresAt === undefined
+              ? " · no expiry"
+              : isTokenExpired(token)
+                ? ` · expired ${formatDistanceToNow(token.expiresAt, { addSuffix: true })}`
+                : ` · expires ${formatDistanceToNow(token.expiresAt, { addSuffix: true })}`}
+            {token.refreshToken ? " · refresh token available" : ""}
+          </div>
+        </div>
+      ) : (
+        <div className="text-muted-foreground text-sm">
+          {config.grantType === "authorization_code"
+            ? "No token yet. Authorize with \"Get New Access Token\" before sending."
+            : "No token yet. One will be requested automatically when you send."}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OAuth2Editor;
@@ -1,31 +1,205 @@
-
-import React from 'react';
-import { Textarea } from "@/components/ui/textarea";
+import React, { useRef } from 'react';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { FileUp, Braces, Minimize2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useEnvironments } from "@/contexts/EnvironmentsContext";
+import KeyValueEditor from "@/components/KeyValueEditor";
+import MultipartEditor from "@/components/MultipartEditor";
+import GraphQLEditor from "@/components/GraphQLEditor";
+import CodeEditor from "@/components/CodeEditor";
+import type { IntrospectionSchema } from "@/lib/graphql";
+import type { BodyMode, RequestBodyConfig } from "@/types/request";
+import { BODY_MODE_LABELS, defaultContentType, isRawMode, methodAllowsBody, sendsGraphQLInUrl } from "@/lib/body";
+import { formatJson, formatXml, minifyJson, minifyXml, parseJsonError, parseXmlError } from "@/lib/format";
+import { parseErrorLinter } from "@/lib/editor";
 
 interface RequestBodyProps {
   method: string;
-  value: string;
-  onChange: (value: string) => void;
+  value: RequestBodyConfig;
+  onChange: (value: RequestBodyConfig) => void;
+  endpoint: string;
+  onIntrospect: () => Promise<IntrospectionSchema>;
 }
 
-const RequestBody: React.FC<RequestBodyProps> = ({ method, value, onChange }) => {
-  const bodyNotSupported = method === "GET" || method === "HEAD";
+const RAW_PLACEHOLDERS: Partial<Record<BodyMode, string>> = {
+  json: "Enter JSON request body",
+  text: "Enter plain text request body",
+  xml: "Enter XML request body",
+};
+
+const RAW_EXTENSIONS = {
+  json: [parseErrorLinter(parseJsonError)],
+  xml: [parseErrorLinter(parseXmlError)],
+  text: [],
+};
+
+const FORMATTERS = {
+  json: { format: formatJson, minify: minifyJson },
+  xml: { format: formatXml, minify: minifyXml },
+};
+
+const RequestBody: React.FC<RequestBodyProps> = ({ method, value, onChange, endpoint, onIntrospect }) => {
+  const binaryInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const { variables } = useEnvironments();
+  const graphqlInUrl = sendsGraphQLInUrl(method, value);
+  const bodyNotSupported = !methodAllowsBody(method) && !graphqlInUrl;
 
   if (bodyNotSupported) {
     return (
       <div className="text-muted-foreground text-sm p-4 bg-muted rounded-md">
         Request body is not applicable for {method} requests.
+        {method === "GET" && (
+          <Button
+            variant="link"
+            size="sm"
+            className="h-auto p-0 pl-1"
+            onClick={() => onChange({ ...value, mode: "graphql" })}
+          >
+            Send a GraphQL query in the URL instead
+          </Button>
+        )}
       </div>
     );
   }
 
+  // GET can only carry a GraphQL query, in its URL.
+  const modes = graphqlInUrl ? (["none", "graphql"] as BodyMode[]) : (Object.keys(BODY_MODE_LABELS) as BodyMode[]);
+
+  const update = (patch: Partial<RequestBodyConfig>) => onChange({ ...value, ...patch });
+
+  const handleBinaryChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      update({ binary: e.target.files[0] });
+    }
+  };
+
+  const reformat = (action: "format" | "minify") => {
+    const formatter = FORMATTERS[value.mode as keyof typeof FORMATTERS];
+    if (!formatter) return;
+    try {
+      update({ raw: formatter[action](value.raw) });
+    } catch (error) {
+      toast({
+        title: `Cannot ${action} ${value.mode.toUpperCase()}`,
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const contentType = graphqlInUrl
+    ? undefined
+    : value.mode === "multipart"
+      ? "multipart/form-data; boundary=… (set by the browser)"
+      : defaultContentType(value);
+
   return (
-    <Textarea
-      placeholder="Enter JSON request body"
-      value={value}
-      onChange={(e) => onChange(e.target.value)}
-      className="font-mono text-sm min-h-[200px]"
-    />
+    <div className="space-y-3">
+      <RadioGroup
+        value={value.mode}
+        onValueChange={(mode) => update({ mode: mode as BodyMode })}
+        className="flex flex-wrap gap-x-4 gap-y-2"
+      >
+        {modes.map((mode) => (
+          <div key={mode} className="flex items-center gap-1.5">
+            <RadioGroupItem value={mode} id={`body-mode-${mode}`} />
+            <Label htmlFor={`body-mode-${mode}`} className="font-normal">
+              {BODY_MODE_LABELS[mode]}
+            </Label>
+          </div>
+        ))}
+      </RadioGroup>
+
+      {value.mode === "none" && (
+        <div className="text-muted-foreground text-sm p-4 bg-muted rounded-md">
+          This request does not have a body.
+        </div>
+      )}
+
+      {isRawMode(value.mode) && (
+        <div className="space-y-2">
+          {value.mode in FORMATTERS && (
+            <div className="flex justify-end gap-1">
+              <Button variant="ghost" size="sm" onClick={() => reformat("format")} disabled={!value.raw.trim()}>
+                <Braces className="h-4 w-4 mr-2" />
+                Format
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => reformat("minify")} disabled={!value.raw.trim()}>
+                <Minimize2 className="h-4 w-4 mr-2" />
+                Minify
+              </Button>
+            </div>
+          )}
+          <CodeEditor
+            value={value.raw}
+            onChange={(raw) => update({ raw })}
+            language={value.mode as keyof typeof RAW_EXTENSIONS}
+            extensions={RAW_EXTENSIONS[value.mode as keyof typeof RAW_EXTENSIONS]}
+            placeholder={RAW_PLACEHOLDERS[value.mode]}
+            variables={variables}
+          />
+        </div>
+      )}
+
+      {value.mode === "urlencoded" && (
+        <KeyValueEditor
+          rows={value.urlencoded}
+          onChange={(urlencoded) => update({ urlencoded })}
+        />
+      )}
+
+      {value.mode === "multipart" && (
+        <MultipartEditor
+          rows={value.multipart}
+          onChange={(multipart) => update({ multipart })}
+        />
+      )}
+
+      {value.mode === "binary" && (
+        <div className="flex items-center gap-3">
+          <Button variant="outline" size="sm" onClick={() => binaryInputRef.current?.click()}>
+            <FileUp className="h-4 w-4 mr-2" />
+            {value.binary ? value.binary.name : "Select File"}
+          </Button>
+          {value.binary && (
+            <span className="text-xs text-muted-foreground">
+              {Math.round(value.binary.size / 1024)} KB
+            </span>
+          )}
+          <input
+            type="file"
+            ref={binaryInputRef}
+            className="hidden"
+            onChange={handleBinaryChange}
+          />
+        </div>
+      )}
+
+      {value.mode === "graphql" && (
+        <GraphQLEditor
+          value={value.graphql}
+          onChange={(graphql) => update({ graphql })}
+          endpoint={endpoint}
+          onIntrospect={onIntrospect}
+        />
+      )}
+
+      {graphqlInUrl && (
+        <div className="text-xs text-muted-foreground">
+          GET requests have no body, so the query, variables and operation name are sent as URL parameters.
+        </div>
+      )}
+
+      {contentType && (
+        <div className="text-xs text-muted-foreground">
+          Content-Type: <span className="font-mono">{contentType}</span>
+          {value.mode !== "multipart" && " — unless set in Headers"}
+        </div>
+      )}
+    </div>
   );
 };
 
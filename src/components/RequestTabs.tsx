@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Loader2, Plus, X } from "lucide-react";
+import MethodBadge from "@/components/MethodBadge";
+import { useTabs } from "@/contexts/TabsContext";
+import { useCollections } from "@/contexts/CollectionsContext";
+import { isTabDirty, tabTitle } from "@/lib/tabs";
+import { cn } from "@/lib/utils";
+import type { RequestTab } from "@/types/tab";
+
+const RequestTabs: React.FC = () => {
+  const { tabs, activeTab, activateTab, openTab, closeTab, closeOtherTabs, duplicateTab, moveTab } = useTabs();
+  const { collections } = useCollections();
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [pendingClose, setPendingClose] = useState<RequestTab | null>(null);
+
+  const requestClose = (tab: RequestTab) => {
+    if (isTabDirty(tab)) {
+      setPendingClose(tab);
+    } else {
+      closeTab(tab.id);
+    }
+  };
+
+  const handleDrop = (index: number) => {
+    if (draggedId) moveTab(draggedId, index);
+    setDraggedId(null);
+  };
+
+  return (
+    <div className="flex items-end gap-1 border-b overflow-x-auto" role="tablist" aria-label="Open requests">
+      {tabs.map((tab, index) => {
+        const active = tab.id === activeTab.id;
+        const dirty = isTabDirty(tab);
+        const title = tabTitle(tab, collections);
+        return (
+          <ContextMenu key={tab.id}>
+            <ContextMenuTrigger asChild>
+              <div
+                role="tab"
+                aria-selected={active}
+                tabIndex={0}
+                draggable
+                onDragStart={() => setDraggedId(tab.id)}
+                onDragEnd={() => setDraggedId(null)}
+                onDragOver={(e) => draggedId && e.preventDefault()}
+                onDrop={() => handleDrop(index)}
+                onClick={() => activateTab(tab.id)}
+                onKeyDown={(e) => (e.key === "Enter" || e.key === " ") && activateTab(tab.id)}
+                onAuxClick={(e) => e.button === 1 && requestClose(tab)}
+                title={tab.request.url || title}
+                className={cn(
+                  "group flex shrink-0 max-w-[220px] cursor-pointer items-center gap-1 rounded-t-md border border-b-0 px-2 py-1.5 text-sm",
+                  active ? "bg-background" : "bg-muted/50 text-muted-foreground hover:bg-muted",
+                  draggedId === tab.id && "opacity-50"
+                )}
+              >
+                <MethodBadge method={tab.request.method} />
+                <span className="truncate">{title}</span>
+                <span className="relative flex h-5 w-5 shrink-0 items-center justify-center">
+                  {tab.loading ? (
+                    <Loader2 className="h-3.5 w-3.5 animate-spin" aria-label="Sending" />
+                  ) : (
+                    <>
+                      {dirty && (
+                        <span
+                          className="h-2 w-2 rounded-full bg-primary group-hover:hidden"
+                          aria-label="Unsaved changes"
+                        />
+                      )}
+                      <button
+                        type="button"
+                        className={cn(
+                          "absolute inset-0 flex items-center justify-center rounded hover:bg-accent",
+                          dirty || !active ? "hidden group-hover:flex" : "flex"
+                        )}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          requestClose(tab);
+                        }}
+                        aria-label={`Close ${title}`}
+                      >
+                        <X className="h-3.5 w-3.5" />
+                      </button>
+                    </>
+                  )}
+                </span>
+              </div>
+            </ContextMenuTrigger>
+            <ContextMenuContent>
+              <ContextMenuItem onSelect={() => duplicateTab(tab.id)}>Duplicate</ContextMenuItem>
+              <ContextMenuItem disabled={index === 0} onSelect={() => moveTab(tab.id, index - 1)}>
+                Move Left
+              </ContextMenuItem>
+              <ContextMenuItem disabled={index === tabs.length - 1} onSelect={() => moveTab(tab.id, index + 1)}>
+                Move Right
+              </ContextMenuItem>
+              <ContextMenuSeparator />
+              <ContextMenuItem onSelect={() => requestClose(tab)}>Close</ContextMenuItem>
+              <ContextMenuItem disabled={tabs.length === 1} onSelect={() => closeOtherTabs(tab.id)}>
+                Close Others
+              </ContextMenuItem>
+            </ContextMenuContent>
+          </ContextMenu>
+        );
+      })}
+      <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0 mb-0.5" onClick={() => openTab()} title="New tab">
+        <Plus className="h-4 w-4" />
+        <span className="sr-only">New tab</span>
+      </Button>
+
+      <AlertDialog open={pendingClose !== null} onOpenChange={(open) => !open && setPendingClose(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Discard unsaved changes?</AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingClose && `"${tabTitle(pendingClose, collections)}" has changes that haven't been saved.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => pendingClose && closeTab(pendingClose.id)}
+            >
+              Close Tab
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default RequestTabs;
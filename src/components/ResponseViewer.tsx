@@ -3,23 +3,12 @@ import React, { useState } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
-import { AlertCircle } from "lucide-react";
+import { AlertCircle, CheckCircle2, XCircle } from "lucide-react";
+import { getGraphQLErrors } from "@/lib/graphql";
+import type { ApiResponse } from "@/types/response";
 
 interface ResponseViewerProps {
-  response: {
-    status: number;
-    statusText: string;
-    headers: Record<string, string>;
-    data: any;
-    time: number;
-    error?: {
-      message: string;
-      stack?: string;
-      code?: string;
-      type?: string;
-      details?: any;
-    };
-  } | null;
+  response: ApiResponse | null;
 }
 
 const ResponseViewer: React.FC<ResponseViewerProps> = ({ response }) => {
@@ -61,6 +50,13 @@ const ResponseViewer: React.FC<ResponseViewerProps> = ({ response }) => {
   };
 
   const renderedBody = formatJson(response.data);
+  const testGroups = [
+    { title: "Assertions", results: response.assertions ?? [] },
+    { title: "Test Script", results: response.tests ?? [] },
+  ].filter((group) => group.results.length > 0);
+  const testResults = testGroups.flatMap((group) => group.results);
+  const passedTests = testResults.filter((test) => test.passed).length;
+  const graphQLErrors = getGraphQLErrors(response.data);
   const isJsonResponse = typeof renderedBody === 'string' && 
     (renderedBody.startsWith('{') || renderedBody.startsWith('['));
     
@@ -108,13 +104,50 @@ const ResponseViewer: React.FC<ResponseViewerProps> = ({ response }) => {
         <span className="text-xs text-muted-foreground">
           {response.time}ms
         </span>
+        {response.size !== undefined && (
+          <span className="text-xs text-muted-foreground">
+            {response.size < 1024 ? `${response.size} B` : `${(response.size / 1024).toFixed(1)} KB`}
+          </span>
+        )}
+        {graphQLErrors.length > 0 && (
+          <Badge variant="outline" className="border-destructive text-destructive">
+            {graphQLErrors.length} GraphQL {graphQLErrors.length === 1 ? "error" : "errors"}
+          </Badge>
+        )}
       </div>
 
+      {graphQLErrors.length > 0 && (
+        <div className="mb-3 rounded-md border border-destructive/50 bg-destructive/5 p-3 space-y-2 max-h-[160px] overflow-auto">
+          {graphQLErrors.map((error, index) => (
+            <div key={index} className="text-xs">
+              <div className="font-medium text-destructive">{error.message}</div>
+              <div className="font-mono text-muted-foreground">
+                {error.path && `path: ${error.path.join(".")}`}
+                {error.path && error.locations && " · "}
+                {error.locations && `at ${error.locations.map((loc) => `${loc.line}:${loc.column}`).join(", ")}`}
+                {typeof error.extensions?.code === "string" && ` · ${error.extensions.code}`}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
       <Tabs value={activeTab} onValueChange={setActiveTab} className="flex-1 flex flex-col">
         <TabsList>
           <TabsTrigger value="body">Body</TabsTrigger>
           <TabsTrigger value="headers">Headers</TabsTrigger>
+          {testResults.length > 0 && (
+            <TabsTrigger
+              value="tests"
+              className={passedTests < testResults.length ? "text-destructive" : "text-method-post"}
+            >
+              Tests ({passedTests}/{testResults.length})
+            </TabsTrigger>
+          )}
           {response.error && <TabsTrigger value="error">Error</TabsTrigger>}
+          {response.logs && response.logs.length > 0 && (
+            <TabsTrigger value="console">Console ({response.logs.length})</TabsTrigger>
+          )}
         </TabsList>
         
         <TabsContent value="body" className="flex-1 mt-2">
@@ -138,6 +171,37 @@ const ResponseViewer: React.FC<ResponseViewerProps> = ({ response }) => {
           </ScrollArea>
         </TabsContent>
 
+        {testResults.length > 0 && (
+          <TabsContent value="tests" className="flex-1 mt-2">
+            <ScrollArea className="h-[350px] w-full rounded-md border p-2">
+              <div className="space-y-4">
+                {testGroups.map((group) => (
+                  <div key={group.title} className="space-y-2">
+                    {testGroups.length > 1 && (
+                      <h4 className="text-xs font-medium text-muted-foreground">{group.title}</h4>
+                    )}
+                    {group.results.map((test, index) => (
+                      <div key={index} className="flex items-start gap-2 text-xs">
+                        {test.passed ? (
+                          <CheckCircle2 className="h-4 w-4 shrink-0 text-method-post" />
+                        ) : (
+                          <XCircle className="h-4 w-4 shrink-0 text-destructive" />
+                        )}
+                        <div className="min-w-0">
+                          <div className="font-medium break-words">{test.name}</div>
+                          {test.message && (
+                            <div className="font-mono text-destructive whitespace-pre-wrap break-words">{test.message}</div>
+                          )}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </TabsContent>
+        )}
+
         {response.error && (
           <TabsContent value="error" className="flex-1 mt-2">
             <ScrollArea className="h-[350px] w-full rounded-md border p-2">
@@ -180,6 +244,20 @@ const ResponseViewer: React.FC<ResponseViewerProps> = ({ response }) => {
             </ScrollArea>
           </TabsContent>
         )}
+
+        {response.logs && response.logs.length > 0 && (
+          <TabsContent value="console" className="flex-1 mt-2">
+            <ScrollArea className="h-[350px] w-full rounded-md border p-2">
+              <div className="space-y-1 font-mono text-xs">
+                {response.logs.map((line, index) => (
+                  <div key={index} className="whitespace-pre-wrap border-b border-border/50 pb-1 last:border-0">
+                    {line}
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
@@ -0,0 +1,316 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { CheckCircle2, FileDown, Loader2, XCircle } from "lucide-react";
+import MethodBadge from "@/components/MethodBadge";
+import { useEnvironments } from "@/contexts/EnvironmentsContext";
+import type { Collection, CollectionFolder } from "@/types/collection";
+import { downloadFile, toFileName } from "@/lib/download";
+import { historyToHar } from "@/lib/har";
+import {
+  collectRunnerRequests,
+  parseRunnerData,
+  runCollection,
+  summarizeRun,
+  type RunOutcome,
+  type RunnerRequest,
+  type RunStep,
+} from "@/lib/runner";
+import type { VariableMap } from "@/lib/variables";
+
+interface RunnerDialogProps {
+  node: Collection | CollectionFolder | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+interface DataFile {
+  name: string;
+  rows: VariableMap[];
+}
+
+const OUTCOME_LABELS: Record<RunOutcome, string> = {
+  completed: "Run completed",
+  failed: "Stopped at the first failure",
+  stopped: "Run stopped",
+};
+
+const StepRow: React.FC<{ step: RunStep }> = ({ step }) => (
+  <div className="border-b px-3 py-1.5 text-sm last:border-b-0">
+    <div className="flex items-center gap-2">
+      {step.passed ? (
+        <CheckCircle2 className="h-4 w-4 shrink-0 text-method-post" />
+      ) : (
+        <XCircle className="h-4 w-4 shrink-0 text-destructive" />
+      )}
+      <MethodBadge method={step.request.config.method} />
+      <span className="min-w-0 flex-1 truncate" title={step.historyEntry.url}>
+        {[...step.request.path, step.request.name].join(" / ")}
+      </span>
+      <span className={`shrink-0 text-xs ${step.passed ? "text-muted-foreground" : "text-destructive"}`}>
+        {step.response.error ? "ERR" : step.response.status}
+      </span>
+      <span className="w-16 shrink-0 text-right text-xs text-muted-foreground">{step.response.time}ms</span>
+    </div>
+    {step.response.error && (
+      <p className="pl-6 text-xs text-destructive break-words">{step.response.error.message}</p>
+    )}
+    {step.checks.length > 0 && (
+      <ul className="space-y-0.5 pl-6 pt-1">
+        {step.checks.map((check, index) => (
+          <li key={index} className="flex items-start gap-1.5 text-xs">
+            {check.passed ? (
+              <CheckCircle2 className="mt-px h-3 w-3 shrink-0 text-method-post" />
+            ) : (
+              <XCircle className="mt-px h-3 w-3 shrink-0 text-destructive" />
+            )}
+            <span className="min-w-0 break-words">
+              {check.name}
+              {check.message && <span className="font-mono text-destructive"> — {check.message}</span>}
+            </span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+const RunnerDialog: React.FC<RunnerDialogProps> = ({ node, onOpenChange }) => {
+  const { variables, updateActiveVariables } = useEnvironments();
+  const [iterations, setIterations] = useState<number>(1);
+  const [delay, setDelay] = useState<number>(0);
+  const [stopOnFailure, setStopOnFailure] = useState<boolean>(false);
+  const [data, setData] = useState<DataFile | { error: string } | null>(null);
+  const [steps, setSteps] = useState<RunStep[]>([]);
+  const [current, setCurrent] = useState<{ iteration: number; request: RunnerRequest } | null>(null);
+  const [outcome, setOutcome] = useState<RunOutcome | null>(null);
+  const [running, setRunning] = useState<boolean>(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const requests = useMemo(() => (node ? collectRunnerRequests(node) : []), [node]);
+  const dataRows = data && !("error" in data) ? data.rows : [];
+  const iterationCount = dataRows.length > 0 ? dataRows.length : Math.max(1, iterations);
+  const total = requests.length * iterationCount;
+  const summary = useMemo(() => summarizeRun(steps), [steps]);
+
+  useEffect(() => {
+    if (node) {
+      setData(null);
+      setSteps([]);
+      setCurrent(null);
+      setOutcome(null);
+      setRunning(false);
+    }
+  }, [node]);
+
+  // Closing the dialog stops the run.
+  useEffect(
+    () => () => {
+      controllerRef.current?.abort();
+      controllerRef.current = null;
+    },
+    [node]
+  );
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      setData(null);
+      return;
+    }
+    try {
+      setData({ name: file.name, rows: parseRunnerData(await file.text(), file.name) });
+    } catch (error) {
+      setData({ error: (error as Error).message });
+    }
+  };
+
+  const start = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setSteps([]);
+    setOutcome(null);
+    setRunning(true);
+    const result = await runCollection(
+      requests,
+      variables,
+      { iterations, delay, stopOnFailure, data: dataRows },
+      {
+        onStepStart: (iteration, request) => setCurrent({ iteration, request }),
+        onStep: (step) => setSteps((previous) => [...previous, step]),
+        onVariableUpdates: updateActiveVariables,
+      },
+      controller.signal
+    );
+    // A run abandoned by closing the dialog has nothing left to show.
+    if (controllerRef.current !== controller) return;
+    controllerRef.current = null;
+    setCurrent(null);
+    setRunning(false);
+    setOutcome(result);
+  };
+
+  const exportHar = () => {
+    const fileName = toFileName(`${node?.name ?? "run"}-run-${format(Date.now(), "yyyy-MM-dd-HHmm")}`, "har");
+    const har = historyToHar(steps.map((step) => step.historyEntry));
+    downloadFile(fileName, JSON.stringify(har, null, 2), "application/json");
+  };
+
+  const iterationsWithSteps = [...new Set(steps.map((step) => step.iteration))];
+
+  return (
+    <Dialog open={node !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Run {node?.name}</DialogTitle>
+          <DialogDescription>
+            Sends the {requests.length} requests in order, running their scripts and assertions. Variables set by scripts
+            are written to the active environment and carry over to the requests after them.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="space-y-1">
+            <Label htmlFor="runner-iterations">Iterations</Label>
+            <Input
+              id="runner-iterations"
+              type="number"
+              min={1}
+              value={dataRows.length > 0 ? dataRows.length : iterations}
+              onChange={(e) => setIterations(Number(e.target.value))}
+              disabled={running || dataRows.length > 0}
+              title={dataRows.length > 0 ? "Each row of the data file is one iteration" : undefined}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="runner-delay">Delay between requests (ms)</Label>
+            <Input
+              id="runner-delay"
+              type="number"
+              min={0}
+              value={delay}
+              onChange={(e) => setDelay(Number(e.target.value))}
+              disabled={running}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="runner-data">Data file (CSV or JSON)</Label>
+            <Input id="runner-data" type="file" accept=".csv,.json" onChange={handleFileChange} disabled={running} />
+          </div>
+        </div>
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          <label className="flex items-center gap-2">
+            <Checkbox
+              checked={stopOnFailure}
+              onCheckedChange={(checked) => setStopOnFailure(checked === true)}
+              disabled={running}
+            />
+            Stop on first failure
+          </label>
+          {data && "error" in data && <span className="text-destructive">{data.error}</span>}
+          {dataRows.length > 0 && (
+            <span className="min-w-0 truncate text-muted-foreground">
+              {dataRows.length} rows · variables {Object.keys(dataRows[0]).join(", ")}
+            </span>
+          )}
+        </div>
+
+        {(running || steps.length > 0) && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              {running && <Loader2 className="h-3 w-3 animate-spin" />}
+              <span className="min-w-0 flex-1 truncate">
+                {current
+                  ? `Iteration ${current.iteration + 1} of ${iterationCount} · ${current.request.name}`
+                  : outcome && OUTCOME_LABELS[outcome]}
+              </span>
+              <span>
+                {steps.length} / {total}
+              </span>
+            </div>
+            <Progress value={total > 0 ? (steps.length / total) * 100 : 0} className="h-2" />
+            <div className="max-h-72 overflow-y-auto rounded-md border">
+              {iterationsWithSteps.map((iteration) => (
+                <div key={iteration}>
+                  {iterationCount > 1 && (
+                    <div className="sticky top-0 bg-muted px-3 py-1 text-xs font-medium text-muted-foreground">
+                      Iteration {iteration + 1}
+                    </div>
+                  )}
+                  {steps
+                    .filter((step) => step.iteration === iteration)
+                    .map((step, index) => (
+                      <StepRow key={index} step={step} />
+                    ))}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {outcome && (
+          <div className="grid grid-cols-2 gap-2 rounded-md border p-3 text-sm sm:grid-cols-4">
+            <div>
+              <div className="text-xs text-muted-foreground">Requests</div>
+              <div className={summary.failedRequests > 0 ? "text-destructive" : "text-method-post"}>
+                {summary.requests - summary.failedRequests} / {summary.requests} passed
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground">Checks</div>
+              <div className={summary.failedChecks > 0 ? "text-destructive" : undefined}>
+                {summary.checks - summary.failedChecks} / {summary.checks} passed
+              </div>
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground">Total response time</div>
+              <div>{summary.totalTime}ms</div>
+            </div>
+            <div>
+              <div className="text-xs text-muted-foreground">Average</div>
+              <div>{summary.averageTime}ms</div>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {outcome && steps.length > 0 && (
+            <Button type="button" variant="ghost" onClick={exportHar} className="sm:mr-auto">
+              <FileDown className="h-4 w-4 mr-2" />
+              Export as HAR
+            </Button>
+          )}
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Close
+          </Button>
+          {running ? (
+            <Button type="button" variant="destructive" onClick={() => controllerRef.current?.abort()}>
+              Stop
+            </Button>
+          ) : (
+            <Button
+              type="button"
+              onClick={start}
+              disabled={requests.length === 0 || (data !== null && "error" in data)}
+            >
+              {outcome ? "Run again" : "Run"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RunnerDialog;
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useCollections } from "@/contexts/CollectionsContext";
+import { listContainers } from "@/lib/collections";
+
+interface SaveRequestDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  defaultName: string;
+  onSave: (parentId: string, name: string) => void;
+}
+
+const NEW_COLLECTION = "__new__";
+
+interface SaveRequestFormProps extends Omit<SaveRequestDialogProps, "open"> {
+  parentId: string;
+  onParentIdChange: (parentId: string) => void;
+}
+
+// Mounted only while the dialog is open, so every opening starts from the default name.
+const SaveRequestForm: React.FC<SaveRequestFormProps> = ({
+  onOpenChange,
+  defaultName,
+  onSave,
+  parentId: preferredParentId,
+  onParentIdChange,
+}) => {
+  const { collections, addCollection } = useCollections();
+  const containers = listContainers(collections);
+  const [name, setName] = useState<string>(defaultName);
+  const [collectionName, setCollectionName] = useState<string>("My Collection");
+
+  // The last choice sticks while it still exists.
+  const parentId = containers.some((container) => container.id === preferredParentId)
+    ? preferredParentId
+    : containers[0]?.id ?? NEW_COLLECTION;
+  const creatingCollection = parentId === NEW_COLLECTION;
+  const canSave = name.trim() !== "" && (!creatingCollection || collectionName.trim() !== "");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSave) return;
+    const targetId = creatingCollection ? addCollection(collectionName.trim()).id : parentId;
+    onSave(targetId, name.trim());
+    onOpenChange(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <DialogHeader>
+        <DialogTitle>Save Request</DialogTitle>
+      </DialogHeader>
+      <div className="space-y-2">
+        <Label htmlFor="save-request-name">Name</Label>
+        <Input id="save-request-name" value={name} onChange={(e) => setName(e.target.value)} autoFocus />
+      </div>
+      <div className="space-y-2">
+        <Label>Save to</Label>
+        <Select value={parentId} onValueChange={onParentIdChange}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {containers.map((container) => (
+              <SelectItem key={container.id} value={container.id}>
+                <span style={{ paddingLeft: `${container.depth * 12}px` }}>{container.name}</span>
+              </SelectItem>
+            ))}
+            <SelectItem value={NEW_COLLECTION}>New collection…</SelectItem>
+          </SelectContent>
+        </Select>
+        {creatingCollection && (
+          <Input
+            value={collectionName}
+            onChange={(e) => setCollectionName(e.target.value)}
+            placeholder="Collection name"
+            aria-label="Collection name"
+          />
+        )}
+      </div>
+      <DialogFooter>
+        <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+          Cancel
+        </Button>
+        <Button type="submit" disabled={!canSave}>
+          Save
+        </Button>
+      </DialogFooter>
+    </form>
+  );
+};
+
+const SaveRequestDialog: React.FC<SaveRequestDialogProps> = ({ open, onOpenChange, defaultName, onSave }) => {
+  const [parentId, setParentId] = useState<string>(NEW_COLLECTION);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <SaveRequestForm
+          onOpenChange={onOpenChange}
+          defaultName={defaultName}
+          onSave={onSave}
+          parentId={parentId}
+          onParentIdChange={setParentId}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SaveRequestDialog;
@@ -0,0 +1,80 @@
+import React from 'react';
+import { Label } from "@/components/ui/label";
+import CodeEditor from "@/components/CodeEditor";
+import type { RequestScripts } from "@/types/request";
+import { SCRIPT_TIMEOUT_MS } from "@/lib/scripts";
+
+interface ScriptsEditorProps {
+  value: RequestScripts;
+  onChange: (value: RequestScripts) => void;
+}
+
+const PRE_REQUEST_API = [
+  ["pm.request.url", "Read or assign the URL"],
+  ["pm.request.method", "The request method (read only)"],
+  ["pm.request.headers.get/set/remove/has(name)", "Headers sent with this request"],
+  ["pm.request.body", "Raw JSON, Text or XML body; null for other modes"],
+  ["pm.environment.get/set/unset/has(name)", "Active environment variables, saved after the run"],
+  ["console.log(...)", "Output shown with the response"],
+];
+
+const TEST_API = [
+  ["response.status / statusText / headers / data / time", "The received response; data is parsed JSON when possible"],
+  ['test("name", () => { ... })', "A named test that fails on its first failed assertion"],
+  ["expect(value).toBe / toEqual / toContain / toMatch(...)", "Assertions; .not negates, bare calls are listed on their own"],
+  ["expect(value).toHaveProperty / toHaveLength / toBeLessThan(...)", "More matchers, plus toBeDefined, toBeNull, toBeTruthy"],
+  ["pm.environment.set(name, value)", "Save values from the response for later requests"],
+];
+
+const ApiReference: React.FC<{ entries: string[][] }> = ({ entries }) => (
+  <details className="text-sm">
+    <summary className="cursor-pointer text-muted-foreground">Script API</summary>
+    <div className="mt-2 space-y-1">
+      {entries.map(([usage, description]) => (
+        <div key={usage} className="text-xs">
+          <code className="font-mono">{usage}</code>
+          <span className="text-muted-foreground"> — {description}</span>
+        </div>
+      ))}
+    </div>
+  </details>
+);
+
+const ScriptsEditor: React.FC<ScriptsEditorProps> = ({ value, onChange }) => {
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label htmlFor="pre-request-script">Pre-request Script</Label>
+        <p className="text-xs text-muted-foreground">
+          JavaScript or TypeScript run in an isolated worker before the request is built, before
+          {" {{variables}} "}are resolved. Scripts are stopped after {SCRIPT_TIMEOUT_MS / 1000} seconds.
+        </p>
+        <CodeEditor
+          id="pre-request-script"
+          language="typescript"
+          value={value.preRequest}
+          onChange={(preRequest) => onChange({ ...value, preRequest })}
+          placeholder={'pm.environment.set("requestId", crypto.randomUUID());\npm.request.headers.set("X-Request-Id", pm.environment.get("requestId"));'}
+        />
+        <ApiReference entries={PRE_REQUEST_API} />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="test-script">Tests</Label>
+        <p className="text-xs text-muted-foreground">
+          Run in the same sandbox after the response arrives. Results appear in the response's Tests tab.
+        </p>
+        <CodeEditor
+          id="test-script"
+          language="typescript"
+          value={value.test}
+          onChange={(test) => onChange({ ...value, test })}
+          placeholder={'test("returns 200", () => {\n  expect(response.status).toBe(200);\n});'}
+        />
+        <ApiReference entries={TEST_API} />
+      </div>
+    </div>
+  );
+};
+
+export default ScriptsEditor;
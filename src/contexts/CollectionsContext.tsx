@@ -0,0 +1,100 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import type { Collection, CollectionFolder, SavedRequest } from "@/types/collection";
+import type { RequestConfig } from "@/types/request";
+import {
+  createCollection,
+  createFolder,
+  createSavedRequest,
+  duplicateNode,
+  insertItem,
+  removeNode,
+  renameNode,
+  updateSavedRequest,
+} from "@/lib/collections";
+import { loadJson, saveJson } from "@/lib/storage";
+
+interface CollectionsContextValue {
+  collections: Collection[];
+  addCollection: (name: string) => Collection;
+  importCollection: (collection: Collection) => void;
+  addFolder: (parentId: string, name: string) => CollectionFolder;
+  saveRequest: (parentId: string, name: string, request: RequestConfig) => SavedRequest;
+  updateRequest: (id: string, request: RequestConfig) => void;
+  renameItem: (id: string, name: string) => void;
+  duplicateItem: (id: string) => void;
+  deleteItem: (id: string) => void;
+}
+
+const CollectionsContext = createContext<CollectionsContextValue | null>(null);
+
+const COLLECTIONS_KEY = "collections";
+
+export const CollectionsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [collections, setCollections] = useState<Collection[]>(() => loadJson(COLLECTIONS_KEY, []));
+
+  useEffect(() => saveJson(COLLECTIONS_KEY, collections), [collections]);
+
+  const addCollection = useCallback((name: string) => {
+    const collection = createCollection(name);
+    setCollections((current) => [...current, collection]);
+    return collection;
+  }, []);
+
+  const importCollection = useCallback((collection: Collection) => {
+    setCollections((current) => [...current, collection]);
+  }, []);
+
+  const addFolder = useCallback((parentId: string, name: string) => {
+    const folder = createFolder(name);
+    setCollections((current) => insertItem(current, parentId, folder));
+    return folder;
+  }, []);
+
+  const saveRequest = useCallback((parentId: string, name: string, request: RequestConfig) => {
+    const saved = createSavedRequest(name, request);
+    setCollections((current) => insertItem(current, parentId, saved));
+    return saved;
+  }, []);
+
+  const updateRequest = useCallback((id: string, request: RequestConfig) => {
+    setCollections((current) => updateSavedRequest(current, id, request));
+  }, []);
+
+  const renameItem = useCallback((id: string, name: string) => {
+    setCollections((current) => renameNode(current, id, name));
+  }, []);
+
+  const duplicateItem = useCallback((id: string) => {
+    setCollections((current) => duplicateNode(current, id));
+  }, []);
+
+  const deleteItem = useCallback((id: string) => {
+    setCollections((current) => removeNode(current, id));
+  }, []);
+
+  return (
+    <CollectionsContext.Provider
+      value={{
+        collections,
+        addCollection,
+        importCollection,
+        addFolder,
+        saveRequest,
+        updateRequest,
+        renameItem,
+        duplicateItem,
+        deleteItem,
+      }}
+    >
+      {children}
+    </CollectionsContext.Provider>
+  );
+};
+
+export const useCollections = () => {
+  const context = useContext(CollectionsContext);
+  if (!context) {
+    throw new Error("useCollections must be used within a CollectionsProvider.");
+  }
+  return context;
+};
@@ -0,0 +1,116 @@
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import type { Environment } from "@/types/environment";
+import { createRow } from "@/lib/key-value";
+import { loadJson, saveJson } from "@/lib/storage";
+import { updateVariableRows, variablesFromRows, type VariableMap, type VariableUpdates } from "@/lib/variables";
+
+interface EnvironmentsContextValue {
+  environments: Environment[];
+  activeEnvironment: Environment | null;
+  variables: VariableMap;
+  setActiveEnvironmentId: (id: string | null) => void;
+  addEnvironment: (name: string) => Environment;
+  importEnvironments: (environments: Environment[]) => void;
+  updateEnvironment: (id: string, patch: Partial<Omit<Environment, "id">>) => void;
+  duplicateEnvironment: (id: string) => void;
+  deleteEnvironment: (id: string) => void;
+  // Writes into the active environment; a no-op when none is selected.
+  updateActiveVariables: (updates: VariableUpdates) => void;
+}
+
+const EnvironmentsContext = createContext<EnvironmentsContextValue | null>(null);
+
+const ENVIRONMENTS_KEY = "environments";
+const ACTIVE_ENVIRONMENT_KEY = "active-environment";
+
+const createDefaultEnvironments = (): Environment[] => [
+  { id: crypto.randomUUID(), name: "Local", variables: [createRow("baseUrl", "http://localhost:3000")] },
+];
+
+export const EnvironmentsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [environments, setEnvironments] = useState<Environment[]>(() =>
+    loadJson(ENVIRONMENTS_KEY, createDefaultEnvironments())
+  );
+  const [activeId, setActiveId] = useState<string | null>(() => loadJson(ACTIVE_ENVIRONMENT_KEY, null));
+
+  useEffect(() => saveJson(ENVIRONMENTS_KEY, environments), [environments]);
+  useEffect(() => saveJson(ACTIVE_ENVIRONMENT_KEY, activeId), [activeId]);
+
+  const activeEnvironment = environments.find((env) => env.id === activeId) ?? null;
+
+  const variables = useMemo(
+    () => (activeEnvironment ? variablesFromRows(activeEnvironment.variables) : {}),
+    [activeEnvironment]
+  );
+
+  const addEnvironment = useCallback((name: string) => {
+    const environment: Environment = { id: crypto.randomUUID(), name, variables: [] };
+    setEnvironments((current) => [...current, environment]);
+    return environment;
+  }, []);
+
+  const importEnvironments = useCallback((imported: Environment[]) => {
+    setEnvironments((current) => [...current, ...imported]);
+  }, []);
+
+  const updateEnvironment = useCallback((id: string, patch: Partial<Omit<Environment, "id">>) => {
+    setEnvironments((current) => current.map((env) => (env.id === id ? { ...env, ...patch } : env)));
+  }, []);
+
+  const duplicateEnvironment = useCallback((id: string) => {
+    setEnvironments((current) => {
+      const source = current.find((env) => env.id === id);
+      if (!source) return current;
+      const copy: Environment = {
+        id: crypto.randomUUID(),
+        name: `${source.name} Copy`,
+        variables: source.variables.map((row) => createRow(row.key, row.value, row.enabled)),
+      };
+      return [...current, copy];
+    });
+  }, []);
+
+  const deleteEnvironment = useCallback((id: string) => {
+    setEnvironments((current) => current.filter((env) => env.id !== id));
+    setActiveId((current) => (current === id ? null : current));
+  }, []);
+
+  const updateActiveVariables = useCallback(
+    (updates: VariableUpdates) => {
+      if (!activeId || Object.keys(updates).length === 0) return;
+      setEnvironments((current) =>
+        current.map((env) =>
+          env.id === activeId ? { ...env, variables: updateVariableRows(env.variables, updates) } : env
+        )
+      );
+    },
+    [activeId]
+  );
+
+  return (
+    <EnvironmentsContext.Provider
+      value={{
+        environments,
+        activeEnvironment,
+        variables,
+        setActiveEnvironmentId: setActiveId,
+        addEnvironment,
+        importEnvironments,
+        updateEnvironment,
+        duplicateEnvironment,
+        deleteEnvironment,
+        updateActiveVariables,
+      }}
+    >
+      {children}
+    </EnvironmentsContext.Provider>
+  );
+};
+
+export const useEnvironments = () => {
+  const context = useContext(EnvironmentsContext);
+  if (!context) {
+    throw new Error("useEnvironments must be used within an EnvironmentsProvider.");
+  }
+  return context;
+};
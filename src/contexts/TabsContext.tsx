@@ -0,0 +1,121 @@
+import React, { createContext, useCallback, useContext, useState } from 'react';
+import type { RequestTab } from "@/types/tab";
+import { createTab, duplicateTab as copyTab, isBlankTab, moveItem } from "@/lib/tabs";
+
+type TabUpdate = Partial<RequestTab> | ((tab: RequestTab) => Partial<RequestTab>);
+
+interface TabsContextValue {
+  tabs: RequestTab[];
+  activeTab: RequestTab;
+  activateTab: (id: string) => void;
+  openTab: (tab?: RequestTab) => void;
+  closeTab: (id: string) => void;
+  closeOtherTabs: (id: string) => void;
+  duplicateTab: (id: string) => void;
+  moveTab: (id: string, toIndex: number) => void;
+  updateTab: (id: string, update: TabUpdate) => void;
+}
+
+interface TabsState {
+  tabs: RequestTab[];
+  activeId: string;
+}
+
+const TabsContext = createContext<TabsContextValue | null>(null);
+
+const initialState = (): TabsState => {
+  const tab = createTab();
+  return { tabs: [tab], activeId: tab.id };
+};
+
+export const TabsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  // One state object, so updates from requests still in flight always see the current tab list.
+  const [state, setState] = useState<TabsState>(initialState);
+
+  const activateTab = useCallback((id: string) => {
+    setState((current) => (current.tabs.some((tab) => tab.id === id) ? { ...current, activeId: id } : current));
+  }, []);
+
+  // Takes over the active tab when it's blank rather than piling up empty ones.
+  const openTab = useCallback((tab: RequestTab = createTab()) => {
+    setState((current) => {
+      const active = current.tabs.find((item) => item.id === current.activeId);
+      const tabs =
+        active && isBlankTab(active)
+          ? current.tabs.map((item) => (item.id === active.id ? tab : item))
+          : [...current.tabs, tab];
+      return { tabs, activeId: tab.id };
+    });
+  }, []);
+
+  const closeTab = useCallback((id: string) => {
+    setState((current) => {
+      const index = current.tabs.findIndex((tab) => tab.id === id);
+      if (index === -1) return current;
+      const tabs = current.tabs.filter((tab) => tab.id !== id);
+      if (tabs.length === 0) return initialState();
+      const activeId = current.activeId === id ? tabs[Math.min(index, tabs.length - 1)].id : current.activeId;
+      return { tabs, activeId };
+    });
+  }, []);
+
+  const closeOtherTabs = useCallback((id: string) => {
+    setState((current) => ({ tabs: current.tabs.filter((tab) => tab.id === id), activeId: id }));
+  }, []);
+
+  const duplicateTab = useCallback((id: string) => {
+    setState((current) => {
+      const index = current.tabs.findIndex((tab) => tab.id === id);
+      if (index === -1) return current;
+      const copy = copyTab(current.tabs[index]);
+      const tabs = [...current.tabs];
+      tabs.splice(index + 1, 0, copy);
+      return { tabs, activeId: copy.id };
+    });
+  }, []);
+
+  const moveTab = useCallback((id: string, toIndex: number) => {
+    setState((current) => {
+      const from = current.tabs.findIndex((tab) => tab.id === id);
+      return { ...current, tabs: moveItem(current.tabs, from, toIndex) };
+    });
+  }, []);
+
+  // Updates for a tab that has been closed in the meantime are dropped.
+  const updateTab = useCallback((id: string, update: TabUpdate) => {
+    setState((current) => ({
+      ...current,
+      tabs: current.tabs.map((tab) =>
+        tab.id === id ? { ...tab, ...(typeof update === "function" ? update(tab) : update) } : tab
+      ),
+    }));
+  }, []);
+
+  const activeTab = state.tabs.find((tab) => tab.id === state.activeId) ?? state.tabs[0];
+
+  return (
+    <TabsContext.Provider
+      value={{
+        tabs: state.tabs,
+        activeTab,
+        activateTab,
+        openTab,
+        closeTab,
+        closeOtherTabs,
+        duplicateTab,
+        moveTab,
+        updateTab,
+      }}
+    >
+      {children}
+    </TabsContext.Provider>
+  );
+};
+
+export const useTabs = () => {
+  const context = useContext(TabsContext);
+  if (!context) {
+    throw new Error("useTabs must be used within a TabsProvider.");
+  }
+  return context;
+};
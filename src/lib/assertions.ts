@@ -0,0 +1,152 @@
+import type { AssertionOperator, AssertionRow, AssertionSource } from "@/types/request";
+import type { ApiResponse } from "@/types/response";
+import type { TestResult } from "@/types/script";
+import { deepEqual } from "@/lib/deep-equal";
+import { queryJsonPath } from "@/lib/json-path";
+import { resolveVariables, type VariableMap } from "@/lib/variables";
+
+export const ASSERTION_SOURCE_LABELS: Record<AssertionSource, string> = {
+  status: "Status code",
+  header: "Header",
+  jsonpath: "JSONPath",
+  responseTime: "Response time (ms)",
+  bodySize: "Body size (bytes)",
+};
+
+export const ASSERTION_OPERATOR_LABELS: Record<AssertionOperator, string> = {
+  equals: "equals",
+  contains: "contains",
+  matches: "matches regex",
+  lessThan: "less than",
+  exists: "exists",
+  typeIs: "type is",
+};
+
+export const VALUE_TYPES = ["string", "number", "boolean", "object", "array", "null"];
+
+export const sourceHasProperty = (source: AssertionSource) => source === "header" || source === "jsonpath";
+
+export const createAssertionRow = (): AssertionRow => ({
+  id: crypto.randomUUID(),
+  enabled: true,
+  source: "status",
+  property: "",
+  operator: "equals",
+  expected: "",
+});
+
+interface SourceValue {
+  found: boolean;
+  value?: unknown;
+  // Why nothing was found, shown when the assertion fails.
+  missing?: string;
+}
+
+const readSource = (source: AssertionSource, property: string, response: ApiResponse): SourceValue => {
+  switch (source) {
+    case "status":
+      return { found: true, value: response.status };
+    case "header": {
+      const name = Object.keys(response.headers).find((key) => key.toLowerCase() === property.toLowerCase());
+      return name !== undefined
+        ? { found: true, value: response.headers[name] }
+        : { found: false, missing: `Header "${property}" is not present` };
+    }
+    case "jsonpath": {
+      const matches = queryJsonPath(response.data, property);
+      if (matches.length === 0) return { found: false, missing: `${property} matched nothing` };
+      return { found: true, value: matches.length === 1 ? matches[0] : matches };
+    }
+    case "responseTime":
+      return { found: true, value: response.time };
+    case "bodySize":
+      return response.size !== undefined
+        ? { found: true, value: response.size }
+        : { found: false, missing: "The response has no body" };
+  }
+};
+
+export const typeOf = (value: unknown) => {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+};
+
+const toText = (value: unknown) => (typeof value === "string" ? value : JSON.stringify(value) ?? String(value));
+
+// "200" equals 200 and '{"a":1}' equals { a: 1 }; anything that isn't JSON
+// is compared as text.
+const matchesExpected = (value: unknown, expected: string) => {
+  try {
+    if (deepEqual(value, JSON.parse(expected))) return true;
+  } catch {
+    // Not JSON, fall through to the text comparison.
+  }
+  return toText(value) === expected;
+};
+
+const compare = (operator: AssertionOperator, { value }: SourceValue, expected: string): boolean => {
+  switch (operator) {
+    case "exists":
+      return true;
+    case "equals":
+      return matchesExpected(value, expected);
+    case "contains":
+      if (Array.isArray(value)) return value.some((item) => matchesExpected(item, expected));
+      if (typeOf(value) === "object") return Object.prototype.hasOwnProperty.call(value, expected);
+      return toText(value).includes(expected);
+    case "matches":
+      return new RegExp(expected).test(toText(value));
+    case "lessThan": {
+      const actual = Number(value);
+      const limit = Number(expected);
+      if (expected.trim() === "" || Number.isNaN(limit)) throw new Error(`"${expected}" is not a number`);
+      return !Number.isNaN(actual) && actual < limit;
+    }
+    case "typeIs":
+      return typeOf(value) === expected.trim().toLowerCase();
+  }
+};
+
+const MAX_PREVIEW_LENGTH = 80;
+
+const preview = (value: unknown) => {
+  const text = toText(value);
+  return text.length > MAX_PREVIEW_LENGTH ? `${text.slice(0, MAX_PREVIEW_LENGTH)}…` : text;
+};
+
+export const describeAssertion = (row: Pick<AssertionRow, "source" | "property" | "operator" | "expected">) =>
+  [
+    ASSERTION_SOURCE_LABELS[row.source],
+    sourceHasProperty(row.source) ? row.property : "",
+    ASSERTION_OPERATOR_LABELS[row.operator],
+    row.operator === "exists" ? "" : row.expected,
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+/**
+ * Evaluates the enabled assertions against a response. {{variables}} in the
+ * property and expected value are resolved first.
+ */
+export const evaluateAssertions = (
+  rows: AssertionRow[],
+  response: ApiResponse,
+  variables: VariableMap
+): TestResult[] =>
+  rows
+    .filter((row) => row.enabled)
+    .map((row) => {
+      const property = resolveVariables(row.property.trim(), variables);
+      const expected = resolveVariables(row.expected.trim(), variables);
+      const name = describeAssertion({ ...row, property, expected });
+      try {
+        const actual = readSource(row.source, property, response);
+        if (!actual.found) return { name, passed: false, message: actual.missing };
+        return compare(row.operator, actual, expected)
+          ? { name, passed: true }
+          : { name, passed: false, message: `Actual value: ${preview(actual.value)}` };
+      } catch (error) {
+        return { name, passed: false, message: (error as Error).message };
+      }
+    });
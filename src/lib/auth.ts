@@ -0,0 +1,103 @@
+import type { AuthConfig } from "@/types/request";
+import { encodeBase64 } from "@/lib/encoding";
+import { appendQueryParam } from "@/lib/query-params";
+import { getAccessToken, getCachedToken, isTokenExpired, type OAuth2Token } from "@/lib/oauth2";
+
+export interface AuthResult {
+  headers: [string, string][];
+  queryParams: [string, string][];
+}
+
+export const createDefaultAuth = (): AuthConfig => ({
+  type: "none",
+  basic: { username: "", password: "" },
+  bearer: { token: "", prefix: "Bearer" },
+  apiKey: { key: "", value: "", addTo: "header" },
+  oauth2: {
+    grantType: "client_credentials",
+    tokenUrl: "",
+    authUrl: "",
+    redirectUri: "",
+    clientId: "",
+    clientSecret: "",
+    scope: "",
+    username: "",
+    password: "",
+    usePkce: true,
+    clientAuth: "header",
+    headerPrefix: "Bearer",
+  },
+  awsV4: {
+    accessKeyId: "",
+    secretAccessKey: "",
+    sessionToken: "",
+    region: "us-east-1",
+    service: "execute-api",
+  },
+});
+
+const oauth2Header = (auth: AuthConfig, token: OAuth2Token): [string, string] => {
+  const prefix = auth.oauth2.headerPrefix.trim();
+  return ["Authorization", prefix ? `${prefix} ${token.accessToken}` : token.accessToken];
+};
+
+/**
+ * Resolves auth without side effects. OAuth 2.0 only contributes a header
+ * when a valid token is already cached; use acquireAuth at send time.
+ */
+export const resolveAuth = (auth: AuthConfig): AuthResult => {
+  const result: AuthResult = { headers: [], queryParams: [] };
+
+  switch (auth.type) {
+    case "basic": {
+      const { username, password } = auth.basic;
+      if (username || password) {
+        result.headers.push(["Authorization", `Basic ${encodeBase64(`${username}:${password}`)}`]);
+      }
+      break;
+    }
+    case "bearer": {
+      const { token, prefix } = auth.bearer;
+      if (token) {
+        result.headers.push(["Authorization", prefix.trim() ? `${prefix.trim()} ${token}` : token]);
+      }
+      break;
+    }
+    case "apikey": {
+      const { key, value, addTo } = auth.apiKey;
+      if (key.trim()) {
+        (addTo === "query" ? result.queryParams : result.headers).push([key.trim(), value]);
+      }
+      break;
+    }
+    case "oauth2": {
+      const token = getCachedToken(auth.oauth2);
+      if (token && !isTokenExpired(token)) {
+        result.headers.push(oauth2Header(auth, token));
+      }
+      break;
+    }
+  }
+
+  return result;
+};
+
+// Like resolveAuth, but fetches or refreshes OAuth 2.0 tokens as needed.
+export const acquireAuth = async (auth: AuthConfig): Promise<AuthResult> => {
+  if (auth.type !== "oauth2") {
+    return resolveAuth(auth);
+  }
+  const token = await getAccessToken(auth.oauth2);
+  return { headers: [oauth2Header(auth, token)], queryParams: [] };
+};
+
+/**
+ * Applies resolved auth to an outgoing request. Auth headers replace any
+ * header with the same name from the headers table.
+ */
+export const applyAuth = (url: string, headers: Headers, result: AuthResult): string => {
+  for (const [key, value] of result.headers) {
+    headers.set(key, value);
+  }
+  return result.queryParams.reduce((acc, [key, value]) => appendQueryParam(acc, key, value), url);
+};
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import type { AwsSigV4Config } from "@/types/request";
+import { signRequest } from "@/lib/aws-sigv4";
+
+// Vectors from the AWS Signature Version 4 test suite (aws-sig-v4-test-suite),
+// which signs every request with these credentials at this time.
+const CONFIG: AwsSigV4Config = {
+  accessKeyId: "AKIDEXAMPLE",
+  secretAccessKey: "wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY",
+  sessionToken: "",
+  region: "us-east-1",
+  service: "service",
+};
+const NOW = new Date("2015-08-30T12:36:00Z");
+const SCOPE = "AKIDEXAMPLE/20150830/us-east-1/service/aws4_request";
+
+interface Vector {
+  name: string;
+  method: string;
+  url: string;
+  headers?: Record<string, string>;
+  body?: string;
+  signedHeaders: string;
+  // The suite's expected signature.
+  signature: string;
+}
+
+const sign = async ({ method, url, headers = {}, body }: Vector) => {
+  const request = {
+    method,
+    url,
+    headers: new Headers(headers),
+    body: body === undefined ? undefined : new TextEncoder().encode(body),
+  };
+  const result = await signRequest(request, CONFIG, NOW);
+  return { ...result, authorization: request.headers.get("Authorization") };
+};
+
+describe("signRequest against the AWS test suite", () => {
+  it.each<Vector>([
+    {
+      name: "get-vanilla",
+      method: "GET",
+      url: "https://example.amazonaws.com/",
+      signedHeaders: "host;x-amz-date",
+      signature: "5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31",
+    },
+    {
+      name: "get-vanilla-query-order-key-case",
+      method: "GET",
+      url: "https://example.amazonaws.com/?Param2=value2&Param1=value1",
+      signedHeaders: "host;x-amz-date",
+      signature: "b97d918cfa904a5beff61c982a1b6f458b799221646efd99d3219ec94cdf2500",
+    },
+    {
+      name: "post-x-www-form-urlencoded",
+      method: "POST",
+      url: "https://example.amazonaws.com/",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: "Param1=value1",
+      signedHeaders: "content-type;host;x-amz-date",
+      signature: "ff11897932ad3f4e8b18135d722051e5ac45fc38421b1da7b9d196a0fe09473a",
+    },
+  ])("matches $name", async (vector) => {
+    const { signature, authorization } = await sign(vector);
+    expect(signature).toBe(vector.signature);
+    expect(authorization).toBe(
+      `AWS4-HMAC-SHA256 Credential=${SCOPE}, SignedHeaders=${vector.signedHeaders}, Signature=${vector.signature}`
+    );
+  });
+
+  // The suite encodes paths once, the way S3 does. Other services expect
+  // each segment encoded twice, which is what signRequest does outside S3,
+  // so these two are expected to differ from the suite.
+  it.each<Vector & { canonicalUri: string }>([
+    {
+      name: "get-space",
+      method: "GET",
+      url: "https://example.amazonaws.com/example space/",
+      signedHeaders: "host;x-amz-date",
+      signature: "652487583200325589f1fba4c7e578f72c47cb61beeca81406b39ddec1366741",
+      canonicalUri: "/example%2520space/",
+    },
+    {
+      name: "get-utf8",
+      method: "GET",
+      url: "https://example.amazonaws.com/ሴ",
+      signedHeaders: "host;x-amz-date",
+      signature: "8318018e0b0f223aa2bbf98705b62bb787dc9c0e678f255a891fd03141be5d85",
+      canonicalUri: "/%25E1%2588%25B4",
+    },
+  ])("double-encodes the path of $name", async (vector) => {
+    const { canonicalRequest, signature } = await sign(vector);
+    expect(canonicalRequest.split("\n")[1]).toBe(vector.canonicalUri);
+    expect(signature).not.toBe(vector.signature);
+  });
+});
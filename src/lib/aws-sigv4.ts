@@ -0,0 +1,134 @@
+import type { AwsSigV4Config } from "@/types/request";
+import { isForbiddenHeader } from "@/lib/headers";
+
+const ALGORITHM = "AWS4-HMAC-SHA256";
+
+export interface SignableRequest {
+  method: string;
+  url: string;
+  headers: Headers;
+  body?: Uint8Array;
+}
+
+export interface SigningResult {
+  canonicalRequest: string;
+  stringToSign: string;
+  signature: string;
+}
+
+const encoder = new TextEncoder();
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, "0")).join("");
+
+const sha256Hex = async (data: Uint8Array | string): Promise<string> =>
+  toHex(await crypto.subtle.digest("SHA-256", typeof data === "string" ? encoder.encode(data) : data));
+
+const hmac = async (key: ArrayBuffer | Uint8Array, data: string): Promise<ArrayBuffer> => {
+  const cryptoKey = await crypto.subtle.importKey("raw", key, { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+  return crypto.subtle.sign("HMAC", cryptoKey, encoder.encode(data));
+};
+
+// RFC 3986 encoding: everything but unreserved characters is escaped.
+const uriEncode = (value: string): string =>
+  encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const safeDecode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+// S3 signs the path as sent; every other service expects each segment
+// encoded a second time.
+const canonicalUri = (url: URL, service: string): string => {
+  const path = url.pathname || "/";
+  if (service === "s3") {
+    return path.split("/").map((segment) => uriEncode(safeDecode(segment))).join("/");
+  }
+  return path.split("/").map((segment) => uriEncode(segment)).join("/");
+};
+
+const canonicalQuery = (url: URL): string => {
+  const pairs: [string, string][] = [];
+  url.searchParams.forEach((value, key) => {
+    pairs.push([uriEncode(key), uriEncode(value)]);
+  });
+  return pairs
+    .sort(([ak, av], [bk, bv]) => (ak === bk ? (av < bv ? -1 : av > bv ? 1 : 0) : ak < bk ? -1 : 1))
+    .map(([key, value]) => `${key}=${value}`)
+    .join("&");
+};
+
+const formatAmzDate = (date: Date): string => date.toISOString().replace(/[:-]|\.\d{3}/g, "");
+
+/**
+ * Signs a request in place with AWS Signature Version 4: sets X-Amz-Date,
+ * the session token if any, and the Authorization header. Every header the
+ * browser will actually send is signed, plus Host, which fetch derives
+ * from the URL.
+ */
+export const signRequest = async (
+  request: SignableRequest,
+  config: AwsSigV4Config,
+  now: Date = new Date()
+): Promise<SigningResult> => {
+  const { accessKeyId, secretAccessKey, sessionToken, region, service } = config;
+  if (!accessKeyId || !secretAccessKey) {
+    throw new Error("AWS Signature v4 requires an access key ID and secret access key");
+  }
+  if (!region || !service) {
+    throw new Error("AWS Signature v4 requires a region and service name");
+  }
+
+  const url = new URL(request.url);
+  const amzDate = formatAmzDate(now);
+  const dateStamp = amzDate.slice(0, 8);
+  const payloadHash = await sha256Hex(request.body ?? "");
+
+  request.headers.delete("authorization");
+  request.headers.set("X-Amz-Date", amzDate);
+  if (sessionToken) {
+    request.headers.set("X-Amz-Security-Token", sessionToken);
+  }
+  if (service === "s3") {
+    request.headers.set("X-Amz-Content-Sha256", payloadHash);
+  }
+
+  const signedValues = new Map<string, string>([["host", url.host]]);
+  request.headers.forEach((value, key) => {
+    if (!isForbiddenHeader(key)) {
+      signedValues.set(key.toLowerCase(), value.trim().replace(/\s+/g, " "));
+    }
+  });
+  const headerNames = [...signedValues.keys()].sort();
+  const canonicalHeaders = headerNames.map((name) => `${name}:${signedValues.get(name)}\n`).join("");
+  const signedHeaders = headerNames.join(";");
+
+  const canonicalRequest = [
+    request.method.toUpperCase(),
+    canonicalUri(url, service),
+    canonicalQuery(url),
+    canonicalHeaders,
+    signedHeaders,
+    payloadHash,
+  ].join("\n");
+
+  const scope = `${dateStamp}/${region}/${service}/aws4_request`;
+  const stringToSign = [ALGORITHM, amzDate, scope, await sha256Hex(canonicalRequest)].join("\n");
+
+  const dateKey = await hmac(encoder.encode(`AWS4${secretAccessKey}`), dateStamp);
+  const regionKey = await hmac(dateKey, region);
+  const serviceKey = await hmac(regionKey, service);
+  const signingKey = await hmac(serviceKey, "aws4_request");
+  const signature = toHex(await hmac(signingKey, stringToSign));
+
+  request.headers.set(
+    "Authorization",
+    `${ALGORITHM} Credential=${accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`
+  );
+
+  return { canonicalRequest, stringToSign, signature };
+};
@@ -0,0 +1,141 @@
+import type { BodyMode, MultipartRow, RequestBodyConfig } from "@/types/request";
+import { activeRows, createRow } from "@/lib/key-value";
+import { parseJsonError, parseXmlError } from "@/lib/format";
+
+export interface SerializedBody {
+  body?: BodyInit;
+  // Undefined when fetch must pick it, e.g. multipart needs its boundary.
+  contentType?: string;
+}
+
+export const BODY_MODE_LABELS: Record<BodyMode, string> = {
+  none: "None",
+  json: "JSON",
+  text: "Text",
+  xml: "XML",
+  urlencoded: "Form URL Encoded",
+  multipart: "Multipart Form",
+  binary: "Binary",
+  graphql: "GraphQL",
+};
+
+const RAW_CONTENT_TYPES: Partial<Record<BodyMode, string>> = {
+  json: "application/json",
+  text: "text/plain",
+  xml: "application/xml",
+  urlencoded: "application/x-www-form-urlencoded",
+  graphql: "application/json",
+};
+
+export const isRawMode = (mode: BodyMode) => mode === "json" || mode === "text" || mode === "xml";
+
+export const createDefaultBody = (): RequestBodyConfig => ({
+  mode: "json",
+  raw: "",
+  urlencoded: [],
+  multipart: [],
+  binary: null,
+  graphql: { query: "", variables: "" },
+});
+
+export const createMultipartRow = (): MultipartRow => ({
+  ...createRow(),
+  type: "text",
+  file: null,
+});
+
+export const methodAllowsBody = (method: string) => method !== "GET" && method !== "HEAD";
+
+// GraphQL over GET carries the operation in the query string instead of a body.
+export const sendsGraphQLInUrl = (method: string, body: RequestBodyConfig) => method === "GET" && body.mode === "graphql";
+
+// The Content-Type a body mode sends when the headers table doesn't set one.
+export const defaultContentType = (body: RequestBodyConfig): string | undefined => {
+  if (body.mode === "binary") {
+    return body.binary ? body.binary.type || "application/octet-stream" : undefined;
+  }
+  return RAW_CONTENT_TYPES[body.mode];
+};
+
+const parseGraphQLVariables = (variables: string): unknown => {
+  if (!variables.trim()) return undefined;
+  const error = parseJsonError(variables);
+  if (error) {
+    throw new Error(`Invalid JSON in GraphQL variables at line ${error.line}, column ${error.column}: ${error.message}`);
+  }
+  return JSON.parse(variables);
+};
+
+// Servers need the name only when a document has several operations, but
+// naming the single one is what GET clients conventionally send.
+const graphqlOperationName = (query: string): string | undefined => {
+  const names = [...query.matchAll(/\b(?:query|mutation|subscription)\s+([_A-Za-z]\w*)/g)].map((match) => match[1]);
+  return names.length === 1 ? names[0] : undefined;
+};
+
+/**
+ * The query string parameters of a GraphQL GET request: `query`, then
+ * `variables` as compact JSON and `operationName` when there are any.
+ * Throws on invalid variables, like serializeBody does for POST.
+ */
+export const graphqlQueryParams = (graphql: RequestBodyConfig["graphql"]): [string, string][] => {
+  const { query, variables } = graphql;
+  if (!query.trim()) return [];
+  const params: [string, string][] = [["query", query]];
+  const parsedVariables = parseGraphQLVariables(variables);
+  if (parsedVariables !== undefined) params.push(["variables", JSON.stringify(parsedVariables)]);
+  const operationName = graphqlOperationName(query);
+  if (operationName) params.push(["operationName", operationName]);
+  return params;
+};
+
+export const serializeBody = (body: RequestBodyConfig): SerializedBody => {
+  switch (body.mode) {
+    case "json":
+    case "text":
+    case "xml": {
+      if (!body.raw) return {};
+      const error = body.mode === "json"
+        ? parseJsonError(body.raw)
+        : body.mode === "xml"
+          ? parseXmlError(body.raw)
+          : null;
+      if (error) {
+        throw new Error(
+          `Invalid ${body.mode.toUpperCase()} in request body at line ${error.line}, column ${error.column}: ${error.message}`
+        );
+      }
+      return { body: body.raw, contentType: defaultContentType(body) };
+    }
+    case "urlencoded": {
+      const params = new URLSearchParams();
+      for (const row of activeRows(body.urlencoded)) {
+        params.append(row.key, row.value);
+      }
+      return { body: params.toString(), contentType: defaultContentType(body) };
+    }
+    case "multipart": {
+      const form = new FormData();
+      for (const row of activeRows(body.multipart)) {
+        if (row.type === "file") {
+          if (row.file) form.append(row.key, row.file, row.file.name);
+        } else {
+          form.append(row.key, row.value);
+        }
+      }
+      return { body: form };
+    }
+    case "binary":
+      return body.binary ? { body: body.binary, contentType: defaultContentType(body) } : {};
+    case "graphql": {
+      const { query, variables } = body.graphql;
+      if (!query.trim()) return {};
+      return {
+        body: JSON.stringify({ query, variables: parseGraphQLVariables(variables) }),
+        contentType: defaultContentType(body),
+      };
+    }
+    default:
+      return {};
+  }
+};
@@ -0,0 +1,152 @@
+import type { Collection, CollectionFolder, CollectionItem, ResponseExample, SavedRequest } from "@/types/collection";
+import type { RequestConfig } from "@/types/request";
+import type { ApiResponse } from "@/types/response";
+import { toStoredRequest } from "@/lib/request";
+
+export type CollectionNode = Collection | CollectionItem;
+
+export const createCollection = (name: string, items: CollectionItem[] = []): Collection => ({
+  id: crypto.randomUUID(),
+  name,
+  items,
+});
+
+export const createFolder = (name: string, items: CollectionItem[] = []): CollectionFolder => ({
+  type: "folder",
+  id: crypto.randomUUID(),
+  name,
+  items,
+});
+
+export const createSavedRequest = (name: string, request: RequestConfig): SavedRequest => ({
+  type: "request",
+  id: crypto.randomUUID(),
+  name,
+  request: toStoredRequest(request),
+});
+
+// Applies `fn` to the item list of every collection and folder, top down.
+const transformItems = (
+  items: CollectionItem[],
+  parentId: string,
+  fn: (items: CollectionItem[], parentId: string) => CollectionItem[]
+): CollectionItem[] =>
+  fn(items, parentId).map((item) =>
+    item.type === "folder" ? { ...item, items: transformItems(item.items, item.id, fn) } : item
+  );
+
+const transformCollections = (
+  collections: Collection[],
+  fn: (items: CollectionItem[], parentId: string) => CollectionItem[]
+): Collection[] => collections.map((collection) => ({ ...collection, items: transformItems(collection.items, collection.id, fn) }));
+
+export const countRequests = (items: CollectionItem[]): number =>
+  items.reduce((total, item) => total + (item.type === "request" ? 1 : countRequests(item.items)), 0);
+
+// Shows a saved example the way a live response would be; it has no timing.
+export const exampleToResponse = (example: ResponseExample): ApiResponse => {
+  let data: unknown = example.body;
+  try {
+    data = JSON.parse(example.body);
+  } catch {
+    // Not JSON; keep the text.
+  }
+  return {
+    status: example.status,
+    statusText: example.statusText,
+    headers: example.headers,
+    data,
+    time: 0,
+    size: new TextEncoder().encode(example.body).length,
+  };
+};
+
+export const findNode = (collections: Collection[], id: string): CollectionNode | undefined => {
+  const search = (items: CollectionItem[]): CollectionItem | undefined => {
+    for (const item of items) {
+      if (item.id === id) return item;
+      const found = item.type === "folder" ? search(item.items) : undefined;
+      if (found) return found;
+    }
+    return undefined;
+  };
+  for (const collection of collections) {
+    if (collection.id === id) return collection;
+    const found = search(collection.items);
+    if (found) return found;
+  }
+  return undefined;
+};
+
+// The collection or folder names leading to a node, excluding the node itself.
+export const findNodePath = (collections: Collection[], id: string): string[] | undefined => {
+  const search = (items: CollectionItem[], path: string[]): string[] | undefined => {
+    for (const item of items) {
+      if (item.id === id) return path;
+      const found = item.type === "folder" ? search(item.items, [...path, item.name]) : undefined;
+      if (found) return found;
+    }
+    return undefined;
+  };
+  for (const collection of collections) {
+    if (collection.id === id) return [];
+    const found = search(collection.items, [collection.name]);
+    if (found) return found;
+  }
+  return undefined;
+};
+
+export const insertItem = (collections: Collection[], parentId: string, item: CollectionItem): Collection[] =>
+  transformCollections(collections, (items, id) => (id === parentId ? [...items, item] : items));
+
+export const renameNode = (collections: Collection[], id: string, name: string): Collection[] =>
+  transformCollections(
+    collections.map((collection) => (collection.id === id ? { ...collection, name } : collection)),
+    (items) => items.map((item) => (item.id === id ? { ...item, name } : item))
+  );
+
+export const updateSavedRequest = (collections: Collection[], id: string, request: RequestConfig): Collection[] =>
+  transformCollections(collections, (items) =>
+    items.map((item) => (item.id === id && item.type === "request" ? { ...item, request: toStoredRequest(request) } : item))
+  );
+
+export const removeNode = (collections: Collection[], id: string): Collection[] =>
+  transformCollections(
+    collections.filter((collection) => collection.id !== id),
+    (items) => items.filter((item) => item.id !== id)
+  );
+
+// Deep copy with fresh ids throughout.
+const cloneItem = (item: CollectionItem): CollectionItem =>
+  item.type === "folder"
+    ? { ...item, id: crypto.randomUUID(), items: item.items.map(cloneItem) }
+    : { ...item, id: crypto.randomUUID(), request: toStoredRequest(item.request) };
+
+// Places a copy right after the original.
+export const duplicateNode = (collections: Collection[], id: string): Collection[] =>
+  transformCollections(
+    collections.flatMap((collection) =>
+      collection.id === id
+        ? [collection, { ...collection, id: crypto.randomUUID(), name: `${collection.name} Copy`, items: collection.items.map(cloneItem) }]
+        : [collection]
+    ),
+    (items) => items.flatMap((item) => (item.id === id ? [item, { ...cloneItem(item), name: `${item.name} Copy` }] : [item]))
+  );
+
+export interface ContainerOption {
+  id: string;
+  name: string;
+  depth: number;
+}
+
+// Collections and folders in tree order, for "save to" pickers.
+export const listContainers = (collections: Collection[]): ContainerOption[] => {
+  const walk = (items: CollectionItem[], depth: number): ContainerOption[] =>
+    items.flatMap((item) =>
+      item.type === "folder" ? [{ id: item.id, name: item.name, depth }, ...walk(item.items, depth + 1)] : []
+    );
+  return collections.flatMap((collection) => [
+    { id: collection.id, name: collection.name, depth: 0 },
+    ...walk(collection.items, 1),
+  ]);
+};
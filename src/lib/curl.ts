@@ -0,0 +1,545 @@
+import type { HttpMethod, KeyValueRow, MultipartRow, RequestConfig } from "@/types/request";
+import { createDefaultRequest, HTTP_METHODS } from "@/lib/request";
+import { createRow } from "@/lib/key-value";
+import { createMultipartRow } from "@/lib/body";
+import { decodeBase64 } from "@/lib/encoding";
+import { appendQueryParam } from "@/lib/query-params";
+
+export interface CurlImport {
+  request: RequestConfig;
+  // Options that had no equivalent here, worded for the user.
+  warnings: string[];
+}
+
+interface Tokens {
+  args: string[];
+  // A pipe, redirect or command separator the command stopped at.
+  stoppedAt?: string;
+}
+
+const SHORT_OPTIONS: Record<string, string> = {
+  X: "request",
+  H: "header",
+  d: "data",
+  F: "form",
+  u: "user",
+  A: "user-agent",
+  e: "referer",
+  b: "cookie",
+  r: "range",
+  G: "get",
+  I: "head",
+  k: "insecure",
+  L: "location",
+  s: "silent",
+  S: "show-error",
+  v: "verbose",
+  i: "include",
+  f: "fail",
+  g: "globoff",
+  o: "output",
+  O: "remote-name",
+  m: "max-time",
+  w: "write-out",
+  x: "proxy",
+  c: "cookie-jar",
+  T: "upload-file",
+  E: "cert",
+  K: "config",
+  D: "dump-header",
+  "#": "progress-bar",
+  "0": "http1.0",
+  "4": "ipv4",
+  "6": "ipv6",
+};
+
+const VALUE_OPTIONS = new Set([
+  "request",
+  "header",
+  "data",
+  "data-ascii",
+  "data-raw",
+  "data-binary",
+  "data-urlencode",
+  "json",
+  "form",
+  "form-string",
+  "user",
+  "user-agent",
+  "referer",
+  "cookie",
+  "range",
+  "url",
+  "url-query",
+  "oauth2-bearer",
+  "aws-sigv4",
+  "output",
+  "max-time",
+  "connect-timeout",
+  "write-out",
+  "proxy",
+  "proxy-user",
+  "cookie-jar",
+  "upload-file",
+  "cert",
+  "key",
+  "cacert",
+  "capath",
+  "config",
+  "dump-header",
+  "retry",
+  "retry-delay",
+  "max-redirs",
+  "resolve",
+  "connect-to",
+  "limit-rate",
+  "interface",
+  "trace",
+  "trace-ascii",
+  "stderr",
+]);
+
+// Only change how curl behaves locally or what it prints, or what the browser does anyway.
+const IGNORED_OPTIONS = new Set([
+  "compressed",
+  "basic",
+  "location",
+  "silent",
+  "show-error",
+  "verbose",
+  "include",
+  "fail",
+  "fail-with-body",
+  "globoff",
+  "output",
+  "remote-name",
+  "max-time",
+  "connect-timeout",
+  "write-out",
+  "dump-header",
+  "progress-bar",
+  "no-progress-meter",
+  "no-buffer",
+  "http1.0",
+  "http1.1",
+  "http2",
+  "http2-prior-knowledge",
+  "ipv4",
+  "ipv6",
+  "retry",
+  "retry-delay",
+  "max-redirs",
+  "trace",
+  "trace-ascii",
+  "stderr",
+]);
+
+const ANSI_ESCAPES: Record<string, string> = { n: "\n", t: "\t", r: "\r", "\\": "\\", "'": "'", '"': '"', "0": "\0" };
+
+const readAnsiQuoted = (input: string, start: number): [string, number] => {
+  let value = "";
+  let i = start;
+  while (i < input.length && input[i] !== "'") {
+    if (input[i] === "\\" && i + 1 < input.length) {
+      const next = input[i + 1];
+      const hex = next === "x" ? /^[0-9a-fA-F]{1,2}/.exec(input.slice(i + 2)) : null;
+      if (hex) {
+        value += String.fromCharCode(parseInt(hex[0], 16));
+        i += 2 + hex[0].length;
+        continue;
+      }
+      value += ANSI_ESCAPES[next] ?? `\\${next}`;
+      i += 2;
+      continue;
+    }
+    value += input[i++];
+  }
+  if (i >= input.length) throw new Error("Unterminated $'…' quote in the command.");
+  return [value, i + 1];
+};
+
+/**
+ * Splits a command line the way a POSIX shell would: single, double and
+ * $'…' quotes, backslash escapes and line continuations. Stops at the first
+ * unquoted pipe, redirect or separator.
+ */
+export const tokenizeCommand = (input: string): Tokens => {
+  const args: string[] = [];
+  let current = "";
+  let inArg = false;
+  let i = 0;
+
+  const finishArg = () => {
+    if (inArg) args.push(current);
+    current = "";
+    inArg = false;
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (char === "\\" && (input[i + 1] === "\n" || (input[i + 1] === "\r" && input[i + 2] === "\n"))) {
+      i += input[i + 1] === "\r" ? 3 : 2;
+      continue;
+    }
+    if (/\s/.test(char)) {
+      finishArg();
+      i++;
+      continue;
+    }
+    if (!inArg && "|;&>".includes(char)) {
+      return { args, stoppedAt: char };
+    }
+
+    inArg = true;
+    if (char === "'") {
+      const end = input.indexOf("'", i + 1);
+      if (end === -1) throw new Error("Unterminated single quote in the command.");
+      current += input.slice(i + 1, end);
+      i = end + 1;
+    } else if (char === "$" && input[i + 1] === "'") {
+      const [value, next] = readAnsiQuoted(input, i + 2);
+      current += value;
+      i = next;
+    } else if (char === '"') {
+      i++;
+      while (i < input.length && input[i] !== '"') {
+        if (input[i] === "\\" && '"\\$`\n'.includes(input[i + 1])) {
+          if (input[i + 1] !== "\n") current += input[i + 1];
+          i += 2;
+        } else {
+          current += input[i++];
+        }
+      }
+      if (i >= input.length) throw new Error("Unterminated double quote in the command.");
+      i++;
+    } else if (char === "\\") {
+      current += input[i + 1] ?? "";
+      i += 2;
+    } else {
+      current += char;
+      i++;
+    }
+  }
+  finishArg();
+  return { args };
+};
+
+const decodeFormComponent = (value: string) => decodeURIComponent(value.replace(/\+/g, " "));
+
+// Returns null when the data isn't a plain key=value&… string.
+const parseUrlencoded = (data: string): KeyValueRow[] | null => {
+  const pairs = data.split("&").filter(Boolean);
+  if (pairs.some((pair) => !pair.includes("="))) return null;
+  try {
+    return pairs.map((pair) => {
+      const index = pair.indexOf("=");
+      return createRow(decodeFormComponent(pair.slice(0, index)), decodeFormComponent(pair.slice(index + 1)));
+    });
+  } catch {
+    return null;
+  }
+};
+
+const isJson = (text: string) => {
+  try {
+    JSON.parse(text);
+    return /^\s*[[{]/.test(text);
+  } catch {
+    return false;
+  }
+};
+
+const encodeDataUrlencode = (value: string): string | null => {
+  if (value.startsWith("@")) return null;
+  const equals = value.indexOf("=");
+  const at = value.indexOf("@");
+  if (at > 0 && (equals === -1 || at < equals)) return null;
+  if (equals === -1) return encodeURIComponent(value);
+  const name = value.slice(0, equals);
+  const content = encodeURIComponent(value.slice(equals + 1));
+  return name ? `${name}=${content}` : content;
+};
+
+const findHeader = (headers: KeyValueRow[], name: string) =>
+  headers.find((row) => row.key.toLowerCase() === name.toLowerCase());
+
+/**
+ * Turns a pasted `curl …` command into a request. Throws when the text
+ * isn't a curl command or has no URL; anything it can parse but not
+ * represent is reported in `warnings` instead.
+ */
+export const parseCurl = (command: string): CurlImport => {
+  const { args, stoppedAt } = tokenizeCommand(command.trim());
+  if (args[0] !== "curl") {
+    throw new Error("Expected a command starting with `curl`.");
+  }
+
+  const warnings: string[] = [];
+  const request = createDefaultRequest();
+  const headers: KeyValueRow[] = [];
+  const dataParts: string[] = [];
+  const formRows: MultipartRow[] = [];
+  const urls: string[] = [];
+  const queryParts: string[] = [];
+  let method: string | null = null;
+  let useGet = false;
+  let useHead = false;
+  let jsonBody = false;
+  // --data-binary and --data-raw send their text as is, so it stays a raw body.
+  let verbatimData = false;
+  let awsSigV4: string | null = null;
+  let endOfOptions = false;
+
+  if (stoppedAt) {
+    warnings.push(`Ignored everything after the unquoted "${stoppedAt}".`);
+  }
+
+  const handleOption = (name: string, value: string | undefined, flag: string) => {
+    if (IGNORED_OPTIONS.has(name)) return;
+    switch (name) {
+      case "request":
+        method = value.toUpperCase();
+        break;
+      case "url":
+        urls.push(value);
+        break;
+      case "url-query":
+        queryParts.push(value);
+        break;
+      case "get":
+        useGet = true;
+        break;
+      case "head":
+        useHead = true;
+        break;
+      case "header": {
+        const index = value.indexOf(":");
+        if (index === -1) {
+          // `-H "Name;"` sends an empty header in curl.
+          if (value.endsWith(";")) headers.push(createRow(value.slice(0, -1).trim(), ""));
+          else warnings.push(`Skipped malformed header "${value}".`);
+        } else {
+          headers.push(createRow(value.slice(0, index).trim(), value.slice(index + 1).trim()));
+        }
+        break;
+      }
+      case "user-agent":
+        headers.push(createRow("User-Agent", value));
+        break;
+      case "referer":
+        headers.push(createRow("Referer", value.replace(/;auto$/, "")));
+        break;
+      case "range":
+        headers.push(createRow("Range", `bytes=${value}`));
+        break;
+      case "cookie":
+        if (value.includes("=")) headers.push(createRow("Cookie", value));
+        else warnings.push(`${flag} ${value}: reading cookies from a file isn't supported.`);
+        break;
+      case "data":
+      case "data-ascii":
+      case "data-binary":
+      case "json":
+        if (value.startsWith("@")) {
+          warnings.push(`${flag} ${value}: files can't be read, so that data was left out.`);
+        } else {
+          dataParts.push(value);
+        }
+        if (name === "json") jsonBody = true;
+        if (name === "data-binary") verbatimData = true;
+        break;
+      case "data-raw":
+        dataParts.push(value);
+        verbatimData = true;
+        break;
+      case "data-urlencode": {
+        const encoded = encodeDataUrlencode(value);
+        if (encoded === null) warnings.push(`${flag} ${value}: files can't be read, so that field was left out.`);
+        else dataParts.push(encoded);
+        break;
+      }
+      case "form":
+      case "form-string": {
+        const index = value.indexOf("=");
+        if (index === -1) {
+          warnings.push(`Skipped malformed form field "${value}".`);
+          break;
+        }
+        const row = { ...createMultipartRow(), key: value.slice(0, index) };
+        const content = value.slice(index + 1);
+        if (name === "form" && (content.startsWith("@") || content.startsWith("<"))) {
+          const fileName = content.slice(1).split(";")[0];
+          formRows.push({ ...row, type: "file" });
+          warnings.push(`Form field "${row.key}" uses the file ${fileName}; pick it again in the Body tab.`);
+        } else {
+          // Drop curl's ;type=… and ;filename=… suffixes.
+          formRows.push({ ...row, value: name === "form" ? content.replace(/;(type|filename|headers)=.*$/, "") : content });
+        }
+        break;
+      }
+      case "user": {
+        const index = value.indexOf(":");
+        request.auth.type = "basic";
+        request.auth.basic = {
+          username: index === -1 ? value : value.slice(0, index),
+          password: index === -1 ? "" : value.slice(index + 1),
+        };
+        if (index === -1) warnings.push(`${flag} has no password; curl would have prompted for one.`);
+        break;
+      }
+      case "oauth2-bearer":
+        request.auth.type = "bearer";
+        request.auth.bearer = { ...request.auth.bearer, token: value };
+        break;
+      case "aws-sigv4":
+        awsSigV4 = value;
+        break;
+      case "insecure":
+        warnings.push(`${flag}: browsers always verify TLS certificates, so this can't be turned off.`);
+        break;
+      case "digest":
+      case "ntlm":
+      case "negotiate":
+        warnings.push(`${flag}: this authentication scheme isn't supported; credentials were kept as Basic auth.`);
+        break;
+      default:
+        warnings.push(`Ignored ${flag}${value !== undefined ? ` ${value}` : ""}; it has no equivalent here.`);
+    }
+  };
+
+  for (let i = 1; i < args.length; i++) {
+    const arg = args[i];
+    if (endOfOptions || !arg.startsWith("-") || arg === "-") {
+      urls.push(arg);
+    } else if (arg === "--") {
+      endOfOptions = true;
+    } else if (arg.startsWith("--")) {
+      const name = arg.slice(2);
+      if (VALUE_OPTIONS.has(name)) {
+        if (i + 1 >= args.length) throw new Error(`${arg} is missing its value.`);
+        handleOption(name, args[++i], arg);
+      } else {
+        handleOption(name, undefined, arg);
+      }
+    } else {
+      // Short options can be bundled (-sSL) and take their value inline (-XPOST).
+      for (let j = 1; j < arg.length; j++) {
+        const flag = `-${arg[j]}`;
+        const name = SHORT_OPTIONS[arg[j]] ?? flag;
+        if (VALUE_OPTIONS.has(name)) {
+          const inline = arg.slice(j + 1);
+          if (!inline && i + 1 >= args.length) throw new Error(`${flag} is missing its value.`);
+          handleOption(name, inline || args[++i], flag);
+          break;
+        }
+        handleOption(name, undefined, flag);
+      }
+    }
+  }
+
+  if (urls.length === 0) {
+    throw new Error("No URL found in the cURL command.");
+  }
+  if (urls.length > 1) {
+    warnings.push(`Only the first URL was imported; ignored ${urls.slice(1).join(", ")}.`);
+  }
+
+  let url = /^[a-z][a-z0-9+.-]*:\/\//i.test(urls[0]) || urls[0].startsWith("{{") ? urls[0] : `http://${urls[0]}`;
+  for (const part of queryParts) {
+    const index = part.indexOf("=");
+    url = index === -1 ? appendQueryParam(url, part, "") : appendQueryParam(url, part.slice(0, index), part.slice(index + 1));
+  }
+
+  const data = dataParts.join("&");
+  if (useGet && dataParts.length > 0) {
+    url += `${url.includes("?") ? "&" : "?"}${data}`;
+  }
+
+  const inferredMethod: HttpMethod = useHead
+    ? "HEAD"
+    : formRows.length > 0 || (dataParts.length > 0 && !useGet)
+      ? "POST"
+      : "GET";
+  if (method && !HTTP_METHODS.includes(method as HttpMethod)) {
+    warnings.push(`The ${method} method isn't supported; using ${inferredMethod} instead.`);
+    method = null;
+  }
+  request.method = (method as HttpMethod | null) ?? inferredMethod;
+  request.url = url;
+
+  if (jsonBody) {
+    if (!findHeader(headers, "content-type")) headers.push(createRow("Content-Type", "application/json"));
+    if (!findHeader(headers, "accept")) headers.push(createRow("Accept", "application/json"));
+  }
+
+  // An explicit Authorization header wins over -u, as it does in curl.
+  const authorization = findHeader(headers, "authorization");
+  const [scheme, credentials] = authorization ? authorization.value.split(/\s+(.*)/) : [];
+  if (authorization && /^bearer$/i.test(scheme) && credentials) {
+    request.auth.type = "bearer";
+    request.auth.bearer = { ...request.auth.bearer, token: credentials };
+    headers.splice(headers.indexOf(authorization), 1);
+  } else if (authorization && /^basic$/i.test(scheme) && credentials) {
+    try {
+      const decoded = decodeBase64(credentials);
+      const index = decoded.indexOf(":");
+      if (index !== -1) {
+        request.auth.type = "basic";
+        request.auth.basic = { username: decoded.slice(0, index), password: decoded.slice(index + 1) };
+        headers.splice(headers.indexOf(authorization), 1);
+      }
+    } catch {
+      // Not valid base64; leave the header as it was given.
+    }
+  }
+
+  if (awsSigV4) {
+    // provider1[:provider2[:region[:service]]]
+    const [, , region, service] = awsSigV4.split(":");
+    const sessionToken = findHeader(headers, "x-amz-security-token");
+    request.auth.type = "awsv4";
+    request.auth.awsV4 = {
+      ...request.auth.awsV4,
+      accessKeyId: request.auth.basic.username,
+      secretAccessKey: request.auth.basic.password,
+      sessionToken: sessionToken?.value ?? "",
+      region: region || request.auth.awsV4.region,
+      service: service || request.auth.awsV4.service,
+    };
+    request.auth.basic = { username: "", password: "" };
+    if (sessionToken) headers.splice(headers.indexOf(sessionToken), 1);
+  }
+
+  const contentType = findHeader(headers, "content-type")?.value.toLowerCase() ?? "";
+  if (formRows.length > 0) {
+    request.body = { ...request.body, mode: "multipart", multipart: formRows };
+    if (contentType.startsWith("multipart/form-data")) {
+      // Without the boundary the browser adds itself, the header would break the body.
+      headers.splice(headers.indexOf(findHeader(headers, "content-type")), 1);
+    }
+    if (dataParts.length > 0) warnings.push("Both form fields and data were given; only the form fields were kept.");
+  } else if (dataParts.length > 0 && !useGet) {
+    const fields =
+      (!contentType || contentType.includes("x-www-form-urlencoded")) && !verbatimData && !isJson(data)
+        ? parseUrlencoded(data)
+        : null;
+    if (contentType.includes("json") || (!contentType && isJson(data))) {
+      request.body = { ...request.body, mode: "json", raw: data };
+    } else if (fields) {
+      request.body = { ...request.body, mode: "urlencoded", urlencoded: fields };
+    } else {
+      request.body = { ...request.body, mode: contentType.includes("xml") ? "xml" : "text", raw: data };
+      // curl labels data as a form without a Content-Type; a text body alone would go out as text/plain.
+      if (!contentType) headers.push(createRow("Content-Type", "application/x-www-form-urlencoded"));
+    }
+    if (request.method === "GET" || request.method === "HEAD") {
+      warnings.push(`Browsers can't send a body with ${request.method}; change the method to send it.`);
+    }
+  }
+
+  request.headers = headers;
+  return { request, warnings };
+};
+
+export const looksLikeCurl = (text: string) => /^\s*curl\s/.test(text);
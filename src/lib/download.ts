@@ -0,0 +1,14 @@
+// Starts a browser download of generated text through a temporary object URL.
+export const downloadFile = (fileName: string, content: string, type = "text/plain") => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking right away can cancel the download in some browsers.
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Keeps names usable as file names on every platform.
+export const toFileName = (name: string, extension: string) =>
+  `${name.trim().replace(/[^\w.-]+/g, "-").replace(/^-+|-+$/g, "") || "export"}.${extension}`;
@@ -0,0 +1,120 @@
+import { encodeBase64 } from "@/lib/encoding";
+
+export interface DynamicVariableContext {
+  // Resolves another variable by name, undefined when it isn't defined.
+  lookup: (name: string) => string | undefined;
+}
+
+interface DynamicVariable {
+  description: string;
+  usage: string;
+  // Returns undefined when the arguments can't be satisfied, which leaves
+  // the placeholder unresolved.
+  generate: (args: string[], context: DynamicVariableContext) => string | undefined;
+}
+
+const ALPHANUMERIC = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789";
+
+const randomInt = (min: number, max: number) => {
+  const range = max - min + 1;
+  return min + (crypto.getRandomValues(new Uint32Array(1))[0] % range);
+};
+
+const randomString = (length: number, alphabet = ALPHANUMERIC) =>
+  Array.from(crypto.getRandomValues(new Uint32Array(length)), (n) => alphabet[n % alphabet.length]).join("");
+
+const formatUuid = (bytes: Uint8Array) => {
+  const hex = Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+};
+
+// RFC 9562: 48-bit millisecond timestamp followed by random bits.
+const uuidV7 = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  let timestamp = Date.now();
+  for (let i = 5; i >= 0; i--) {
+    bytes[i] = timestamp % 256;
+    timestamp = Math.floor(timestamp / 256);
+  }
+  bytes[6] = (bytes[6] & 0x0f) | 0x70;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  return formatUuid(bytes);
+};
+
+const parseBound = (value: string | undefined, fallback: number) => {
+  const parsed = Number.parseInt(value ?? "", 10);
+  return Number.isNaN(parsed) ? fallback : parsed;
+};
+
+export const DYNAMIC_VARIABLES: Record<string, DynamicVariable> = {
+  $uuid: {
+    description: "Random UUID v4",
+    usage: "{{$uuid}}",
+    generate: () => crypto.randomUUID(),
+  },
+  $uuidv7: {
+    description: "Time-ordered UUID v7",
+    usage: "{{$uuidv7}}",
+    generate: () => uuidV7(),
+  },
+  $timestamp: {
+    description: "Current Unix timestamp in seconds",
+    usage: "{{$timestamp}}",
+    generate: () => String(Math.floor(Date.now() / 1000)),
+  },
+  $timestampMs: {
+    description: "Current Unix timestamp in milliseconds",
+    usage: "{{$timestampMs}}",
+    generate: () => String(Date.now()),
+  },
+  $isoTimestamp: {
+    description: "Current time as ISO 8601 (UTC)",
+    usage: "{{$isoTimestamp}}",
+    generate: () => new Date().toISOString(),
+  },
+  $randomInt: {
+    description: "Random integer, 0–1000 unless bounds are given",
+    usage: "{{$randomInt 1 100}}",
+    generate: ([min, max]) => {
+      const low = parseBound(min, 0);
+      const high = parseBound(max, low + 1000);
+      return high < low ? undefined : String(randomInt(low, high));
+    },
+  },
+  $randomString: {
+    description: "Random alphanumeric string, 16 characters unless a length is given",
+    usage: "{{$randomString 8}}",
+    generate: ([length]) => randomString(Math.min(Math.max(parseBound(length, 16), 1), 1024)),
+  },
+  $randomEmail: {
+    description: "Random email address on example.com",
+    usage: "{{$randomEmail}}",
+    generate: () => `${randomString(10, "abcdefghijklmnopqrstuvwxyz0123456789")}@example.com`,
+  },
+  $base64: {
+    description: "Base64 of another variable's value",
+    usage: "{{$base64 variableName}}",
+    generate: ([name], { lookup }) => {
+      const value = name ? lookup(name) : undefined;
+      return value === undefined ? undefined : encodeBase64(value);
+    },
+  },
+};
+
+const splitExpression = (expression: string) => {
+  const [name, ...args] = expression.trim().split(/\s+/);
+  return { name, args };
+};
+
+// Own keys only, so names like "toString" aren't taken for generators.
+export const isDynamicVariable = (expression: string): boolean =>
+  Object.prototype.hasOwnProperty.call(DYNAMIC_VARIABLES, splitExpression(expression).name);
+
+export const evaluateDynamicVariable = (
+  expression: string,
+  context: DynamicVariableContext
+): string | undefined => {
+  if (!isDynamicVariable(expression)) return undefined;
+  const { name, args } = splitExpression(expression);
+  return DYNAMIC_VARIABLES[name].generate(args, context);
+};
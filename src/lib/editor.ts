@@ -0,0 +1,205 @@
+import { StreamLanguage } from "@codemirror/language";
+import { javascript } from "@codemirror/lang-javascript";
+import { json } from "@codemirror/lang-json";
+import { xml } from "@codemirror/lang-xml";
+import { shell } from "@codemirror/legacy-modes/mode/shell";
+import { python } from "@codemirror/legacy-modes/mode/python";
+import { go } from "@codemirror/legacy-modes/mode/go";
+import { csharp, java } from "@codemirror/legacy-modes/mode/clike";
+import { powerShell } from "@codemirror/legacy-modes/mode/powershell";
+import { linter, type Diagnostic } from "@codemirror/lint";
+import { autocompletion, type CompletionContext } from "@codemirror/autocomplete";
+import { Decoration, EditorView, MatchDecorator, ViewPlugin, type DecorationSet, type ViewUpdate } from "@codemirror/view";
+import type { Extension } from "@codemirror/state";
+import type { ParseErrorLocation } from "@/lib/format";
+import { getCompletions, type IntrospectionSchema } from "@/lib/graphql";
+import { isDefinedVariable, type VariableMap } from "@/lib/variables";
+
+export type EditorLanguage =
+  | "json"
+  | "xml"
+  | "text"
+  | "graphql"
+  | "typescript"
+  | "javascript"
+  | "shell"
+  | "python"
+  | "go"
+  | "java"
+  | "csharp"
+  | "powershell";
+
+const GRAPHQL_KEYWORDS = new Set(["query", "mutation", "subscription", "fragment", "on", "true", "false", "null"]);
+
+const graphqlLanguage = StreamLanguage.define({
+  name: "graphql",
+  token(stream) {
+    if (stream.eatSpace()) return null;
+    if (stream.match("#")) {
+      stream.skipToEnd();
+      return "comment";
+    }
+    if (stream.match(/^"(?:\\.|[^"\\])*"?/)) return "string";
+    if (stream.match(/^-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?/)) return "number";
+    if (stream.match(/^\$[_A-Za-z][_0-9A-Za-z]*/)) return "variableName";
+    if (stream.match(/^@[_A-Za-z][_0-9A-Za-z]*/)) return "meta";
+    const name = stream.match(/^[_A-Za-z][_0-9A-Za-z]*/) as RegExpMatchArray | null;
+    if (name) {
+      if (GRAPHQL_KEYWORDS.has(name[0])) return "keyword";
+      return /^[A-Z]/.test(name[0]) ? "typeName" : "propertyName";
+    }
+    if (stream.match(/^[{}()[\]]/)) return "bracket";
+    stream.next();
+    return "punctuation";
+  },
+  languageData: {
+    commentTokens: { line: "#" },
+    closeBrackets: { brackets: ["(", "[", "{", "\""] },
+  },
+});
+
+// Read-only highlighting for generated code snippets.
+const LEGACY_LANGUAGES = {
+  shell: StreamLanguage.define(shell),
+  python: StreamLanguage.define(python),
+  go: StreamLanguage.define(go),
+  java: StreamLanguage.define(java),
+  csharp: StreamLanguage.define(csharp),
+  powershell: StreamLanguage.define(powerShell),
+};
+
+export const languageExtension = (language: EditorLanguage): Extension => {
+  switch (language) {
+    case "json":
+      return json();
+    case "xml":
+      return xml();
+    case "graphql":
+      return graphqlLanguage;
+    case "typescript":
+      return javascript({ typescript: true });
+    case "javascript":
+      return javascript();
+    case "shell":
+    case "python":
+    case "go":
+    case "java":
+    case "csharp":
+    case "powershell":
+      return LEGACY_LANGUAGES[language];
+    default:
+      return [];
+  }
+};
+
+// Puts a lint marker where the parser says the document stopped making sense.
+export const parseErrorLinter = (parse: (text: string) => ParseErrorLocation | null): Extension =>
+  linter((view) => {
+    const text = view.state.doc.toString();
+    if (!text.trim()) return [];
+    const error = parse(text);
+    if (!error) return [];
+    const from = Math.min(error.offset, text.length);
+    const diagnostic: Diagnostic = {
+      from,
+      to: Math.min(from + 1, text.length),
+      severity: "error",
+      message: `Line ${error.line}, column ${error.column}: ${error.message}`,
+    };
+    return [diagnostic];
+  }, { delay: 300 });
+
+const COMPLETION_TYPES = {
+  field: "property",
+  argument: "variable",
+  type: "type",
+  value: "enum",
+  keyword: "keyword",
+  directive: "function",
+} as const;
+
+export const graphqlAutocomplete = (getSchema: () => IntrospectionSchema | undefined): Extension =>
+  autocompletion({
+    override: [
+      (context: CompletionContext) => {
+        const schema = getSchema();
+        if (!schema) return null;
+        const word = context.matchBefore(/[_A-Za-z][_0-9A-Za-z]*/);
+        if (!word && !context.explicit) return null;
+        const result = getCompletions(schema, context.state.doc.toString(), context.pos);
+        if (!result || result.options.length === 0) return null;
+        return {
+          from: result.from,
+          options: result.options.map((option) => ({
+            label: option.label,
+            type: COMPLETION_TYPES[option.kind],
+            detail: option.detail,
+            info: option.description ?? undefined,
+          })),
+          validFor: /^[_A-Za-z][_0-9A-Za-z]*$/,
+        };
+      },
+    ],
+  });
+
+const resolvedVariable = Decoration.mark({ class: "cm-variable" });
+const unresolvedVariable = Decoration.mark({ class: "cm-variable cm-variable-unresolved" });
+
+// Marks {{name}} placeholders, flagging the ones the active environment
+// doesn't define. Rebuilt whenever the variables change.
+export const variableHighlighter = (variables: VariableMap): Extension => {
+  const decorator = new MatchDecorator({
+    regexp: /\{\{\s*([^{}]+?)\s*\}\}/g,
+    decoration: (match) => (isDefinedVariable(match[1], variables) ? resolvedVariable : unresolvedVariable),
+  });
+  return ViewPlugin.fromClass(
+    class {
+      decorations: DecorationSet;
+      constructor(view: EditorView) {
+        this.decorations = decorator.createDeco(view);
+      }
+      update(update: ViewUpdate) {
+        this.decorations = decorator.updateDeco(update, this.decorations);
+      }
+    },
+    { decorations: (plugin) => plugin.decorations }
+  );
+};
+
+// Borrows the shadcn CSS variables so the editor follows the app theme.
+export const editorTheme = EditorView.theme({
+  "&": {
+    backgroundColor: "hsl(var(--background))",
+    color: "hsl(var(--foreground))",
+    fontSize: "0.875rem",
+  },
+  "&.cm-focused": {
+    outline: "2px solid hsl(var(--ring))",
+    outlineOffset: "2px",
+  },
+  ".cm-gutters": {
+    backgroundColor: "hsl(var(--muted))",
+    color: "hsl(var(--muted-foreground))",
+    borderRight: "1px solid hsl(var(--border))",
+  },
+  ".cm-activeLine, .cm-activeLineGutter": {
+    backgroundColor: "hsl(var(--muted) / 0.5)",
+  },
+  ".cm-tooltip": {
+    backgroundColor: "hsl(var(--popover))",
+    color: "hsl(var(--popover-foreground))",
+    border: "1px solid hsl(var(--border))",
+  },
+  ".cm-variable": {
+    color: "hsl(var(--primary))",
+    backgroundColor: "hsl(var(--muted))",
+    borderRadius: "2px",
+  },
+  ".cm-variable-unresolved": {
+    color: "hsl(var(--destructive))",
+    textDecoration: "underline wavy",
+  },
+  ".cm-content": {
+    fontFamily: "ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, monospace",
+  },
+});
@@ -0,0 +1,207 @@
+import type { RequestConfig } from "@/types/request";
+import type { ApiResponse } from "@/types/response";
+import { prepareRequest } from "@/lib/request";
+import { addHistoryEntry, createHistoryEntry } from "@/lib/history";
+import { evaluateAssertions } from "@/lib/assertions";
+import { applyScriptRequest, runPreRequestScript, runTestScript } from "@/lib/scripts";
+import {
+  applyVariableUpdates,
+  resolveRequestConfig,
+  resolveVariables,
+  type VariableMap,
+  type VariableUpdates,
+} from "@/lib/variables";
+
+export interface ExecuteOptions {
+  // Called with environment changes made by the pre-request and test scripts.
+  onVariableUpdates?: (updates: VariableUpdates) => void;
+  // Collection runs keep their results to themselves instead of flooding history.
+  addToHistory?: boolean;
+}
+
+export interface ExecuteResult {
+  response: ApiResponse;
+  errorDetails: string | null;
+  // The resolved URL, or the best guess at it when preparing the request failed.
+  sentUrl: string;
+}
+
+const formatErrorDetails = (error: any): string => {
+  let details = "";
+
+  if (error instanceof Error) {
+    details = `Error Type: ${error.name}\nMessage: ${error.message}`;
+
+    if (error.stack) {
+      details += `\n\nStack Trace:\n${error.stack}`;
+    }
+
+    if (error instanceof TypeError) {
+      details += "\n\nThis is a TypeError, which often occurs when:";
+      details += "\n- Trying to access properties of undefined or null";
+      details += "\n- Calling a non-function value";
+      details += "\n- Incompatible value types in an operation";
+    } else if (error instanceof SyntaxError) {
+      details += "\n\nThis is a SyntaxError, which typically occurs when:";
+      details += "\n- JSON parsing failed due to malformed data";
+      details += "\n- Invalid syntax in dynamic code evaluation";
+    } else if (error instanceof URIError) {
+      details += "\n\nThis is a URIError, which occurs when:";
+      details += "\n- Malformed URI components in encoding/decoding functions";
+    }
+  } else if (typeof error === 'object' && error !== null) {
+    details = "Error Object Properties:\n";
+    for (const key in error) {
+      try {
+        details += `${key}: ${JSON.stringify(error[key])}\n`;
+      } catch (e) {
+        details += `${key}: [Circular or non-serializable value]\n`;
+      }
+    }
+  } else {
+    details = `Unexpected error: ${String(error)}`;
+  }
+
+  return details;
+};
+
+const httpErrorDetails = (res: Response) => `HTTP Error ${res.status} (${res.statusText}): The server returned an error response.
+
+Common causes for HTTP ${res.status}:
+${res.status >= 400 && res.status < 500 ? '- Client-side error (invalid request parameters, authentication issues, etc.)' : ''}
+${res.status >= 500 ? '- Server-side error (internal errors, service unavailable, etc.)' : ''}
+${res.status === 401 ? '- Authentication required or failed' : ''}
+${res.status === 403 ? '- Insufficient permissions to access the resource' : ''}
+${res.status === 404 ? '- Resource not found at the specified endpoint' : ''}
+${res.status === 429 ? '- Rate limit exceeded (too many requests)' : ''}
+${res.status === 500 ? '- Internal server error (generic server failure)' : ''}
+${res.status === 502 ? '- Bad gateway (upstream server received an invalid response)' : ''}
+${res.status === 503 ? '- Service unavailable (server is overloaded or down for maintenance)' : ''}
+${res.status === 504 ? '- Gateway timeout (server didn\'t receive timely response from upstream server)' : ''}`;
+
+const recordHistory = (config: RequestConfig, sentUrl: string, response: ApiResponse) => {
+  addHistoryEntry(createHistoryEntry(config, sentUrl, response)).catch((error) =>
+    console.warn("Could not record request history:", error)
+  );
+};
+
+/**
+ * Runs one send end to end: pre-request script, the fetch itself, assertions
+ * and the test script. Failures never throw; they come back as an error
+ * response so every caller can show and record them the same way.
+ */
+export const executeRequest = async (
+  config: RequestConfig,
+  variables: VariableMap,
+  { onVariableUpdates, addToHistory = true }: ExecuteOptions = {}
+): Promise<ExecuteResult> => {
+  const startTime = Date.now();
+  let logs: string[] = [];
+  let sentUrl = resolveVariables(config.url, variables, { dynamic: false });
+
+  try {
+    let sendConfig = config;
+    let sendVariables = variables;
+
+    if (config.scripts.preRequest.trim()) {
+      const result = await runPreRequestScript(config, variables);
+      logs = result.logs;
+      if ("error" in result) {
+        const scriptError = new Error(`Pre-request script failed: ${result.error.message}`);
+        scriptError.stack = result.error.stack;
+        throw scriptError;
+      }
+      sendConfig = applyScriptRequest(config, result.request);
+      sendVariables = applyVariableUpdates(variables, result.variableUpdates);
+      onVariableUpdates?.(result.variableUpdates);
+    }
+
+    const prepared = await prepareRequest(resolveRequestConfig(sendConfig, sendVariables));
+    sentUrl = prepared.url;
+
+    const res = await fetch(prepared.url, prepared.init);
+    const endTime = Date.now();
+
+    const responseHeaders: Record<string, string> = {};
+    res.headers.forEach((value, key) => {
+      responseHeaders[key] = value;
+    });
+
+    let data;
+    let size: number | undefined;
+    let parseError = null;
+    const contentType = res.headers.get('content-type');
+
+    try {
+      const text = await res.text();
+      size = new Blob([text]).size;
+      if (contentType && contentType.includes('application/json')) {
+        data = JSON.parse(text);
+      } else {
+        data = text;
+
+        if (typeof data === 'string' &&
+            (data.trim().startsWith('{') || data.trim().startsWith('['))) {
+          try {
+            data = JSON.parse(data);
+          } catch (e) {
+            console.log("Response looks like JSON but couldn't be parsed:", e);
+          }
+        }
+      }
+    } catch (e) {
+      parseError = e as Error;
+      data = `Failed to parse response: ${parseError.message}`;
+    }
+
+    const response: ApiResponse = {
+      status: res.status,
+      statusText: res.statusText,
+      headers: responseHeaders,
+      data,
+      time: endTime - startTime,
+      size,
+      logs,
+    };
+
+    if (config.assertions.length > 0) {
+      response.assertions = evaluateAssertions(config.assertions, response, sendVariables);
+    }
+
+    if (config.scripts.test.trim()) {
+      const result = await runTestScript(config.scripts.test, response, sendVariables);
+      response.logs = [...logs, ...result.logs];
+      response.tests = result.tests ?? [];
+      if ("error" in result) {
+        response.tests.push({ name: "Test script", passed: false, message: result.error.message });
+      } else {
+        onVariableUpdates?.(result.variableUpdates);
+      }
+    }
+
+    if (addToHistory) recordHistory(config, sentUrl, response);
+    return { response, errorDetails: res.ok ? null : httpErrorDetails(res), sentUrl };
+  } catch (error) {
+    console.error("Request error:", error);
+
+    const errorObj = error as Error;
+    const detailedError = formatErrorDetails(errorObj);
+
+    const response: ApiResponse = {
+      status: 0,
+      statusText: "Error",
+      headers: {},
+      data: errorObj.message || "Unknown error occurred",
+      time: Date.now() - startTime,
+      error: {
+        message: errorObj.message || "Unknown error occurred",
+        stack: errorObj.stack,
+        type: errorObj.name,
+        details: detailedError
+      },
+      logs,
+    };
+    if (addToHistory) recordHistory(config, sentUrl, response);
+    return { response, errorDetails: detailedError, sentUrl };
+  }
+};
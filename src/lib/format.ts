@@ -0,0 +1,227 @@
+export interface ParseErrorLocation {
+  message: string;
+  offset: number;
+  // 1-based, like editors show them.
+  line: number;
+  column: number;
+}
+
+const offsetToLineColumn = (text: string, offset: number) => {
+  const before = text.slice(0, offset);
+  const lines = before.split("\n");
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+};
+
+const lineColumnToOffset = (text: string, line: number, column: number) => {
+  const lines = text.split("\n");
+  let offset = 0;
+  for (let i = 0; i < line - 1 && i < lines.length; i++) {
+    offset += lines[i].length + 1;
+  }
+  return Math.min(offset + column - 1, text.length);
+};
+
+// Walks the document the way a JSON parser would and returns the offset of
+// the first character it cannot accept. Used when the engine's message
+// carries no position (V8 drops it for some "Unexpected token" errors).
+const scanJsonErrorOffset = (text: string): number => {
+  let i = 0;
+  const fail = (): never => {
+    throw i;
+  };
+  const skipWhitespace = () => {
+    while (i < text.length && /\s/.test(text[i])) i++;
+  };
+  const expect = (literal: string) => {
+    for (const char of literal) {
+      if (text[i] !== char) fail();
+      i++;
+    }
+  };
+  const parseString = () => {
+    expect("\"");
+    while (i < text.length && text[i] !== "\"") {
+      if (text[i] === "\\") {
+        i++;
+        if (text[i] === "u") {
+          i++;
+          for (let n = 0; n < 4; n++) {
+            if (!/[0-9a-fA-F]/.test(text[i] ?? "")) fail();
+            i++;
+          }
+          continue;
+        }
+        if (!"\"\\/bfnrt".includes(text[i] ?? "x")) fail();
+      } else if (text.charCodeAt(i) < 0x20) {
+        fail();
+      }
+      i++;
+    }
+    expect("\"");
+  };
+  const parseValue = (): void => {
+    skipWhitespace();
+    const char = text[i];
+    if (char === "{") {
+      i++;
+      skipWhitespace();
+      if (text[i] === "}") {
+        i++;
+        return;
+      }
+      for (;;) {
+        skipWhitespace();
+        parseString();
+        skipWhitespace();
+        expect(":");
+        parseValue();
+        skipWhitespace();
+        if (text[i] === ",") {
+          i++;
+        } else {
+          expect("}");
+          return;
+        }
+      }
+    } else if (char === "[") {
+      i++;
+      skipWhitespace();
+      if (text[i] === "]") {
+        i++;
+        return;
+      }
+      for (;;) {
+        parseValue();
+        skipWhitespace();
+        if (text[i] === ",") {
+          i++;
+        } else {
+          expect("]");
+          return;
+        }
+      }
+    } else if (char === "\"") {
+      parseString();
+    } else if (char === "t") {
+      expect("true");
+    } else if (char === "f") {
+      expect("false");
+    } else if (char === "n") {
+      expect("null");
+    } else {
+      const number = /^-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/.exec(text.slice(i));
+      if (!number) fail();
+      i += number[0].length;
+    }
+  };
+
+  try {
+    parseValue();
+    skipWhitespace();
+    if (i < text.length) fail();
+    return text.length;
+  } catch (offset) {
+    return Math.min(offset as number, text.length);
+  }
+};
+
+/**
+ * Locates a JSON syntax error from the message JSON.parse produced.
+ * Chromium reports "at position N" (newer versions add line and column),
+ * Firefox "at line L column C"; otherwise the offset is found by scanning.
+ */
+export const parseJsonError = (text: string): ParseErrorLocation | null => {
+  try {
+    JSON.parse(text);
+    return null;
+  } catch (e) {
+    const message = (e as Error).message;
+    const lineColumn = /line (\d+) column (\d+)/.exec(message);
+    const position = /at position (\d+)/.exec(message);
+    let offset: number;
+    if (lineColumn) {
+      offset = lineColumnToOffset(text, Number(lineColumn[1]), Number(lineColumn[2]));
+    } else if (position) {
+      offset = Math.min(Number(position[1]), text.length);
+    } else {
+      offset = scanJsonErrorOffset(text);
+    }
+    return { message, offset, ...offsetToLineColumn(text, offset) };
+  }
+};
+
+export const formatJson = (text: string): string => JSON.stringify(JSON.parse(text), null, 2);
+
+export const minifyJson = (text: string): string => JSON.stringify(JSON.parse(text));
+
+export const parseXmlError = (text: string): ParseErrorLocation | null => {
+  const doc = new DOMParser().parseFromString(text, "application/xml");
+  const error = doc.querySelector("parsererror");
+  if (!error) return null;
+  const message = error.textContent?.trim() || "XML parse error";
+  // Chromium: "error on line 3 at column 5", Firefox: "Line Number 3, Column 5"
+  const location = /line (\d+) at column (\d+)/i.exec(message) || /Line Number (\d+), Column (\d+)/i.exec(message);
+  const offset = location ? lineColumnToOffset(text, Number(location[1]), Number(location[2])) : text.length;
+  return { message, offset, ...offsetToLineColumn(text, offset) };
+};
+
+const serializeXmlNode = (node: Node, depth: number, indent: string): string => {
+  const pad = indent.repeat(depth);
+  switch (node.nodeType) {
+    case Node.ELEMENT_NODE: {
+      const element = node as Element;
+      const attributes = Array.from(element.attributes)
+        .map((attr) => ` ${attr.name}="${attr.value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;")}"`)
+        .join("");
+      const children = Array.from(element.childNodes).filter(
+        (child) => child.nodeType !== Node.TEXT_NODE || child.textContent?.trim()
+      );
+      if (children.length === 0) {
+        return `${pad}<${element.tagName}${attributes}/>`;
+      }
+      if (children.length === 1 && children[0].nodeType === Node.TEXT_NODE) {
+        const text = new XMLSerializer().serializeToString(children[0]).trim();
+        return `${pad}<${element.tagName}${attributes}>${text}</${element.tagName}>`;
+      }
+      const inner = children.map((child) => serializeXmlNode(child, depth + 1, indent)).join("\n");
+      return `${pad}<${element.tagName}${attributes}>\n${inner}\n${pad}</${element.tagName}>`;
+    }
+    case Node.TEXT_NODE:
+      return `${pad}${new XMLSerializer().serializeToString(node).trim()}`;
+    default:
+      return `${pad}${new XMLSerializer().serializeToString(node)}`;
+  }
+};
+
+const parseXmlDocument = (text: string): Document => {
+  const error = parseXmlError(text);
+  if (error) {
+    throw new Error(`line ${error.line}, column ${error.column}: ${error.message}`);
+  }
+  return new DOMParser().parseFromString(text, "application/xml");
+};
+
+const xmlDeclaration = (text: string) => /^\s*(<\?xml[^?]*\?>)/.exec(text)?.[1];
+
+export const formatXml = (text: string): string => {
+  const doc = parseXmlDocument(text);
+  const nodes = Array.from(doc.childNodes).map((node) => serializeXmlNode(node, 0, "  "));
+  const declaration = xmlDeclaration(text);
+  return [...(declaration ? [declaration] : []), ...nodes].join("\n");
+};
+
+export const minifyXml = (text: string): string => {
+  const doc = parseXmlDocument(text);
+  const strip = (node: Node) => {
+    for (const child of Array.from(node.childNodes)) {
+      if (child.nodeType === Node.TEXT_NODE && !child.textContent?.trim()) {
+        node.removeChild(child);
+      } else {
+        strip(child);
+      }
+    }
+  };
+  strip(doc);
+  const declaration = xmlDeclaration(text);
+  return `${declaration ?? ""}${new XMLSerializer().serializeToString(doc)}`;
+};
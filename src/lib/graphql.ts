@@ -0,0 +1,398 @@
+import type { RequestConfig } from "@/types/request";
+import { prepareRequest } from "@/lib/request";
+
+export interface IntrospectionTypeRef {
+  kind: string;
+  name: string | null;
+  ofType: IntrospectionTypeRef | null;
+}
+
+export interface IntrospectionInputValue {
+  name: string;
+  description: string | null;
+  type: IntrospectionTypeRef;
+  defaultValue: string | null;
+}
+
+export interface IntrospectionField {
+  name: string;
+  description: string | null;
+  args: IntrospectionInputValue[];
+  type: IntrospectionTypeRef;
+  isDeprecated: boolean;
+  deprecationReason: string | null;
+}
+
+export interface IntrospectionType {
+  kind: string;
+  name: string;
+  description: string | null;
+  fields: IntrospectionField[] | null;
+  inputFields: IntrospectionInputValue[] | null;
+  interfaces: IntrospectionTypeRef[] | null;
+  enumValues: { name: string; description: string | null; isDeprecated: boolean }[] | null;
+  possibleTypes: IntrospectionTypeRef[] | null;
+}
+
+export interface IntrospectionDirective {
+  name: string;
+  description: string | null;
+  args: IntrospectionInputValue[];
+}
+
+export interface IntrospectionSchema {
+  queryType: { name: string } | null;
+  mutationType: { name: string } | null;
+  subscriptionType: { name: string } | null;
+  types: IntrospectionType[];
+  directives: IntrospectionDirective[];
+}
+
+export interface GraphQLError {
+  message: string;
+  path?: (string | number)[];
+  locations?: { line: number; column: number }[];
+  extensions?: Record<string, unknown>;
+}
+
+const TYPE_REF_FRAGMENT = `
+fragment TypeRef on __Type {
+  kind name
+  ofType { kind name ofType { kind name ofType { kind name ofType { kind name ofType { kind name ofType { kind name ofType { kind name } } } } } } }
+}`;
+
+export const INTROSPECTION_QUERY = `
+query IntrospectionQuery {
+  __schema {
+    queryType { name }
+    mutationType { name }
+    subscriptionType { name }
+    types { ...FullType }
+    directives { name description args { ...InputValue } }
+  }
+}
+fragment FullType on __Type {
+  kind name description
+  fields(includeDeprecated: true) {
+    name description
+    args { ...InputValue }
+    type { ...TypeRef }
+    isDeprecated deprecationReason
+  }
+  inputFields { ...InputValue }
+  interfaces { ...TypeRef }
+  enumValues(includeDeprecated: true) { name description isDeprecated }
+  possibleTypes { ...TypeRef }
+}
+fragment InputValue on __InputValue {
+  name description
+  type { ...TypeRef }
+  defaultValue
+}
+${TYPE_REF_FRAGMENT}`.trim();
+
+export const getGraphQLErrors = (data: unknown): GraphQLError[] => {
+  if (data && typeof data === "object" && Array.isArray((data as { errors?: unknown }).errors)) {
+    return (data as { errors: GraphQLError[] }).errors;
+  }
+  return [];
+};
+
+// Schemas are kept per endpoint so they survive the editor unmounting.
+const schemaCache = new Map<string, IntrospectionSchema>();
+
+export const getCachedSchema = (endpoint: string) => schemaCache.get(endpoint);
+
+/**
+ * Runs the introspection query against the request's endpoint, reusing its
+ * headers and auth so protected APIs can be explored too.
+ */
+export const introspectSchema = async (config: RequestConfig): Promise<IntrospectionSchema> => {
+  const prepared = await prepareRequest({
+    ...config,
+    method: "POST",
+    body: { ...config.body, mode: "graphql", graphql: { query: INTROSPECTION_QUERY, variables: "" } },
+  });
+  const res = await fetch(prepared.url, prepared.init);
+  let payload: { data?: { __schema?: IntrospectionSchema } };
+  try {
+    payload = await res.json();
+  } catch {
+    throw new Error(`Introspection failed: HTTP ${res.status} did not return JSON`);
+  }
+
+  const errors = getGraphQLErrors(payload);
+  if (errors.length > 0) {
+    throw new Error(`Introspection failed: ${errors.map((error) => error.message).join("; ")}`);
+  }
+  if (!payload.data?.__schema) {
+    throw new Error(`Introspection failed: HTTP ${res.status} response has no data.__schema`);
+  }
+
+  schemaCache.set(config.url, payload.data.__schema);
+  return payload.data.__schema;
+};
+
+export const namedType = (ref: IntrospectionTypeRef | null): string | null => {
+  let current = ref;
+  while (current && current.ofType) {
+    current = current.ofType;
+  }
+  return current?.name ?? null;
+};
+
+export const formatTypeRef = (ref: IntrospectionTypeRef): string => {
+  if (ref.kind === "NON_NULL" && ref.ofType) return `${formatTypeRef(ref.ofType)}!`;
+  if (ref.kind === "LIST" && ref.ofType) return `[${formatTypeRef(ref.ofType)}]`;
+  return ref.name ?? "";
+};
+
+export const findType = (schema: IntrospectionSchema, name: string | null) =>
+  name ? schema.types.find((type) => type.name === name) : undefined;
+
+export const isBuiltinType = (type: IntrospectionType) => type.name.startsWith("__");
+
+// --- Autocomplete -----------------------------------------------------------
+
+export type CompletionKind = "field" | "argument" | "type" | "value" | "keyword" | "directive";
+
+export interface GraphQLCompletion {
+  label: string;
+  kind: CompletionKind;
+  detail?: string;
+  description?: string | null;
+}
+
+export interface GraphQLCompletionResult {
+  // Offset where the word being completed starts.
+  from: number;
+  options: GraphQLCompletion[];
+}
+
+type Token = { type: "name" | "punct" | "value"; text: string };
+
+type Context =
+  | { kind: "document" }
+  | { kind: "selection"; typeName: string | null }
+  | { kind: "arguments"; args: IntrospectionInputValue[] }
+  | { kind: "object"; fields: IntrospectionInputValue[] }
+  | { kind: "list"; itemType: string | null }
+  | { kind: "variables" };
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  const pattern = /#[^\n]*|"""[\s\S]*?(?:"""|$)|"(?:\\.|[^"\\\n])*"?|\.\.\.|-?\d+(?:\.\d+)?(?:[eE][+-]?\d+)?|[_A-Za-z][_0-9A-Za-z]*|[{}()[\]:!$@=|&]/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    const text = match[0];
+    if (text.startsWith("#")) continue;
+    if (text.startsWith("\"") || /^-?\d/.test(text)) {
+      tokens.push({ type: "value", text });
+    } else if (/^[_A-Za-z]/.test(text)) {
+      tokens.push({ type: "name", text });
+    } else {
+      tokens.push({ type: "punct", text });
+    }
+  }
+  return tokens;
+};
+
+// True when the offset sits inside a string or a comment.
+const inLiteral = (source: string): boolean => {
+  const pattern = /#[^\n]*|"""[\s\S]*?(?:"""|$)|"(?:\\.|[^"\\\n])*"?/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    const text = match[0];
+    if (match.index + text.length < source.length) continue;
+    if (text.startsWith("#")) return true;
+    if (text.startsWith("\"\"\"")) return text.length < 6 || !text.endsWith("\"\"\"");
+    return text.length < 2 || !text.endsWith("\"");
+  }
+  return false;
+};
+
+const fieldsOf = (schema: IntrospectionSchema, typeName: string | null) =>
+  findType(schema, typeName)?.fields ?? [];
+
+/**
+ * Works out what can be typed at `cursor` by replaying the document up to
+ * that point: selection sets resolve to object types, parentheses to field
+ * or directive arguments and braces inside arguments to input objects.
+ */
+export const getCompletions = (
+  schema: IntrospectionSchema,
+  source: string,
+  cursor: number
+): GraphQLCompletionResult | null => {
+  const before = source.slice(0, cursor);
+  if (inLiteral(before)) return null;
+
+  const prefix = /[_A-Za-z][_0-9A-Za-z]*$/.exec(before)?.[0] ?? "";
+  const from = cursor - prefix.length;
+  const tokens = tokenize(before.slice(0, from));
+
+  const stack: Context[] = [{ kind: "document" }];
+  let operation = "query";
+  let fragmentType: string | null = null;
+  let lastField: IntrospectionField | null = null;
+  let lastArg: IntrospectionInputValue | null = null;
+  let pendingTypeCondition: string | null = null;
+  let lastDirective: IntrospectionDirective | null = null;
+  let previous: Token | null = null;
+
+  const top = () => stack[stack.length - 1];
+  const inputFieldsOf = (typeName: string | null) => findType(schema, typeName)?.inputFields ?? [];
+
+  for (const token of tokens) {
+    const context = top();
+    const prev = previous;
+    previous = token;
+
+    if (token.type === "name") {
+      if (prev?.text === "@") {
+        lastDirective = schema.directives.find((d) => d.name === token.text) ?? null;
+        continue;
+      }
+      lastDirective = null;
+      if (context.kind === "document") {
+        if (["query", "mutation", "subscription", "fragment"].includes(token.text) && prev?.text !== "on") {
+          operation = token.text;
+        } else if (prev?.text === "on") {
+          fragmentType = token.text;
+        }
+      } else if (context.kind === "selection") {
+        if (prev?.text === "on") {
+          pendingTypeCondition = token.text;
+        } else if (prev?.text !== "...") {
+          lastField = fieldsOf(schema, context.typeName).find((f) => f.name === token.text) ?? null;
+        }
+      } else if (context.kind === "arguments" || context.kind === "object") {
+        const candidates = context.kind === "arguments" ? context.args : context.fields;
+        if (prev?.text !== ":") {
+          lastArg = candidates.find((arg) => arg.name === token.text) ?? null;
+        }
+      }
+      continue;
+    }
+
+    switch (token.text) {
+      case "{": {
+        if (context.kind === "document") {
+          const root =
+            operation === "fragment"
+              ? fragmentType
+              : operation === "mutation"
+                ? schema.mutationType?.name
+                : operation === "subscription"
+                  ? schema.subscriptionType?.name
+                  : schema.queryType?.name;
+          stack.push({ kind: "selection", typeName: root ?? null });
+          operation = "query";
+          fragmentType = null;
+        } else if (context.kind === "selection") {
+          const typeName = pendingTypeCondition ?? namedType(lastField?.type ?? null);
+          stack.push({ kind: "selection", typeName });
+          pendingTypeCondition = null;
+          lastField = null;
+        } else if (context.kind === "list") {
+          stack.push({ kind: "object", fields: inputFieldsOf(context.itemType) });
+        } else {
+          stack.push({ kind: "object", fields: inputFieldsOf(namedType(lastArg?.type ?? null)) });
+        }
+        break;
+      }
+      case "(": {
+        if (context.kind === "document") {
+          stack.push({ kind: "variables" });
+        } else if (lastDirective) {
+          stack.push({ kind: "arguments", args: lastDirective.args });
+        } else {
+          stack.push({ kind: "arguments", args: lastField?.args ?? [] });
+        }
+        lastDirective = null;
+        break;
+      }
+      case "[": {
+        if (context.kind === "arguments" || context.kind === "object" || context.kind === "list") {
+          stack.push({ kind: "list", itemType: namedType(lastArg?.type ?? null) });
+        }
+        break;
+      }
+      case "}":
+      case ")":
+      case "]": {
+        if (stack.length > 1) stack.pop();
+        break;
+      }
+    }
+  }
+
+  const context = top();
+  const last = previous?.text;
+  const matches = (label: string) => label.toLowerCase().startsWith(prefix.toLowerCase());
+  const finish = (options: GraphQLCompletion[]) => ({ from, options: options.filter((o) => matches(o.label)) });
+
+  if (last === "@") {
+    return finish(
+      schema.directives.map((d) => ({ label: d.name, kind: "directive" as const, description: d.description }))
+    );
+  }
+
+  const typeNames = (kinds: string[]) =>
+    schema.types
+      .filter((type) => kinds.includes(type.kind) && !isBuiltinType(type))
+      .map((type) => ({ label: type.name, kind: "type" as const, detail: type.kind, description: type.description }));
+
+  switch (context.kind) {
+    case "document":
+      if (last === "on") return finish(typeNames(["OBJECT", "INTERFACE", "UNION"]));
+      return finish(
+        ["query", "mutation", "subscription", "fragment"].map((label) => ({ label, kind: "keyword" as const }))
+      );
+    case "variables":
+      if (last === ":" || last === "[") return finish(typeNames(["SCALAR", "ENUM", "INPUT_OBJECT"]));
+      return null;
+    case "selection": {
+      if (last === "on") return finish(typeNames(["OBJECT", "INTERFACE", "UNION"]));
+      if (last === "...") return finish([{ label: "on", kind: "keyword" }]);
+      const fields: GraphQLCompletion[] = fieldsOf(schema, context.typeName).map((field) => ({
+        label: field.name,
+        kind: "field",
+        detail: formatTypeRef(field.type),
+        description: field.deprecationReason ? `Deprecated: ${field.deprecationReason}` : field.description,
+      }));
+      return finish([...fields, { label: "__typename", kind: "field", detail: "String!" }]);
+    }
+    case "arguments":
+    case "object":
+    case "list": {
+      if (context.kind === "list" || last === ":") {
+        const typeName = context.kind === "list" ? context.itemType : namedType(lastArg?.type ?? null);
+        const type = findType(schema, typeName);
+        if (type?.kind === "ENUM") {
+          return finish(
+            (type.enumValues ?? []).map((value) => ({
+              label: value.name,
+              kind: "value" as const,
+              detail: type.name,
+              description: value.description,
+            }))
+          );
+        }
+        if (typeName === "Boolean") {
+          return finish(["true", "false"].map((label) => ({ label, kind: "value" as const })));
+        }
+        return null;
+      }
+      const candidates = context.kind === "arguments" ? context.args : context.fields;
+      return finish(
+        candidates.map((arg) => ({
+          label: arg.name,
+          kind: "argument" as const,
+          detail: formatTypeRef(arg.type),
+          description: arg.description,
+        }))
+      );
+    }
+  }
+};
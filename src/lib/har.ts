@@ -0,0 +1,339 @@
+import type { Collection, CollectionItem, ResponseExample } from "@/types/collection";
+import type { HistoryEntry } from "@/types/history";
+import type { HttpMethod, KeyValueRow, RequestBodyConfig, RequestConfig } from "@/types/request";
+import { createCollection, createFolder, createSavedRequest } from "@/lib/collections";
+import { createDefaultBody, createMultipartRow, defaultContentType, methodAllowsBody } from "@/lib/body";
+import { isForbiddenHeader } from "@/lib/headers";
+import { createRow } from "@/lib/key-value";
+import { createDefaultRequest, HTTP_METHODS } from "@/lib/request";
+
+// The HAR 1.2 structures written and read here
+// (http://www.softwareishard.com/blog/har-12-spec/).
+
+interface HarNameValue {
+  name: string;
+  value: string;
+}
+
+interface HarPostParam {
+  name: string;
+  value?: string;
+  fileName?: string;
+  contentType?: string;
+}
+
+interface HarPostData {
+  mimeType: string;
+  text?: string;
+  params?: HarPostParam[];
+}
+
+interface HarRequest {
+  method: string;
+  url: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  queryString: HarNameValue[];
+  postData?: HarPostData;
+  headersSize: number;
+  bodySize: number;
+}
+
+interface HarResponse {
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  cookies: HarNameValue[];
+  headers: HarNameValue[];
+  content: { size: number; mimeType: string; text?: string; encoding?: string; comment?: string };
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+  // Chrome's field for requests that failed without a response.
+  _error?: string;
+}
+
+interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: HarRequest;
+  response: HarResponse;
+  cache: Record<string, never>;
+  timings: { blocked: number; dns: number; connect: number; ssl: number; send: number; wait: number; receive: number };
+  comment?: string;
+  // Chrome's resource type: "fetch", "xhr", "document", "image"...
+  _resourceType?: string;
+}
+
+export interface Har {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    pages?: { title?: string }[];
+    entries: HarEntry[];
+  };
+}
+
+const CREATOR = { name: "API Simplicity Wizard", version: "1.0" };
+
+const toPairs = (rows: KeyValueRow[]): HarNameValue[] =>
+  rows.filter((row) => row.enabled && row.key).map((row) => ({ name: row.key, value: row.value }));
+
+const queryString = (url: string): HarNameValue[] => {
+  try {
+    return [...new URL(url).searchParams].map(([name, value]) => ({ name, value }));
+  } catch {
+    return [];
+  }
+};
+
+const postData = (request: RequestConfig): HarPostData | undefined => {
+  const { body } = request;
+  const contentType =
+    request.headers.find((row) => row.enabled && row.key.toLowerCase() === "content-type")?.value ?? defaultContentType(body);
+  switch (body.mode) {
+    case "json":
+    case "text":
+    case "xml":
+      return body.raw ? { mimeType: contentType ?? "text/plain", text: body.raw } : undefined;
+    case "urlencoded": {
+      const params = toPairs(body.urlencoded);
+      return {
+        mimeType: contentType ?? "application/x-www-form-urlencoded",
+        params,
+        text: new URLSearchParams(params.map((param) => [param.name, param.value])).toString(),
+      };
+    }
+    case "multipart":
+      return {
+        mimeType: "multipart/form-data",
+        params: body.multipart
+          .filter((row) => row.enabled && row.key)
+          .map((row) => (row.type === "file" ? { name: row.key, fileName: row.key } : { name: row.key, value: row.value })),
+      };
+    case "graphql": {
+      if (!body.graphql.query.trim()) return undefined;
+      let variables: unknown;
+      try {
+        variables = body.graphql.variables.trim() ? JSON.parse(body.graphql.variables) : undefined;
+      } catch {
+        variables = body.graphql.variables;
+      }
+      return { mimeType: "application/json", text: JSON.stringify({ query: body.graphql.query, variables }) };
+    }
+    case "binary":
+      return { mimeType: contentType ?? "application/octet-stream", text: "" };
+    default:
+      return undefined;
+  }
+};
+
+// History keeps the total time to the response headers and nothing finer,
+// so that is reported as waiting and the phases we don't know as -1.
+const historyEntryToHar = (entry: HistoryEntry): HarEntry => {
+  const { request, response } = entry;
+  const headers = toPairs(request.headers);
+  const data = methodAllowsBody(request.method) ? postData(request) : undefined;
+  if (data && !headers.some((header) => header.name.toLowerCase() === "content-type")) {
+    headers.push({ name: "Content-Type", value: data.mimeType });
+  }
+  return {
+    startedDateTime: new Date(entry.timestamp - response.time).toISOString(),
+    time: response.time,
+    request: {
+      method: request.method,
+      url: entry.url,
+      httpVersion: "HTTP/1.1",
+      cookies: [],
+      headers,
+      queryString: queryString(entry.url),
+      ...(data ? { postData: data } : {}),
+      headersSize: -1,
+      bodySize: data?.text !== undefined ? new TextEncoder().encode(data.text).length : -1,
+    },
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      httpVersion: "HTTP/1.1",
+      cookies: [],
+      headers: Object.entries(response.headers).map(([name, value]) => ({ name, value })),
+      content: {
+        size: response.size ?? new TextEncoder().encode(response.body).length,
+        mimeType: response.headers["content-type"] ?? "",
+        text: response.body,
+        ...(response.bodyTruncated ? { comment: "The body was cut short when it was recorded." } : {}),
+      },
+      redirectURL: response.headers.location ?? "",
+      headersSize: -1,
+      bodySize: response.size ?? -1,
+      ...(response.error ? { _error: response.error } : {}),
+    },
+    cache: {},
+    timings: { blocked: -1, dns: -1, connect: -1, ssl: -1, send: 0, wait: response.time, receive: 0 },
+    comment: response.error,
+  };
+};
+
+/**
+ * Writes history entries as a HAR log, oldest first as browsers do. The URL
+ * is the one that was sent; headers and bodies are the editor's, so
+ * {{variables}} in them stay unresolved and secrets aren't written out.
+ */
+export const historyToHar = (entries: HistoryEntry[]): Har => ({
+  log: {
+    version: "1.2",
+    creator: CREATOR,
+    entries: [...entries].sort((a, b) => a.timestamp - b.timestamp).map(historyEntryToHar),
+  },
+});
+
+export interface HarImportEntry {
+  id: string;
+  // "GET /path", for lists and saved request names.
+  name: string;
+  host: string;
+  request: RequestConfig;
+  example: ResponseExample | null;
+  // Chrome's resource type, or "" when the file doesn't say.
+  resourceType: string;
+}
+
+export interface HarImport {
+  title: string;
+  entries: HarImportEntry[];
+  warnings: string[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const isHar = (document: unknown): document is Har =>
+  isObject(document) && isObject(document.log) && Array.isArray(document.log.entries);
+
+const TEXT_TYPES = /json|xml|text\/|javascript|x-www-form-urlencoded|graphql/i;
+
+const decodeBase64Text = (text: string) => {
+  const binary = atob(text);
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+};
+
+const bodyFromPostData = (data: HarPostData | undefined, headers: KeyValueRow[]): [RequestBodyConfig, KeyValueRow[]] => {
+  const body = createDefaultBody();
+  if (!data) return [body, headers];
+  const mimeType = data.mimeType.toLowerCase();
+  const withoutContentType = headers.filter((row) => row.key.toLowerCase() !== "content-type");
+  if (mimeType.startsWith("application/x-www-form-urlencoded")) {
+    const params = data.params?.length
+      ? data.params.map((param) => createRow(param.name, param.value ?? ""))
+      : [...new URLSearchParams(data.text ?? "")].map(([key, value]) => createRow(key, value));
+    return [{ ...body, mode: "urlencoded", urlencoded: params }, withoutContentType];
+  }
+  if (mimeType.startsWith("multipart/form-data") && data.params) {
+    const rows = data.params.map((param) => ({
+      ...createMultipartRow(),
+      key: param.name,
+      value: param.fileName ? "" : (param.value ?? ""),
+      type: param.fileName ? ("file" as const) : ("text" as const),
+    }));
+    // FormData sets its own boundary.
+    return [{ ...body, mode: "multipart", multipart: rows }, withoutContentType];
+  }
+  if (!data.text) return [body, headers];
+  return [
+    { ...body, mode: mimeType.includes("json") ? "json" : mimeType.includes("xml") ? "xml" : "text", raw: data.text },
+    headers,
+  ];
+};
+
+const responseExample = (response: HarResponse | undefined, name: string): ResponseExample | null => {
+  if (!response || !response.status) return null;
+  const headers: Record<string, string> = {};
+  for (const header of response.headers ?? []) {
+    const key = header.name.toLowerCase();
+    headers[key] = key in headers ? `${headers[key]}, ${header.value}` : header.value;
+  }
+  const { text = "", encoding, mimeType = "" } = response.content ?? {};
+  let body = "";
+  if (TEXT_TYPES.test(mimeType) || !mimeType) {
+    try {
+      body = encoding === "base64" ? decodeBase64Text(text) : text;
+    } catch {
+      body = "";
+    }
+  }
+  return { id: crypto.randomUUID(), name, status: response.status, statusText: response.statusText ?? "", headers, body };
+};
+
+/**
+ * Reads a HAR file, e.g. one saved from the browser's network panel, into
+ * requests that can be opened or saved. Headers the browser manages itself
+ * are left out, and recorded responses are kept as examples.
+ */
+export const parseHar = (text: string): HarImport => {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`The file isn't valid JSON: ${(e as Error).message}`);
+  }
+  if (!isHar(document)) throw new Error("This isn't a HAR file; it has no log.entries.");
+
+  const warnings: string[] = [];
+  const skippedMethods = new Set<string>();
+  let droppedHeaders = false;
+  const entries = document.log.entries.flatMap((entry): HarImportEntry[] => {
+    // Hand-edited files can hold nulls in the entries list.
+    const method = entry?.request?.method?.toUpperCase() ?? "";
+    if (!HTTP_METHODS.includes(method as HttpMethod)) {
+      skippedMethods.add(method || "(none)");
+      return [];
+    }
+    let url: URL;
+    try {
+      url = new URL(entry.request.url);
+    } catch {
+      return [];
+    }
+    if (url.protocol !== "http:" && url.protocol !== "https:") return [];
+
+    const allHeaders = (entry.request.headers ?? []).map((header) => createRow(header.name, header.value));
+    const headers = allHeaders.filter((row) => !isForbiddenHeader(row.key));
+    droppedHeaders ||= headers.length < allHeaders.length;
+    const [body, requestHeaders] = bodyFromPostData(entry.request.postData, headers);
+    const name = `${method} ${url.pathname}`;
+    return [
+      {
+        id: crypto.randomUUID(),
+        name,
+        host: url.host,
+        request: { ...createDefaultRequest(), method: method as HttpMethod, url: url.href, headers: requestHeaders, body },
+        example: responseExample(entry.response, `Recorded ${entry.response?.status ?? ""}`.trim()),
+        resourceType: entry._resourceType ?? "",
+      },
+    ];
+  });
+
+  if (skippedMethods.size > 0) {
+    warnings.push(`Requests using ${[...skippedMethods].join(", ")} aren't supported and were left out.`);
+  }
+  if (droppedHeaders) {
+    warnings.push("Headers the browser sets itself, such as Cookie, Host and sec-*, were left out.");
+  }
+  const title = document.log.pages?.find((page) => page.title)?.title ?? "";
+  return { title, entries, warnings };
+};
+
+// One folder per host when the entries span several.
+export const harToCollection = (name: string, entries: HarImportEntry[]): Collection => {
+  const toItem = (entry: HarImportEntry) => {
+    const saved = createSavedRequest(entry.name, entry.request);
+    return entry.example ? { ...saved, examples: [entry.example] } : saved;
+  };
+  const hosts = [...new Set(entries.map((entry) => entry.host))];
+  const items: CollectionItem[] =
+    hosts.length > 1
+      ? hosts.map((host) => createFolder(host, entries.filter((entry) => entry.host === host).map(toItem)))
+      : entries.map(toItem);
+  return createCollection(name, items);
+};
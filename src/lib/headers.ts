@@ -0,0 +1,50 @@
+import type { KeyValueRow } from "@/types/request";
+import { activeRows } from "@/lib/key-value";
+
+// Headers the browser controls itself; fetch silently drops them.
+const FORBIDDEN_HEADERS = new Set([
+  "accept-charset",
+  "accept-encoding",
+  "access-control-request-headers",
+  "access-control-request-method",
+  "connection",
+  "content-length",
+  "cookie",
+  "date",
+  "dnt",
+  "expect",
+  "host",
+  "keep-alive",
+  "origin",
+  "referer",
+  "te",
+  "trailer",
+  "transfer-encoding",
+  "upgrade",
+  "user-agent",
+  "via",
+]);
+
+// HTTP/2 pseudo-headers such as :authority come from captured traffic and aren't valid header names.
+export const isForbiddenHeader = (name: string): boolean => {
+  const lower = name.trim().toLowerCase();
+  return (
+    FORBIDDEN_HEADERS.has(lower) || lower.startsWith("proxy-") || lower.startsWith("sec-") || lower.startsWith(":")
+  );
+};
+
+/**
+ * Builds the exact header set passed to fetch. Duplicate keys are appended,
+ * so fetch combines them into a single comma-separated value.
+ */
+export const buildHeaders = (rows: KeyValueRow[]): Headers => {
+  const headers = new Headers();
+  for (const row of activeRows(rows)) {
+    try {
+      headers.append(row.key.trim(), row.value);
+    } catch (e) {
+      throw new Error(`Invalid header "${row.key}": ${(e as Error).message}`);
+    }
+  }
+  return headers;
+};
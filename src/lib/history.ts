@@ -0,0 +1,195 @@
+import type { HistoryEntry, HistoryRetention } from "@/types/history";
+import type { RequestConfig } from "@/types/request";
+import type { ApiResponse } from "@/types/response";
+import { toStoredRequest } from "@/lib/request";
+import { loadJson, saveJson } from "@/lib/storage";
+
+const DB_NAME = "api-simplicity-wizard";
+const DB_VERSION = 1;
+const STORE = "history";
+const RETENTION_KEY = "history-retention";
+
+// Bodies beyond this many characters are cut off before they are stored.
+export const MAX_HISTORY_BODY_LENGTH = 100_000;
+
+export const DEFAULT_RETENTION: HistoryRetention = { maxEntries: 500, maxAgeDays: 30 };
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const listeners = new Set<() => void>();
+let historyVersion = 0;
+
+const notify = () => {
+  historyVersion++;
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeHistory = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getHistoryVersion = () => historyVersion;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available in this browser."));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: "id" });
+        store.createIndex("timestamp", "timestamp");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Let a later call try again, e.g. after the user allows storage.
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return promisify(run(db.transaction(STORE, mode).objectStore(STORE)));
+};
+
+export const getRetention = (): HistoryRetention => ({ ...DEFAULT_RETENTION, ...loadJson(RETENTION_KEY, {}) });
+
+export const setRetention = async (retention: HistoryRetention) => {
+  saveJson(RETENTION_KEY, retention);
+  await pruneHistory(retention);
+};
+
+// Newest first.
+export const listHistory = async (): Promise<HistoryEntry[]> => {
+  const entries = await withStore<HistoryEntry[]>("readonly", (store) => store.index("timestamp").getAll());
+  return entries.reverse();
+};
+
+export const deleteHistoryEntry = async (id: string) => {
+  await withStore("readwrite", (store) => store.delete(id));
+  notify();
+};
+
+export const clearHistory = async () => {
+  await withStore("readwrite", (store) => store.clear());
+  notify();
+};
+
+// Deletes the entries the cursor visits, stopping after `limit` of them.
+const deleteFromCursor = (request: IDBRequest<IDBCursorWithValue | null>, limit = Infinity): Promise<number> =>
+  new Promise((resolve, reject) => {
+    let deleted = 0;
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor || deleted >= limit) {
+        resolve(deleted);
+        return;
+      }
+      cursor.delete();
+      deleted++;
+      cursor.continue();
+    };
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Drops entries older than the age limit, then the oldest beyond the count
+ * limit. Both walk the timestamp index from the oldest entry and visit only
+ * the entries they delete, so this stays cheap however long history grows.
+ */
+export const pruneHistory = async (retention: HistoryRetention = getRetention()) => {
+  const db = await openDb();
+  const transaction = db.transaction(STORE, "readwrite");
+  const store = transaction.objectStore(STORE);
+  const index = store.index("timestamp");
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+
+  const cutoff = Date.now() - retention.maxAgeDays * DAY_MS;
+  let deleted = await deleteFromCursor(index.openCursor(IDBKeyRange.upperBound(cutoff, true)));
+  const excess = (await promisify(store.count())) - retention.maxEntries;
+  if (excess > 0) deleted += await deleteFromCursor(index.openCursor(), excess);
+  await done;
+  if (deleted > 0) notify();
+};
+
+export const addHistoryEntry = async (entry: HistoryEntry) => {
+  await withStore("readwrite", (store) => store.put(entry));
+  notify();
+  await pruneHistory();
+};
+
+const bodyText = (data: unknown) => {
+  if (data === undefined || data === null) return "";
+  if (typeof data === "string") return data;
+  try {
+    return JSON.stringify(data, null, 2);
+  } catch {
+    return String(data);
+  }
+};
+
+export const createHistoryEntry = (request: RequestConfig, url: string, response: ApiResponse): HistoryEntry => {
+  const body = response.error ? "" : bodyText(response.data);
+  return {
+    id: crypto.randomUUID(),
+    timestamp: Date.now(),
+    request: toStoredRequest(request),
+    url,
+    response: {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+      body: body.slice(0, MAX_HISTORY_BODY_LENGTH),
+      bodyTruncated: body.length > MAX_HISTORY_BODY_LENGTH,
+      size: response.size,
+      time: response.time,
+      error: response.error?.message,
+    },
+  };
+};
+
+// Rebuilds what ResponseViewer shows from a stored entry.
+export const historyEntryToResponse = ({ response }: HistoryEntry): ApiResponse => {
+  let data: unknown = response.body;
+  if (!response.bodyTruncated) {
+    try {
+      data = JSON.parse(response.body);
+    } catch {
+      // Not JSON; keep the text.
+    }
+  }
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers,
+    data: response.error ?? data,
+    time: response.time,
+    size: response.size,
+    error: response.error ? { message: response.error } : undefined,
+  };
+};
+
+export type StatusClass = "1xx" | "2xx" | "3xx" | "4xx" | "5xx" | "error";
+
+export const statusClass = (status: number): StatusClass =>
+  status >= 100 && status < 600 ? (`${Math.floor(status / 100)}xx` as StatusClass) : "error";
@@ -0,0 +1,471 @@
+import type { Collection, CollectionFolder, CollectionItem, SavedRequest } from "@/types/collection";
+import type { Environment } from "@/types/environment";
+import type { ImportResult } from "@/types/import";
+import type { HttpMethod, KeyValueRow, MultipartRow, RequestConfig } from "@/types/request";
+import { createCollection, createSavedRequest } from "@/lib/collections";
+import { createDefaultBody, createMultipartRow, defaultContentType, methodAllowsBody } from "@/lib/body";
+import { isDynamicVariable } from "@/lib/dynamic-variables";
+import { createRow } from "@/lib/key-value";
+import { appendQueryParam, encodeQueryComponent } from "@/lib/query-params";
+import { createDefaultRequest, HTTP_METHODS, restoreRequest } from "@/lib/request";
+
+// .http/.rest files as read by the VS Code REST Client and the JetBrains
+// HTTP Client: requests separated by ###, each a request line, headers, a
+// blank line and the body, with `@name = value` file variables and
+// `# @directive` comments.
+
+interface ImportContext {
+  warnings: string[];
+  variables: Map<string, string>;
+  unknownDynamicVariables: Set<string>;
+  ignoredDirectives: Set<string>;
+  requestReferences: boolean;
+  fileFields: number;
+}
+
+const COMMENT = /^(?:#|\/\/)\s?(.*)$/;
+const HEADER = /^([^:\s]+)\s*:\s*(.*)$/;
+const REQUEST_LINE = /^(?:([A-Z]+)\s+)?(\S.*)$/;
+const SEPARATOR = /^###(.*)$/;
+
+// Files are told apart from JSON and YAML by a request line or separator
+// at the start of a line.
+export const isHttpFile = (text: string): boolean =>
+  !text.trimStart().startsWith("{") &&
+  /^(?:###|(?:GET|POST|PUT|PATCH|DELETE|HEAD|OPTIONS|GRAPHQL)\s+\S)/m.test(text);
+
+// REST Client and JetBrains spellings of the dynamic variables we have.
+const DYNAMIC_VARIABLES: Record<string, string> = {
+  $guid: "$uuid",
+  "$random.uuid": "$uuid",
+  "$datetime iso8601": "$isoTimestamp",
+  "$random.email": "$randomEmail",
+};
+
+const convertText = (ctx: ImportContext, text: string): string =>
+  text.replace(/\{\{\s*(.+?)\s*\}\}/g, (match, expression: string) => {
+    if (Object.prototype.hasOwnProperty.call(DYNAMIC_VARIABLES, expression)) return `{{${DYNAMIC_VARIABLES[expression]}}}`;
+    if (expression.startsWith("$")) {
+      if (!isDynamicVariable(expression)) ctx.unknownDynamicVariables.add(expression.split(/\s/)[0]);
+    } else if (/^\w+\.(?:request|response)\./.test(expression)) {
+      ctx.requestReferences = true;
+    }
+    return match;
+  });
+
+// JetBrains handler scripts and what they become in our sandbox.
+const SCRIPT_REWRITES: [RegExp, string | ((...match: string[]) => string)][] = [
+  [/\bclient\.test\(/g, "pm.test("],
+  [/\bclient\.assert\(\s*([^,;]+?)\s*(?:,\s*(["'`])(?:\\.|(?!\2)[^\\])*\2\s*)?\)/g, "pm.expect(Boolean($1)).toBe(true)"],
+  [/\bclient\.global\.set\(/g, "pm.environment.set("],
+  [/\bclient\.global\.get\(/g, "pm.environment.get("],
+  [/\bclient\.global\.clear\(/g, "pm.environment.unset("],
+  [/\brequest\.variables\.set\(/g, "pm.environment.set("],
+  [/\brequest\.variables\.get\(/g, "pm.environment.get("],
+  [/\bclient\.log\(/g, "console.log("],
+  [/(?<![.\w])response\.status\b/g, "pm.response.status"],
+  [/(?<![.\w])response\.body\b/g, "pm.response.data"],
+  [
+    /(?<![.\w])response\.headers\.valueOf\((["'])(.*?)\1\)/g,
+    (_, __, name) => `pm.response.headers[${JSON.stringify(name.toLowerCase())}]`,
+  ],
+  [/(?<![.\w])response\.contentType\.mimeType\b/g, 'pm.response.headers["content-type"]'],
+];
+
+const convertScript = (ctx: ImportContext, code: string, label: string, where: string): string => {
+  const translated = SCRIPT_REWRITES.reduce(
+    (current, [pattern, replacement]) => current.replace(pattern, replacement as never),
+    code.trim()
+  );
+  const bare = translated.replace(/\/\*[\s\S]*?\*\/|\/\/.*$|(["'`])(?:\\.|(?!\1)[^\\])*\1/gm, "");
+  const unsupported = [...new Set(bare.match(/(?<![.\w])(?:client|request|response)\.[\w.]+/g) ?? [])];
+  if (unsupported.length > 0) {
+    ctx.warnings.push(`${where}: ${label} uses ${unsupported.join(", ")}, which won't work here.`);
+  }
+  return translated;
+};
+
+// Reads a `{% ... %}` script that may span lines, returning it and the
+// index of the line after it.
+const readScript = (lines: string[], start: number): [string, number] => {
+  const first = lines[start].slice(lines[start].indexOf("{%") + 2);
+  const collected: string[] = [];
+  let line = first;
+  let index = start;
+  while (!line.includes("%}") && index + 1 < lines.length) {
+    collected.push(line);
+    index++;
+    line = lines[index];
+  }
+  collected.push(line.slice(0, line.includes("%}") ? line.lastIndexOf("%}") : undefined));
+  return [collected.join("\n").trim(), index + 1];
+};
+
+const headerValue = (headers: KeyValueRow[], name: string) =>
+  headers.find((row) => row.enabled && row.key.toLowerCase() === name)?.value;
+
+const withoutHeader = (headers: KeyValueRow[], name: string) => headers.filter((row) => row.key.toLowerCase() !== name);
+
+const decode = (value: string) => {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, " "));
+  } catch {
+    return value;
+  }
+};
+
+const parseMultipart = (ctx: ImportContext, body: string, boundary: string): MultipartRow[] =>
+  body
+    .split(`--${boundary}`)
+    .slice(1)
+    .filter((part) => !part.startsWith("--"))
+    .flatMap((part) => {
+      const [head, ...rest] = part.replace(/^\r?\n/, "").split(/\r?\n\r?\n/);
+      const disposition = head.split(/\r?\n/).find((line) => /^content-disposition:/i.test(line)) ?? "";
+      const name = disposition.match(/\bname="([^"]*)"/)?.[1];
+      if (!name) return [];
+      const value = rest.join("\n\n").replace(/\r?\n$/, "");
+      const isFile = /\bfilename=/.test(disposition) || value.startsWith("< ");
+      if (isFile) ctx.fileFields++;
+      return [{ ...createMultipartRow(), key: name, value: isFile ? "" : value, type: isFile ? "file" : "text" }];
+    });
+
+// REST Client accepts unencoded "Basic user:password", "Basic user password"
+// and "AWS <key> <secret> region:... service:..." and encodes them itself.
+const applyAuthorization = (ctx: ImportContext, request: RequestConfig, where: string) => {
+  const authorization = headerValue(request.headers, "authorization");
+  if (!authorization) return;
+  const basic = authorization.match(/^Basic\s+([^\s:]+)(?:\s+|:)(.*)$/i);
+  const aws = authorization.match(/^AWS\s+(\S+)\s+(\S+)((?:\s+\w+:\S+)*)$/i);
+  if (basic) {
+    request.auth = { ...request.auth, type: "basic", basic: { username: basic[1], password: basic[2] } };
+  } else if (aws) {
+    const options = Object.fromEntries(aws[3].trim().split(/\s+/).filter(Boolean).map((option) => option.split(/:(.*)/s)));
+    request.auth = {
+      ...request.auth,
+      type: "awsv4",
+      awsV4: {
+        accessKeyId: aws[1],
+        secretAccessKey: aws[2],
+        sessionToken: options.token ?? "",
+        region: options.region ?? request.auth.awsV4.region,
+        service: options.service ?? request.auth.awsV4.service,
+      },
+    };
+  } else {
+    if (/^Digest\s/i.test(authorization)) ctx.warnings.push(`${where}: Digest auth isn't supported; the header was kept as written.`);
+    return;
+  }
+  request.headers = withoutHeader(request.headers, "authorization");
+};
+
+const applyBody = (ctx: ImportContext, request: RequestConfig, lines: string[], isGraphql: boolean, where: string) => {
+  const text = lines.join("\n");
+  if (!text.trim()) return;
+  const contentType = (headerValue(request.headers, "content-type") ?? "").toLowerCase();
+  const body = createDefaultBody();
+  request.body = body;
+
+  if (isGraphql) {
+    // The query, then a blank line and the variables as JSON.
+    const [query, ...variables] = text.split(/\n\s*\n(?=\s*\{)/);
+    body.mode = "graphql";
+    body.graphql = { query: query.trim(), variables: variables.join("\n\n").trim() };
+    request.headers = withoutHeader(request.headers, "content-type");
+  } else if (/^<\s+\S/.test(text.trim())) {
+    ctx.fileFields++;
+    body.mode = "binary";
+  } else if (contentType.startsWith("application/x-www-form-urlencoded")) {
+    body.mode = "urlencoded";
+    body.urlencoded = lines
+      .map((line) => line.trim())
+      .join("")
+      .split("&")
+      .filter(Boolean)
+      .map((pair) => {
+        const [key, value = ""] = pair.split(/=(.*)/s);
+        return createRow(decode(key), decode(value));
+      });
+    request.headers = withoutHeader(request.headers, "content-type");
+  } else if (contentType.startsWith("multipart/form-data")) {
+    // Matched on the header as written, since the boundary is case-sensitive.
+    const boundary = (headerValue(request.headers, "content-type") ?? "").match(/boundary=(?:"([^"]+)"|([^;\s]+))/i);
+    if (boundary) {
+      body.mode = "multipart";
+      body.multipart = parseMultipart(ctx, text, boundary[1] ?? boundary[2]);
+      // FormData picks its own boundary when sending.
+      request.headers = withoutHeader(request.headers, "content-type");
+    } else {
+      ctx.warnings.push(`${where}: the multipart body has no boundary and was imported as text.`);
+      body.mode = "text";
+      body.raw = text;
+    }
+  } else {
+    body.mode = contentType.includes("json") ? "json" : contentType.includes("xml") ? "xml" : "text";
+    body.raw = text;
+  }
+};
+
+const parseBlock = (ctx: ImportContext, lines: string[], title: string): SavedRequest | null => {
+  let index = 0;
+  let name = "";
+  let preRequest = "";
+  let test = "";
+
+  // Comments, directives, file variables and a pre-request script may come
+  // before the request line.
+  while (index < lines.length) {
+    const line = lines[index].trim();
+    const variable = line.match(/^@([\w.-]+)\s*=\s*(.*)$/);
+    const comment = line.match(COMMENT);
+    if (!line) {
+      index++;
+    } else if (variable) {
+      ctx.variables.set(variable[1], convertText(ctx, variable[2].trim()));
+      index++;
+    } else if (comment) {
+      const directive = comment[1].match(/^@([\w-]+)\s*(.*)$/);
+      if (directive?.[1] === "name") name = directive[2].trim();
+      else if (directive) ctx.ignoredDirectives.add(`@${directive[1]}`);
+      index++;
+    } else if (/^<\s*\{%/.test(line)) {
+      [preRequest, index] = readScript(lines, index);
+    } else {
+      break;
+    }
+  }
+  if (index >= lines.length) return null;
+
+  const requestLine = lines[index].trim().match(REQUEST_LINE);
+  index++;
+  const method = requestLine?.[1] ?? "GET";
+  let url = requestLine?.[2] ?? "";
+  const label = title || name || `${method} ${url}`;
+  const where = `"${label}"`;
+  const isGraphql = method === "GRAPHQL";
+  if (!isGraphql && !HTTP_METHODS.includes(method as HttpMethod)) {
+    ctx.warnings.push(`${where}: ${method} requests aren't supported and were skipped.`);
+    return null;
+  }
+  // REST Client lets long query strings continue on lines starting with ? or &.
+  while (index < lines.length && /^\s+[?&]/.test(lines[index])) {
+    url += lines[index].trim();
+    index++;
+  }
+  url = url.replace(/\s+HTTP\/[\d.]+$/, "");
+
+  const request = createDefaultRequest();
+  request.method = isGraphql ? "POST" : (method as HttpMethod);
+  request.url = convertText(ctx, url);
+  for (; index < lines.length && lines[index].trim(); index++) {
+    const line = lines[index].trim();
+    const header = COMMENT.test(line) ? null : line.match(HEADER);
+    if (header) request.headers.push(createRow(header[1], convertText(ctx, header[2])));
+  }
+
+  const bodyLines: string[] = [];
+  for (index++; index < lines.length; ) {
+    const line = lines[index].trim();
+    if (/^>\s*\{%/.test(line)) {
+      [test, index] = readScript(lines, index);
+      continue;
+    }
+    if (/^>\s*\S/.test(line)) {
+      ctx.warnings.push(`${where}: the response handler file ${line.slice(1).trim()} wasn't imported.`);
+    } else if (!/^<>\s/.test(line)) {
+      bodyLines.push(lines[index]);
+    }
+    index++;
+  }
+  while (bodyLines.length > 0 && !bodyLines[bodyLines.length - 1].trim()) bodyLines.pop();
+
+  const isRestClientGraphql = headerValue(request.headers, "x-request-type")?.toLowerCase() === "graphql";
+  if (isRestClientGraphql) request.headers = withoutHeader(request.headers, "x-request-type");
+  applyBody(ctx, request, bodyLines.map((line) => convertText(ctx, line)), isGraphql || isRestClientGraphql, where);
+  applyAuthorization(ctx, request, where);
+  request.scripts = {
+    preRequest: preRequest ? convertScript(ctx, preRequest, "Pre-request script", where) : "",
+    test: test ? convertScript(ctx, test, "Response handler", where) : "",
+  };
+  return createSavedRequest(label, request);
+};
+
+/**
+ * Converts a .http or .rest file into a collection named `name`, with one
+ * request per ### block. File variables become an environment; directives
+ * other than @name have no equivalent and are reported.
+ */
+export const importHttpFile = (text: string, name: string): ImportResult => {
+  const ctx: ImportContext = {
+    warnings: [],
+    variables: new Map(),
+    unknownDynamicVariables: new Set(),
+    ignoredDirectives: new Set(),
+    requestReferences: false,
+    fileFields: 0,
+  };
+  const blocks: { title: string; lines: string[] }[] = [{ title: "", lines: [] }];
+  for (const line of text.replace(/\r\n?/g, "\n").split("\n")) {
+    const separator = line.match(SEPARATOR);
+    if (separator) blocks.push({ title: separator[1].trim(), lines: [] });
+    else blocks[blocks.length - 1].lines.push(line);
+  }
+  const items: CollectionItem[] = blocks.flatMap((block) => parseBlock(ctx, block.lines, block.title) ?? []);
+  if (items.length === 0) throw new Error("No requests were found in this file.");
+
+  const variables = [...ctx.variables].map(([key, value]) => createRow(key, value));
+  const environments: Environment[] =
+    variables.length > 0 ? [{ id: crypto.randomUUID(), name: `${name} variables`, variables }] : [];
+
+  if (ctx.fileFields > 0) {
+    ctx.warnings.push(`Files referenced with < aren't read; choose them again for ${ctx.fileFields} file field(s) or body(ies).`);
+  }
+  if (ctx.ignoredDirectives.size > 0) {
+    ctx.warnings.push(`These directives have no equivalent and were ignored: ${[...ctx.ignoredDirectives].join(", ")}.`);
+  }
+  if (ctx.requestReferences) {
+    ctx.warnings.push("Variables that read another request's response, like {{login.response.body.token}}, aren't supported.");
+  }
+  if (ctx.unknownDynamicVariables.size > 0) {
+    ctx.warnings.push(
+      `These dynamic variables have no equivalent and were left as they are: ${[...ctx.unknownDynamicVariables].join(", ")}.`
+    );
+  }
+  return { collection: createCollection(name, items), environments, warnings: ctx.warnings };
+};
+
+const EXPORT_BOUNDARY = "----ApiSimplicityWizardBoundary7MA4YWxk";
+
+// "Get user by id" becomes "getUserById", for # @name.
+const requestIdentifier = (name: string) => {
+  const words = name.match(/[A-Za-z0-9]+/g) ?? [];
+  const identifier = words
+    .map((word, i) => {
+      if (i > 0) return word[0].toUpperCase() + word.slice(1);
+      return word === word.toUpperCase() ? word.toLowerCase() : word[0].toLowerCase() + word.slice(1);
+    })
+    .join("");
+  return /^\d/.test(identifier) ? `request${identifier}` : identifier;
+};
+
+const exportBody = (request: RequestConfig, headers: string[], notes: string[]): string => {
+  const { body } = request;
+  const hasContentType = request.headers.some((row) => row.enabled && row.key.toLowerCase() === "content-type");
+  const setContentType = (value: string | undefined) => {
+    if (value && !hasContentType) headers.push(`Content-Type: ${value}`);
+  };
+  switch (body.mode) {
+    case "json":
+    case "text":
+    case "xml":
+      if (!body.raw) return "";
+      setContentType(defaultContentType(body));
+      return body.raw;
+    case "urlencoded":
+      setContentType(defaultContentType(body));
+      return body.urlencoded
+        .filter((row) => row.enabled && row.key)
+        .map((row) => `${encodeQueryComponent(row.key)}=${encodeQueryComponent(row.value)}`)
+        .join("\n&");
+    case "multipart": {
+      const rows = body.multipart.filter((row) => row.enabled && row.key);
+      if (rows.some((row) => row.type === "file")) notes.push("point the < lines at the files to upload.");
+      setContentType(`multipart/form-data; boundary=${EXPORT_BOUNDARY}`);
+      const parts = rows.map((row) =>
+        row.type === "file"
+          ? `--${EXPORT_BOUNDARY}\nContent-Disposition: form-data; name="${row.key}"; filename="${row.key}"\n\n< ./${row.key}`
+          : `--${EXPORT_BOUNDARY}\nContent-Disposition: form-data; name="${row.key}"\n\n${row.value}`
+      );
+      return [...parts, `--${EXPORT_BOUNDARY}--`].join("\n");
+    }
+    case "binary":
+      notes.push("point the < line at the file to send.");
+      setContentType("application/octet-stream");
+      return "< ./body.bin";
+    case "graphql": {
+      if (!body.graphql.query.trim()) return "";
+      // Sent as plain JSON, which both clients understand.
+      let variables: unknown;
+      try {
+        variables = body.graphql.variables.trim() ? JSON.parse(body.graphql.variables) : undefined;
+      } catch {
+        notes.push("the GraphQL variables weren't valid JSON and were left out.");
+      }
+      setContentType("application/json");
+      return JSON.stringify({ query: body.graphql.query, variables }, null, 2);
+    }
+    default:
+      return "";
+  }
+};
+
+const exportRequest = (saved: SavedRequest, title: string, identifier: string): string => {
+  const request = restoreRequest(saved.request);
+  const { auth } = request;
+  const notes: string[] = [];
+  let url = request.url;
+  const headers = request.headers.filter((row) => row.enabled && row.key).map((row) => `${row.key}: ${row.value}`);
+
+  switch (auth.type) {
+    case "basic":
+      headers.push(`Authorization: Basic ${auth.basic.username} ${auth.basic.password}`);
+      break;
+    case "bearer":
+      headers.push(`Authorization: ${auth.bearer.prefix || "Bearer"} ${auth.bearer.token}`);
+      break;
+    case "apikey":
+      if (auth.apiKey.addTo === "query") url = appendQueryParam(url, auth.apiKey.key, auth.apiKey.value);
+      else headers.push(`${auth.apiKey.key}: ${auth.apiKey.value}`);
+      break;
+    case "awsv4": {
+      const { accessKeyId, secretAccessKey, sessionToken, region, service } = auth.awsV4;
+      const token = sessionToken ? ` token:${sessionToken}` : "";
+      headers.push(`Authorization: AWS ${accessKeyId} ${secretAccessKey}${token} region:${region} service:${service}`);
+      notes.push("AWS signing is understood by REST Client only.");
+      break;
+    }
+    case "oauth2":
+      notes.push("OAuth 2.0 isn't exported; add an Authorization header with a token.");
+      break;
+  }
+
+  const body = methodAllowsBody(request.method) ? exportBody(request, headers, notes) : "";
+  if (request.scripts.preRequest.trim() || request.scripts.test.trim() || request.assertions.length > 0) {
+    notes.push("scripts and assertions aren't exported.");
+  }
+
+  return [
+    `### ${title}`,
+    ...notes.map((note) => `# Note: ${note}`),
+    ...(identifier ? [`# @name ${identifier}`] : []),
+    `${request.method} ${url}`,
+    ...headers,
+    ...(body ? ["", body] : []),
+  ].join("\n");
+};
+
+/**
+ * Writes a collection or folder as a .http file for REST Client and the
+ * JetBrains HTTP Client. Folders flatten into "Folder / Request" titles and
+ * {{variables}} are left for the editor's environment files to fill in.
+ */
+export const exportHttpFile = (node: Collection | CollectionFolder): string => {
+  const requests: { saved: SavedRequest; path: string[] }[] = [];
+  const walk = (items: CollectionItem[], path: string[]) => {
+    for (const item of items) {
+      if (item.type === "folder") walk(item.items, [...path, item.name]);
+      else requests.push({ saved: item, path });
+    }
+  };
+  walk(node.items, []);
+
+  const used = new Map<string, number>();
+  const blocks = requests.map(({ saved, path }) => {
+    const base = requestIdentifier(saved.name);
+    const count = used.get(base) ?? 0;
+    used.set(base, count + 1);
+    const identifier = base && count > 0 ? `${base}${count + 1}` : base;
+    return exportRequest(saved, [...path, saved.name].join(" / "), identifier);
+  });
+  return [`# ${node.name}`, ...blocks].join("\n\n") + "\n";
+};
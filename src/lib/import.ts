@@ -0,0 +1,31 @@
+import { parse as parseYaml } from "yaml";
+import type { ImportResult } from "@/types/import";
+import { importHttpFile, isHttpFile } from "@/lib/http-file";
+import { importInsomnia, isInsomniaExport } from "@/lib/insomnia";
+import { importOpenApi, isOpenApiDocument } from "@/lib/openapi";
+import { importPostmanCollection, importPostmanEnvironment, isPostmanCollection, isPostmanEnvironment } from "@/lib/postman";
+
+// JSON or YAML; JSON is tried first for its clearer error positions.
+const parseDocument = (text: string): unknown => {
+  const trimmed = text.trim();
+  try {
+    return trimmed.startsWith("{") ? JSON.parse(trimmed) : parseYaml(trimmed);
+  } catch (e) {
+    throw new Error(`The file isn't valid JSON or YAML: ${(e as Error).message}`);
+  }
+};
+
+// Recognises the format from the document itself rather than the file
+// name, which only names collections from .http files.
+export const importFromText = (text: string, fileName = ""): ImportResult => {
+  if (isHttpFile(text)) return importHttpFile(text, fileName.replace(/\.[^.]*$/, "") || "HTTP File");
+  const document = parseDocument(text);
+  if (isOpenApiDocument(document)) return importOpenApi(document);
+  if (isPostmanCollection(document)) return importPostmanCollection(document);
+  if (isPostmanEnvironment(document)) return importPostmanEnvironment(document);
+  if (isInsomniaExport(document)) return importInsomnia(document);
+  if (Array.isArray((document as { requests?: unknown } | null)?.requests)) {
+    throw new Error("This looks like a Postman v1 collection; export it from Postman as v2.1 and try again.");
+  }
+  throw new Error("This isn't a format that can be imported: OpenAPI 3.x, Swagger 2.0, a Postman v2 collection or environment, an Insomnia v4 export, or a .http file.");
+};
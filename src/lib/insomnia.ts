@@ -0,0 +1,385 @@
+import type { CollectionItem } from "@/types/collection";
+import type { Environment } from "@/types/environment";
+import type { ImportResult } from "@/types/import";
+import type { AuthConfig, HttpMethod, KeyValueRow, OAuth2GrantType, RequestBodyConfig, RequestConfig } from "@/types/request";
+import { createCollection, createFolder, createSavedRequest } from "@/lib/collections";
+import { createDefaultBody, createMultipartRow } from "@/lib/body";
+import { createRow } from "@/lib/key-value";
+import { translatePostmanScript } from "@/lib/postman";
+import { appendQueryParam } from "@/lib/query-params";
+import { createDefaultRequest, HTTP_METHODS } from "@/lib/request";
+
+// The parts of the Insomnia v4 export format the importer reads. Every
+// workspace, folder, request and environment is a flat resource pointing
+// at its parent.
+
+interface InsomniaPair {
+  name?: string;
+  value?: unknown;
+  disabled?: boolean;
+  type?: string;
+  fileName?: string;
+}
+
+interface InsomniaAuth {
+  type?: string;
+  disabled?: boolean;
+  [setting: string]: unknown;
+}
+
+interface InsomniaResource {
+  _id: string;
+  _type: string;
+  parentId?: string | null;
+  name?: string;
+  metaSortKey?: number;
+  // request
+  method?: string;
+  url?: string;
+  headers?: InsomniaPair[];
+  parameters?: InsomniaPair[];
+  body?: { mimeType?: string | null; text?: string; params?: InsomniaPair[]; fileName?: string };
+  authentication?: InsomniaAuth;
+  // Scripts, from Insomnia 9 on; also set on folders.
+  preRequestScript?: string;
+  afterResponseScript?: string;
+  // environment
+  data?: Record<string, unknown>;
+  // Folders can carry variables of their own.
+  environment?: Record<string, unknown>;
+}
+
+interface InsomniaExport {
+  _type: "export";
+  __export_format: number;
+  resources: InsomniaResource[];
+}
+
+interface Inherited {
+  auth: AuthConfig;
+  preRequest: string[];
+  test: string[];
+}
+
+interface ImportContext {
+  warnings: string[];
+  children: Map<string, InsomniaResource[]>;
+  unknownTags: Set<string>;
+  fileFields: number;
+  folderVariables: boolean;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const isInsomniaExport = (document: unknown): document is InsomniaExport =>
+  isObject(document) && document._type === "export" && Array.isArray(document.resources);
+
+const text = (value: unknown): string => {
+  if (value === undefined || value === null) return "";
+  return typeof value === "string" ? value : JSON.stringify(value);
+};
+
+// Template tags that have a dynamic variable counterpart.
+const TEMPLATE_TAGS: [RegExp, string][] = [
+  [/^uuid(?:\s+'v4')?$/, "$uuid"],
+  [/^now\s+'millis'$/, "$timestampMs"],
+  [/^now\s+'unix'$/, "$timestamp"],
+  [/^now(?:\s+'iso-8601')?$/, "$isoTimestamp"],
+];
+
+// Insomnia's Nunjucks templates: {{ _.name }} becomes {{name}} and the
+// {% tags %} we have an equivalent for become dynamic variables.
+const convertTemplate = (ctx: ImportContext, value: unknown): string =>
+  text(value)
+    .replace(/\{\{\s*(?:_\.)?([\w.$-]+)\s*\}\}/g, "{{$1}}")
+    .replace(/\{%\s*(.*?)\s*%\}/g, (match, tag: string) => {
+      const known = TEMPLATE_TAGS.find(([pattern]) => pattern.test(tag));
+      if (known) return `{{${known[1]}}}`;
+      ctx.unknownTags.add(tag.split(/\s/)[0]);
+      return match;
+    });
+
+const convertPairs = (ctx: ImportContext, pairs: InsomniaPair[] | undefined): KeyValueRow[] =>
+  (pairs ?? [])
+    .filter((pair) => pair.name)
+    .map((pair) => createRow(convertTemplate(ctx, pair.name), convertTemplate(ctx, pair.value), !pair.disabled));
+
+const sortedChildren = (ctx: ImportContext, parentId: string) =>
+  [...(ctx.children.get(parentId) ?? [])].sort((a, b) => (a.metaSortKey ?? 0) - (b.metaSortKey ?? 0));
+
+const OAUTH2_GRANTS: Record<string, OAuth2GrantType> = {
+  authorization_code: "authorization_code",
+  client_credentials: "client_credentials",
+  password: "password",
+};
+
+const AUTH_LABELS: Record<string, string> = {
+  digest: "Digest",
+  ntlm: "NTLM",
+  hawk: "Hawk",
+  asap: "ASAP",
+  netrc: "Netrc",
+};
+
+const convertAuth = (ctx: ImportContext, auth: InsomniaAuth | undefined, inherited: AuthConfig, where: string): AuthConfig => {
+  // Requests without a type of their own take their folder's auth.
+  if (!auth?.type || auth.type === "inherit") return inherited;
+  if (auth.disabled || auth.type === "none") return { ...inherited, type: "none" };
+  const setting = (name: string) => convertTemplate(ctx, auth[name]);
+  switch (auth.type) {
+    case "basic":
+      return { ...inherited, type: "basic", basic: { username: setting("username"), password: setting("password") } };
+    case "bearer":
+      return { ...inherited, type: "bearer", bearer: { token: setting("token"), prefix: setting("prefix") || "Bearer" } };
+    case "apikey":
+      if (auth.addTo === "cookie") {
+        ctx.warnings.push(`${where}: API keys sent as cookies aren't supported; it was moved to a header.`);
+      }
+      return {
+        ...inherited,
+        type: "apikey",
+        apiKey: { key: setting("key"), value: setting("value"), addTo: auth.addTo === "queryParams" ? "query" : "header" },
+      };
+    case "iam":
+      return {
+        ...inherited,
+        type: "awsv4",
+        awsV4: {
+          accessKeyId: setting("accessKeyId"),
+          secretAccessKey: setting("secretAccessKey"),
+          sessionToken: setting("sessionToken"),
+          region: setting("region") || inherited.awsV4.region,
+          service: setting("service") || inherited.awsV4.service,
+        },
+      };
+    case "oauth2": {
+      const grantType = OAUTH2_GRANTS[text(auth.grantType)];
+      if (!grantType) {
+        ctx.warnings.push(`${where}: the OAuth 2.0 ${text(auth.grantType)} grant isn't supported; it was set to authorization code.`);
+      }
+      return {
+        ...inherited,
+        type: "oauth2",
+        oauth2: {
+          ...inherited.oauth2,
+          grantType: grantType ?? "authorization_code",
+          tokenUrl: setting("accessTokenUrl"),
+          authUrl: setting("authorizationUrl"),
+          redirectUri: setting("redirectUrl"),
+          clientId: setting("clientId"),
+          clientSecret: setting("clientSecret"),
+          scope: setting("scope"),
+          username: setting("username"),
+          password: setting("password"),
+          usePkce: auth.usePkce === true,
+          clientAuth: auth.credentialsInBody ? "body" : "header",
+          headerPrefix: setting("tokenPrefix") || "Bearer",
+        },
+      };
+    }
+    default:
+      ctx.warnings.push(`${where}: ${AUTH_LABELS[auth.type] ?? auth.type} auth isn't supported, so it was imported without auth.`);
+      return { ...inherited, type: "none" };
+  }
+};
+
+// Insomnia scripts use the same API as Postman's under the `insomnia` name.
+const convertScript = (ctx: ImportContext, script: string | undefined, label: string, where: string) => {
+  if (!script?.trim()) return "";
+  const { code, unsupported } = translatePostmanScript(script.trim().replace(/\binsomnia\./g, "pm."));
+  if (unsupported.length > 0) {
+    ctx.warnings.push(`${where}: ${label} uses ${unsupported.join(", ")}, which won't work here.`);
+  }
+  return code;
+};
+
+const convertBody = (ctx: ImportContext, resource: InsomniaResource, where: string): RequestBodyConfig => {
+  const result = createDefaultBody();
+  const body = resource.body;
+  if (!body || (!body.mimeType && body.text === undefined)) return result;
+  const mimeType = (body.mimeType ?? "").toLowerCase();
+  if (mimeType === "application/x-www-form-urlencoded") {
+    return { ...result, mode: "urlencoded", urlencoded: convertPairs(ctx, body.params) };
+  }
+  if (mimeType === "multipart/form-data") {
+    return {
+      ...result,
+      mode: "multipart",
+      multipart: (body.params ?? [])
+        .filter((param) => param.name)
+        .map((param) => {
+          const isFile = param.type === "file";
+          if (isFile) ctx.fileFields++;
+          return {
+            ...createMultipartRow(),
+            key: convertTemplate(ctx, param.name),
+            value: isFile ? "" : convertTemplate(ctx, param.value),
+            enabled: !param.disabled,
+            type: isFile ? "file" : "text",
+          };
+        }),
+    };
+  }
+  if (mimeType === "application/octet-stream") {
+    ctx.fileFields++;
+    return { ...result, mode: "binary" };
+  }
+  if (mimeType === "application/graphql") {
+    try {
+      const { query, variables } = JSON.parse(body.text ?? "{}");
+      return {
+        ...result,
+        mode: "graphql",
+        graphql: {
+          query: convertTemplate(ctx, query),
+          variables: variables === undefined ? "" : convertTemplate(ctx, JSON.stringify(variables, null, 2)),
+        },
+      };
+    } catch {
+      ctx.warnings.push(`${where}: the GraphQL body couldn't be read and was imported as text.`);
+    }
+  }
+  result.mode = mimeType.includes("json") ? "json" : mimeType.includes("xml") ? "xml" : "text";
+  result.raw = convertTemplate(ctx, body.text);
+  return result;
+};
+
+const convertRequest = (ctx: ImportContext, resource: InsomniaResource, inherited: Inherited, where: string): RequestConfig => {
+  const request = createDefaultRequest();
+  const method = (resource.method ?? "GET").toUpperCase();
+  if (HTTP_METHODS.includes(method as HttpMethod)) {
+    request.method = method as HttpMethod;
+  } else {
+    ctx.warnings.push(`${where}: the ${method} method isn't supported, so it was changed to GET.`);
+  }
+  // The URL bar here holds the query, so enabled parameters move into it.
+  request.url = convertPairs(ctx, resource.parameters)
+    .filter((row) => row.enabled)
+    .reduce((url, row) => appendQueryParam(url, row.key, row.value), convertTemplate(ctx, resource.url));
+  if (resource.parameters?.some((param) => param.disabled)) {
+    ctx.warnings.push(`${where}: disabled query parameters were left out.`);
+  }
+  request.headers = convertPairs(ctx, resource.headers);
+  request.body = convertBody(ctx, resource, where);
+  request.auth = convertAuth(ctx, resource.authentication, inherited.auth, where);
+  request.scripts = {
+    preRequest: [...inherited.preRequest, convertScript(ctx, resource.preRequestScript, "Pre-request script", where)]
+      .filter(Boolean)
+      .join("\n\n"),
+    test: [...inherited.test, convertScript(ctx, resource.afterResponseScript, "After-response script", where)]
+      .filter(Boolean)
+      .join("\n\n"),
+  };
+  return request;
+};
+
+const labelScript = (code: string, where: string) => (code ? `// From folder ${where}\n${code}` : "");
+
+const convertChildren = (ctx: ImportContext, parentId: string, inherited: Inherited, path: string[]): CollectionItem[] =>
+  sortedChildren(ctx, parentId).flatMap((resource): CollectionItem[] => {
+    const name = resource.name?.trim() || "Untitled";
+    const where = `"${[...path, name].join(" / ")}"`;
+    if (resource._type === "request_group") {
+      const preRequest = convertScript(ctx, resource.preRequestScript, "Pre-request script", where);
+      const test = convertScript(ctx, resource.afterResponseScript, "After-response script", where);
+      const folderInherited: Inherited = {
+        auth: convertAuth(ctx, resource.authentication, inherited.auth, where),
+        preRequest: [...inherited.preRequest, labelScript(preRequest, where)].filter(Boolean),
+        test: [...inherited.test, labelScript(test, where)].filter(Boolean),
+      };
+      return [createFolder(name, convertChildren(ctx, resource._id, folderInherited, [...path, name]))];
+    }
+    if (resource._type === "request") {
+      return [createSavedRequest(name, convertRequest(ctx, resource, inherited, where))];
+    }
+    if (resource._type.endsWith("_request")) {
+      ctx.warnings.push(`${where}: ${resource._type.replace("_request", "")} requests aren't supported and were skipped.`);
+    }
+    return [];
+  });
+
+// Nested environment objects are addressed as {{ _.a.b }}, which becomes {{a.b}}.
+const flattenData = (ctx: ImportContext, data: Record<string, unknown> | undefined, prefix = ""): [string, string][] =>
+  Object.entries(data ?? {}).flatMap(([key, value]) =>
+    isObject(value) ? flattenData(ctx, value, `${prefix}${key}.`) : [[`${prefix}${key}`, convertTemplate(ctx, value)]]
+  );
+
+const toEnvironment = (name: string, entries: [string, string][]): Environment => ({
+  id: crypto.randomUUID(),
+  name,
+  variables: [...new Map(entries)].map(([key, value]) => createRow(key, value)),
+});
+
+// Every folder below the parent, outer ones first.
+const foldersUnder = (ctx: ImportContext, parentId: string): InsomniaResource[] =>
+  sortedChildren(ctx, parentId)
+    .filter((resource) => resource._type === "request_group")
+    .flatMap((folder) => [folder, ...foldersUnder(ctx, folder._id)]);
+
+// Every sub environment becomes one of ours with the base environment's
+// variables underneath its own. The workspace's folder variables apply to
+// every one of its environments, since environments here aren't scoped to folders.
+const convertEnvironments = (ctx: ImportContext, workspace: InsomniaResource): Environment[] => {
+  const folderEntries = foldersUnder(ctx, workspace._id)
+    .filter((folder) => isObject(folder.environment))
+    .flatMap((folder) => flattenData(ctx, folder.environment));
+  if (folderEntries.length > 0) ctx.folderVariables = true;
+
+  const base = sortedChildren(ctx, workspace._id).find((resource) => resource._type === "environment");
+  const baseEntries = flattenData(ctx, base?.data);
+  const subEnvironments = base ? sortedChildren(ctx, base._id).filter((resource) => resource._type === "environment") : [];
+  if (subEnvironments.length === 0) {
+    const entries = [...baseEntries, ...folderEntries];
+    return entries.length > 0 ? [toEnvironment(`${workspace.name ?? "Insomnia"} base`, entries)] : [];
+  }
+  return subEnvironments.map((environment) =>
+    toEnvironment(environment.name?.trim() || "Environment", [...baseEntries, ...flattenData(ctx, environment.data), ...folderEntries])
+  );
+};
+
+/**
+ * Converts an Insomnia v4 export. Each workspace's folders and HTTP requests
+ * become a collection (or a top-level folder when the export holds several
+ * workspaces) and its environments are merged onto the base environment.
+ */
+export const importInsomnia = (document: InsomniaExport): ImportResult => {
+  const ctx: ImportContext = {
+    warnings: [],
+    children: new Map(),
+    unknownTags: new Set(),
+    fileFields: 0,
+    folderVariables: false,
+  };
+  // Hand-edited exports can hold nulls among the resources.
+  const resources = document.resources.filter((resource): resource is InsomniaResource => isObject(resource));
+  for (const resource of resources) {
+    const parentId = resource.parentId ?? "";
+    const siblings = ctx.children.get(parentId);
+    if (siblings) siblings.push(resource);
+    else ctx.children.set(parentId, [resource]);
+  }
+  const workspaces = resources.filter((resource) => resource._type === "workspace");
+  if (workspaces.length === 0) throw new Error("This Insomnia export has no workspace in it.");
+
+  const rootInherited: Inherited = { auth: createDefaultRequest().auth, preRequest: [], test: [] };
+  const environments: Environment[] = [];
+  const folders = workspaces.map((workspace) => {
+    const name = workspace.name?.trim() || "Insomnia";
+    environments.push(...convertEnvironments(ctx, workspace));
+    return createFolder(name, convertChildren(ctx, workspace._id, rootInherited, workspaces.length > 1 ? [name] : []));
+  });
+  const collection =
+    folders.length === 1 ? createCollection(folders[0].name, folders[0].items) : createCollection("Insomnia Import", folders);
+
+  if (ctx.folderVariables) {
+    ctx.warnings.push("Folder variables were added to every environment, since environments can't be scoped to a folder.");
+  }
+  if (ctx.fileFields > 0) {
+    ctx.warnings.push(`Insomnia exports don't include files; choose them again for ${ctx.fileFields} file field(s) or body(ies).`);
+  }
+  if (ctx.unknownTags.size > 0) {
+    ctx.warnings.push(`These template tags have no equivalent and were left as they are: ${[...ctx.unknownTags].join(", ")}.`);
+  }
+  return { collection, environments, warnings: ctx.warnings };
+};
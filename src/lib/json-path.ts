@@ -0,0 +1,104 @@
+// A key of "*" selects every child.
+type Segment =
+  | { type: "child"; key: string | number }
+  | { type: "descendant"; key: string };
+
+const IDENTIFIER = /^[A-Za-z_$][\w$-]*/;
+
+/**
+ * Parses the commonly used JSONPath subset: $.a.b, $['a b'], $[0], $[-1],
+ * $.items[*].id and $..id. Filters and slices are not supported.
+ */
+export const parseJsonPath = (path: string): Segment[] => {
+  const source = path.trim();
+  const segments: Segment[] = [];
+  let i = source.startsWith("$") ? 1 : 0;
+
+  const fail = (reason: string): never => {
+    throw new Error(`Invalid JSONPath "${path}": ${reason} at position ${i}`);
+  };
+
+  // Allow "data.items" as a shorthand for "$.data.items".
+  if (i === 0 && IDENTIFIER.test(source)) {
+    const name = source.match(IDENTIFIER)[0];
+    segments.push({ type: "child", key: name });
+    i = name.length;
+  }
+
+  while (i < source.length) {
+    if (source.startsWith("..", i)) {
+      i += 2;
+      if (source[i] === "*") {
+        segments.push({ type: "descendant", key: "*" });
+        i++;
+        continue;
+      }
+      const name = source.slice(i).match(IDENTIFIER);
+      if (!name) fail("expected a property name after ..");
+      segments.push({ type: "descendant", key: name[0] });
+      i += name[0].length;
+    } else if (source[i] === ".") {
+      i++;
+      if (source[i] === "*") {
+        segments.push({ type: "child", key: "*" });
+        i++;
+        continue;
+      }
+      const name = source.slice(i).match(IDENTIFIER);
+      if (!name) fail("expected a property name after .");
+      segments.push({ type: "child", key: name[0] });
+      i += name[0].length;
+    } else if (source[i] === "[") {
+      const close = source.indexOf("]", i);
+      if (close === -1) fail("missing ]");
+      const inner = source.slice(i + 1, close).trim();
+      if (inner === "*") {
+        segments.push({ type: "child", key: "*" });
+      } else if (/^-?\d+$/.test(inner)) {
+        segments.push({ type: "child", key: Number(inner) });
+      } else if (/^'[^']*'$|^"[^"]*"$/.test(inner)) {
+        segments.push({ type: "child", key: inner.slice(1, -1) });
+      } else {
+        fail(`unsupported selector [${inner}]`);
+      }
+      i = close + 1;
+    } else {
+      fail(`unexpected "${source[i]}"`);
+    }
+  }
+
+  return segments;
+};
+
+const childrenOf = (value: unknown): unknown[] => {
+  if (Array.isArray(value)) return value;
+  if (typeof value === "object" && value !== null) return Object.values(value);
+  return [];
+};
+
+const selectChild = (value: unknown, key: string | number): unknown[] => {
+  if (Array.isArray(value) && typeof key === "number") {
+    const index = key < 0 ? value.length + key : key;
+    return index >= 0 && index < value.length ? [value[index]] : [];
+  }
+  if (typeof value === "object" && value !== null && Object.prototype.hasOwnProperty.call(value, key)) {
+    return [(value as Record<string, unknown>)[key]];
+  }
+  return [];
+};
+
+const descendants = (value: unknown): unknown[] => [
+  value,
+  ...childrenOf(value).flatMap(descendants),
+];
+
+// Every value the path selects, in document order.
+export const queryJsonPath = (data: unknown, path: string): unknown[] =>
+  parseJsonPath(path).reduce<unknown[]>((current, segment) => {
+    if (segment.type === "child") {
+      return current.flatMap((value) => (segment.key === "*" ? childrenOf(value) : selectChild(value, segment.key)));
+    }
+    return current
+      .flatMap(descendants)
+      .flatMap((value) => (segment.key === "*" ? childrenOf(value) : selectChild(value, segment.key)));
+  }, [data]);
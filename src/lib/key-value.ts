@@ -0,0 +1,41 @@
+import type { KeyValueRow } from "@/types/request";
+
+export const createRow = (key = "", value = "", enabled = true): KeyValueRow => ({
+  id: crypto.randomUUID(),
+  key,
+  value,
+  enabled,
+});
+
+// Bulk edit format: one "key: value" pair per line, disabled rows are
+// prefixed with "//" so they survive a round trip through the text view.
+export const rowsToBulkText = (rows: KeyValueRow[]): string =>
+  rows
+    .filter((row) => row.key || row.value)
+    .map((row) => `${row.enabled ? "" : "//"}${row.key}: ${row.value}`)
+    .join("\n");
+
+export const bulkTextToRows = (text: string): KeyValueRow[] =>
+  text
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== "")
+    .map((line) => {
+      let enabled = true;
+      let content = line.trim();
+      if (content.startsWith("//")) {
+        enabled = false;
+        content = content.slice(2).trim();
+      }
+      const separator = content.indexOf(":");
+      if (separator === -1) {
+        return createRow(content, "", enabled);
+      }
+      return createRow(
+        content.slice(0, separator).trim(),
+        content.slice(separator + 1).trim(),
+        enabled
+      );
+    });
+
+export const activeRows = <T extends KeyValueRow>(rows: T[]): T[] =>
+  rows.filter((row) => row.enabled && row.key.trim() !== "");
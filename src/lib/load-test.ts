@@ -0,0 +1,208 @@
+import type { RequestConfig } from "@/types/request";
+import { prepareRequest } from "@/lib/request";
+import { wait } from "@/lib/runner";
+import { resolveRequestConfig, type VariableMap } from "@/lib/variables";
+
+export const MAX_CONCURRENCY = 100;
+export const MAX_REQUESTS = 100_000;
+export const MAX_DURATION_SECONDS = 600;
+
+export type LoadTestLimit = { kind: "count"; count: number } | { kind: "duration"; seconds: number };
+
+export interface LoadTestOptions {
+  concurrency: number;
+  limit: LoadTestLimit;
+  // Requests per second across all workers; 0 sends as fast as they can.
+  targetRps: number;
+}
+
+export interface LoadSample {
+  // Milliseconds since the test started.
+  start: number;
+  // Milliseconds until the whole body arrived.
+  latency: number;
+  // 0 when the request couldn't be sent.
+  status: number;
+  error?: string;
+}
+
+export interface LoadStats {
+  total: number;
+  errors: number;
+  errorRate: number;
+  // Completed requests per second.
+  throughput: number;
+  min: number;
+  mean: number;
+  max: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  // Status codes ("ERR" for failed sends) with their counts, lowest first.
+  statusCounts: [string, number][];
+}
+
+export interface LoadTimePoint {
+  second: number;
+  requests: number;
+  errors: number;
+  p50: number;
+  p90: number;
+  p99: number;
+}
+
+export interface LoadHistogramBucket {
+  // Inclusive lower and exclusive upper bound in milliseconds.
+  from: number;
+  to: number;
+  count: number;
+}
+
+export const isErrorSample = (sample: LoadSample) => sample.status === 0 || sample.status >= 400;
+
+// Nearest-rank percentile of ascending values.
+export const percentile = (sorted: number[], p: number) =>
+  sorted.length > 0 ? sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))] : 0;
+
+const sortedLatencies = (samples: LoadSample[]) => samples.map((sample) => sample.latency).sort((a, b) => a - b);
+
+export const summarizeLoad = (samples: LoadSample[], elapsed: number): LoadStats => {
+  const latencies = sortedLatencies(samples);
+  const errors = samples.filter(isErrorSample).length;
+  const statusCounts = new Map<number, number>();
+  for (const sample of samples) statusCounts.set(sample.status, (statusCounts.get(sample.status) ?? 0) + 1);
+  return {
+    total: samples.length,
+    errors,
+    errorRate: samples.length > 0 ? errors / samples.length : 0,
+    throughput: elapsed > 0 ? (samples.length * 1000) / elapsed : 0,
+    min: latencies[0] ?? 0,
+    mean: latencies.length > 0 ? Math.round(latencies.reduce((total, latency) => total + latency, 0) / latencies.length) : 0,
+    max: latencies[latencies.length - 1] ?? 0,
+    p50: percentile(latencies, 50),
+    p90: percentile(latencies, 90),
+    p99: percentile(latencies, 99),
+    statusCounts: [...statusCounts]
+      .sort(([a], [b]) => a - b)
+      .map(([status, count]) => [status === 0 ? "ERR" : String(status), count]),
+  };
+};
+
+// One point per second of the test, by when the requests were sent.
+export const loadTimeSeries = (samples: LoadSample[]): LoadTimePoint[] => {
+  const bySecond = new Map<number, LoadSample[]>();
+  for (const sample of samples) {
+    const second = Math.floor(sample.start / 1000);
+    const bucket = bySecond.get(second);
+    if (bucket) bucket.push(sample);
+    else bySecond.set(second, [sample]);
+  }
+  const last = Math.max(-1, ...bySecond.keys());
+  return Array.from({ length: last + 1 }, (_, second) => {
+    const bucket = bySecond.get(second) ?? [];
+    const latencies = sortedLatencies(bucket);
+    return {
+      second,
+      requests: bucket.length,
+      errors: bucket.filter(isErrorSample).length,
+      p50: percentile(latencies, 50),
+      p90: percentile(latencies, 90),
+      p99: percentile(latencies, 99),
+    };
+  });
+};
+
+// Bucket widths are 1, 2 or 5 times a power of ten so the labels stay round.
+const niceWidth = (span: number, buckets: number) => {
+  const raw = Math.max(1, span / buckets);
+  const magnitude = 10 ** Math.floor(Math.log10(raw));
+  const step = [1, 2, 5, 10].find((factor) => factor * magnitude >= raw) ?? 10;
+  return step * magnitude;
+};
+
+export const latencyHistogram = (samples: LoadSample[], buckets = 20): LoadHistogramBucket[] => {
+  if (samples.length === 0) return [];
+  const latencies = sortedLatencies(samples);
+  const width = niceWidth(latencies[latencies.length - 1] - latencies[0], buckets);
+  const first = Math.floor(latencies[0] / width);
+  const counts = new Map<number, number>();
+  for (const latency of latencies) {
+    const index = Math.floor(latency / width) - first;
+    counts.set(index, (counts.get(index) ?? 0) + 1);
+  }
+  const size = Math.max(...counts.keys()) + 1;
+  return Array.from({ length: size }, (_, index) => ({
+    from: (first + index) * width,
+    to: (first + index + 1) * width,
+    count: counts.get(index) ?? 0,
+  }));
+};
+
+// Null when the test was stopped while the request was in flight.
+const sendOnce = async (
+  config: RequestConfig,
+  variables: VariableMap,
+  startedAt: number,
+  signal: AbortSignal
+): Promise<LoadSample | null> => {
+  // Resolved per request so dynamic variables get fresh values.
+  let start = performance.now();
+  try {
+    const prepared = await prepareRequest(resolveRequestConfig(config, variables));
+    start = performance.now();
+    const res = await fetch(prepared.url, { ...prepared.init, signal });
+    await res.arrayBuffer();
+    return { start: start - startedAt, latency: Math.round(performance.now() - start), status: res.status };
+  } catch (error) {
+    if (signal.aborted) return null;
+    return {
+      start: start - startedAt,
+      latency: Math.round(performance.now() - start),
+      status: 0,
+      error: (error as Error).message,
+    };
+  }
+};
+
+/**
+ * Sends the request from `concurrency` workers until the count or duration
+ * is reached, spacing the sends evenly when a target rate is set. Latency
+ * covers the fetch and reading the body, not preparing the request. Scripts
+ * and assertions don't run, so they don't skew the numbers. Aborting the
+ * signal cancels the requests in flight, which aren't counted. Throws before
+ * sending anything when the request can't be prepared.
+ */
+export const runLoadTest = async (
+  config: RequestConfig,
+  variables: VariableMap,
+  { concurrency, limit, targetRps }: LoadTestOptions,
+  onSample: (sample: LoadSample) => void,
+  signal: AbortSignal
+): Promise<void> => {
+  await prepareRequest(resolveRequestConfig(config, variables));
+
+  const startedAt = performance.now();
+  const deadline = limit.kind === "duration" ? startedAt + limit.seconds * 1000 : Infinity;
+  const maxRequests = limit.kind === "count" ? limit.count : Infinity;
+  const interval = targetRps > 0 ? 1000 / targetRps : 0;
+  let issued = 0;
+
+  // Hands out send times; null once the test is over.
+  const claim = () => {
+    const scheduled = startedAt + issued * interval;
+    if (signal.aborted || issued >= maxRequests || Math.max(scheduled, performance.now()) >= deadline) return null;
+    issued++;
+    return scheduled;
+  };
+
+  const worker = async () => {
+    for (let scheduled = claim(); scheduled !== null; scheduled = claim()) {
+      await wait(scheduled - performance.now(), signal);
+      if (signal.aborted) return;
+      const sample = await sendOnce(config, variables, startedAt, signal);
+      if (sample) onSample(sample);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, concurrency), MAX_CONCURRENCY) }, worker));
+};
@@ -0,0 +1,170 @@
+import { createServer, type IncomingMessage, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { OAuth2Config } from "@/types/request";
+import { createDefaultRequest } from "@/lib/request";
+import { getAccessToken, getCachedToken } from "@/lib/oauth2";
+
+interface TokenRequest {
+  authorization?: string;
+  params: Record<string, string>;
+}
+
+// A local token endpoint: it records each request and answers with
+// whatever the current test's handler returns.
+let server: Server;
+let baseUrl: string;
+let requests: TokenRequest[];
+let respond: (request: TokenRequest) => { status?: number; body: Record<string, unknown> };
+
+const readBody = (req: IncomingMessage) =>
+  new Promise<string>((resolve) => {
+    let body = "";
+    req.on("data", (chunk) => (body += chunk));
+    req.on("end", () => resolve(body));
+  });
+
+beforeAll(async () => {
+  server = createServer(async (req, res) => {
+    const request: TokenRequest = {
+      authorization: req.headers.authorization,
+      params: Object.fromEntries(new URLSearchParams(await readBody(req))),
+    };
+    requests.push(request);
+    const { status = 200, body } = respond(request);
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+let tokenUrl: string;
+let issued = 0;
+
+beforeEach((context) => {
+  requests = [];
+  // Tokens are cached per token URL, so each test gets its own.
+  tokenUrl = `${baseUrl}/token/${encodeURIComponent(context.task.name)}`;
+  respond = ({ params }) => ({
+    body: { access_token: `${params.grant_type}-${++issued}`, token_type: "Bearer", expires_in: 3600 },
+  });
+  vi.useFakeTimers({ toFake: ["Date"] });
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+const oauth2Config = (overrides: Partial<OAuth2Config>): OAuth2Config => ({
+  ...createDefaultRequest().auth.oauth2,
+  tokenUrl,
+  clientId: "client",
+  clientSecret: "secret",
+  ...overrides,
+});
+
+const advance = (ms: number) => vi.setSystemTime(Date.now() + ms);
+
+describe("getAccessToken against a mock token endpoint", () => {
+  it("fetches a client_credentials token once and serves it from the cache", async () => {
+    const config = oauth2Config({ grantType: "client_credentials", scope: "read write", clientAuth: "body" });
+
+    const token = await getAccessToken(config);
+    expect(token.accessToken).toMatch(/^client_credentials-/);
+    expect(await getAccessToken(config)).toBe(token);
+    expect(requests).toHaveLength(1);
+    expect(requests[0].params).toEqual({
+      grant_type: "client_credentials",
+      client_id: "client",
+      client_secret: "secret",
+      scope: "read write",
+    });
+  });
+
+  it("sends client credentials in a Basic header when configured", async () => {
+    await getAccessToken(oauth2Config({ grantType: "client_credentials", clientAuth: "header" }));
+    expect(requests[0].authorization).toBe(`Basic ${btoa("client:secret")}`);
+    expect(requests[0].params).not.toHaveProperty("client_secret");
+  });
+
+  it("sends the username and password for the password grant", async () => {
+    const token = await getAccessToken(
+      oauth2Config({ grantType: "password", clientAuth: "body", username: "ada", password: "hunter2" })
+    );
+    expect(token.accessToken).toMatch(/^password-/);
+    expect(requests[0].params).toMatchObject({ grant_type: "password", username: "ada", password: "hunter2" });
+  });
+
+  it("reports the endpoint's error", async () => {
+    respond = () => ({ status: 400, body: { error: "invalid_grant", error_description: "Bad credentials" } });
+    await expect(getAccessToken(oauth2Config({ grantType: "password" }))).rejects.toThrow(
+      "Token request failed (HTTP 400): Bad credentials"
+    );
+  });
+
+  it("refreshes an expired token and keeps the refresh token the server didn't replace", async () => {
+    respond = ({ params }) => ({
+      body:
+        params.grant_type === "refresh_token"
+          ? { access_token: "refreshed", expires_in: 60 }
+          : { access_token: "first", refresh_token: "refresh-1", expires_in: 60 },
+    });
+    const config = oauth2Config({ grantType: "client_credentials" });
+    await getAccessToken(config);
+
+    // Tokens count as expired 30 seconds early.
+    advance(31_000);
+    const refreshed = await getAccessToken(config);
+    expect(refreshed).toMatchObject({ accessToken: "refreshed", refreshToken: "refresh-1" });
+    expect(requests.map((request) => request.params.grant_type)).toEqual(["client_credentials", "refresh_token"]);
+    expect(requests[1].params.refresh_token).toBe("refresh-1");
+  });
+
+  it("fetches a new token once the cached one expires without a refresh token", async () => {
+    const config = oauth2Config({ grantType: "client_credentials" });
+    const first = await getAccessToken(config);
+
+    advance(3_569_000);
+    expect(await getAccessToken(config)).toBe(first);
+    advance(2_000);
+    const second = await getAccessToken(config);
+    expect(second.accessToken).not.toBe(first.accessToken);
+    expect(requests).toHaveLength(2);
+  });
+
+  it("falls back to the grant when refreshing fails", async () => {
+    respond = ({ params }) =>
+      params.grant_type === "refresh_token"
+        ? { status: 400, body: { error: "invalid_grant" } }
+        : { body: { access_token: `token-${++issued}`, refresh_token: "stale", expires_in: 60 } };
+    const config = oauth2Config({ grantType: "client_credentials" });
+    await getAccessToken(config);
+
+    advance(31_000);
+    const token = await getAccessToken(config);
+    expect(requests.map((request) => request.params.grant_type)).toEqual([
+      "client_credentials",
+      "refresh_token",
+      "client_credentials",
+    ]);
+    expect(getCachedToken(config)).toBe(token);
+  });
+
+  it("shares one request between concurrent callers", async () => {
+    const config = oauth2Config({ grantType: "client_credentials" });
+    const tokens = await Promise.all([getAccessToken(config), getAccessToken(config), getAccessToken(config)]);
+    expect(new Set(tokens).size).toBe(1);
+    expect(requests).toHaveLength(1);
+  });
+
+  it("doesn't reuse a token issued for different credentials", async () => {
+    await getAccessToken(oauth2Config({ grantType: "client_credentials", clientSecret: "wrong" }));
+    await getAccessToken(oauth2Config({ grantType: "client_credentials", clientSecret: "right" }));
+    await getAccessToken(oauth2Config({ grantType: "password", username: "ada", password: "wrong" }));
+    await getAccessToken(oauth2Config({ grantType: "password", username: "ada", password: "right" }));
+    expect(requests).toHaveLength(4);
+  });
+});
@@ -0,0 +1,325 @@
+import type { OAuth2Config } from "@/types/request";
+import { encodeBase64 } from "@/lib/encoding";
+
+export interface OAuth2Token {
+  accessToken: string;
+  tokenType: string;
+  refreshToken?: string;
+  scope?: string;
+  // Epoch milliseconds; undefined when the server didn't send expires_in.
+  expiresAt?: number;
+}
+
+export const OAUTH2_CALLBACK_PATH = "/oauth/callback";
+export const OAUTH2_CALLBACK_MESSAGE = "oauth2-callback";
+
+// Tokens are treated as expired slightly early so they don't lapse in flight.
+const EXPIRY_SKEW_MS = 30_000;
+const AUTHORIZATION_TIMEOUT_MS = 5 * 60_000;
+
+const tokenCache = new Map<string, OAuth2Token>();
+// Token requests in flight, so concurrent sends share one instead of each
+// fetching their own.
+const pendingTokens = new Map<string, Promise<OAuth2Token>>();
+const listeners = new Set<() => void>();
+let cacheVersion = 0;
+
+const notify = () => {
+  cacheVersion++;
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeTokens = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getTokenCacheVersion = () => cacheVersion;
+
+export const defaultRedirectUri = () => `${window.location.origin}${OAUTH2_CALLBACK_PATH}`;
+
+// Credentials are part of the key, so correcting a secret or password fetches
+// a new token instead of reusing the one issued for the old value. The cache
+// lives in memory only.
+const cacheKey = (config: OAuth2Config) =>
+  JSON.stringify([
+    config.grantType,
+    config.tokenUrl,
+    config.clientId,
+    config.clientSecret,
+    config.scope,
+    config.username,
+    config.password,
+  ]);
+
+export const isTokenExpired = (token: OAuth2Token) =>
+  token.expiresAt !== undefined && Date.now() >= token.expiresAt - EXPIRY_SKEW_MS;
+
+export const getCachedToken = (config: OAuth2Config): OAuth2Token | undefined =>
+  tokenCache.get(cacheKey(config));
+
+export const clearCachedToken = (config: OAuth2Config) => {
+  tokenCache.delete(cacheKey(config));
+  notify();
+};
+
+const storeToken = (config: OAuth2Config, token: OAuth2Token) => {
+  tokenCache.set(cacheKey(config), token);
+  notify();
+  return token;
+};
+
+const parseTokenResponse = async (res: Response, previous?: OAuth2Token): Promise<OAuth2Token> => {
+  const text = await res.text();
+  let payload: Record<string, unknown>;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    // Some providers (GitHub among them) answer form-encoded by default.
+    payload = Object.fromEntries(new URLSearchParams(text));
+  }
+
+  if (!res.ok || payload.error) {
+    const description = payload.error_description || payload.error || text || res.statusText;
+    throw new Error(`Token request failed (HTTP ${res.status}): ${description}`);
+  }
+  if (typeof payload.access_token !== "string") {
+    throw new Error("Token response did not include an access_token");
+  }
+
+  const expiresIn = Number(payload.expires_in);
+  return {
+    accessToken: payload.access_token,
+    tokenType: typeof payload.token_type === "string" ? payload.token_type : "Bearer",
+    // Servers may omit the refresh token on refresh, meaning the old one stays valid.
+    refreshToken: typeof payload.refresh_token === "string" ? payload.refresh_token : previous?.refreshToken,
+    scope: typeof payload.scope === "string" ? payload.scope : undefined,
+    expiresAt: Number.isFinite(expiresIn) && expiresIn > 0 ? Date.now() + expiresIn * 1000 : undefined,
+  };
+};
+
+const requestToken = async (
+  config: OAuth2Config,
+  params: Record<string, string>,
+  previous?: OAuth2Token
+): Promise<OAuth2Token> => {
+  if (!config.tokenUrl) {
+    throw new Error("OAuth 2.0 token URL is required");
+  }
+
+  const body = new URLSearchParams(params);
+  const headers = new Headers({
+    "Content-Type": "application/x-www-form-urlencoded",
+    Accept: "application/json",
+  });
+
+  if (config.clientAuth === "header" && config.clientSecret) {
+    // RFC 6749 §2.3.1: credentials are form-encoded before being base64'd.
+    const id = encodeURIComponent(config.clientId);
+    const secret = encodeURIComponent(config.clientSecret);
+    headers.set("Authorization", `Basic ${encodeBase64(`${id}:${secret}`)}`);
+  } else {
+    body.set("client_id", config.clientId);
+    if (config.clientSecret) {
+      body.set("client_secret", config.clientSecret);
+    }
+  }
+  if (config.scope && !body.has("scope") && params.grant_type !== "authorization_code") {
+    body.set("scope", config.scope);
+  }
+
+  let res: Response;
+  try {
+    res = await fetch(config.tokenUrl, { method: "POST", headers, body });
+  } catch (e) {
+    throw new Error(`Token request to ${config.tokenUrl} failed: ${(e as Error).message}`);
+  }
+  return parseTokenResponse(res, previous);
+};
+
+export const refreshAccessToken = async (config: OAuth2Config, token: OAuth2Token): Promise<OAuth2Token> => {
+  if (!token.refreshToken) {
+    throw new Error("No refresh token available");
+  }
+  const refreshed = await requestToken(
+    config,
+    { grant_type: "refresh_token", refresh_token: token.refreshToken },
+    token
+  );
+  return storeToken(config, refreshed);
+};
+
+const base64UrlEncode = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const randomString = (byteLength: number) =>
+  base64UrlEncode(crypto.getRandomValues(new Uint8Array(byteLength)));
+
+export const createPkcePair = async () => {
+  const verifier = randomString(32);
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(verifier));
+  return { verifier, challenge: base64UrlEncode(new Uint8Array(digest)) };
+};
+
+interface CallbackMessage {
+  type: typeof OAUTH2_CALLBACK_MESSAGE;
+  code?: string;
+  state?: string;
+  error?: string;
+  errorDescription?: string;
+}
+
+const waitForAuthorizationCode = (popup: Window, state: string): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const cleanup = () => {
+      window.removeEventListener("message", onMessage);
+      window.clearInterval(closedPoll);
+      window.clearTimeout(timeout);
+    };
+
+    const onMessage = (event: MessageEvent<CallbackMessage>) => {
+      if (event.origin !== window.location.origin || event.data?.type !== OAUTH2_CALLBACK_MESSAGE) {
+        return;
+      }
+      cleanup();
+      popup.close();
+      if (event.data.error) {
+        reject(new Error(`Authorization failed: ${event.data.errorDescription || event.data.error}`));
+      } else if (event.data.state !== state) {
+        reject(new Error("Authorization failed: state mismatch"));
+      } else if (!event.data.code) {
+        reject(new Error("Authorization failed: no code returned"));
+      } else {
+        resolve(event.data.code);
+      }
+    };
+
+    const closedPoll = window.setInterval(() => {
+      if (popup.closed) {
+        cleanup();
+        reject(new Error("Authorization window was closed before completing"));
+      }
+    }, 500);
+
+    const timeout = window.setTimeout(() => {
+      cleanup();
+      popup.close();
+      reject(new Error("Authorization timed out"));
+    }, AUTHORIZATION_TIMEOUT_MS);
+
+    window.addEventListener("message", onMessage);
+  });
+
+const authorizeWithPopup = async (config: OAuth2Config): Promise<OAuth2Token> => {
+  if (!config.authUrl) {
+    throw new Error("OAuth 2.0 authorization URL is required");
+  }
+
+  const redirectUri = config.redirectUri || defaultRedirectUri();
+  const state = randomString(16);
+  const pkce = config.usePkce ? await createPkcePair() : null;
+
+  let authUrl: URL;
+  try {
+    authUrl = new URL(config.authUrl);
+  } catch {
+    throw new Error(`Invalid authorization URL: ${config.authUrl}`);
+  }
+  authUrl.searchParams.set("response_type", "code");
+  authUrl.searchParams.set("client_id", config.clientId);
+  authUrl.searchParams.set("redirect_uri", redirectUri);
+  authUrl.searchParams.set("state", state);
+  if (config.scope) {
+    authUrl.searchParams.set("scope", config.scope);
+  }
+  if (pkce) {
+    authUrl.searchParams.set("code_challenge", pkce.challenge);
+    authUrl.searchParams.set("code_challenge_method", "S256");
+  }
+
+  const popup = window.open(authUrl.toString(), "oauth2-authorize", "width=520,height=680");
+  if (!popup) {
+    throw new Error("The authorization popup was blocked by the browser");
+  }
+
+  const code = await waitForAuthorizationCode(popup, state);
+  const params: Record<string, string> = {
+    grant_type: "authorization_code",
+    code,
+    redirect_uri: redirectUri,
+  };
+  if (pkce) {
+    params.code_verifier = pkce.verifier;
+  }
+  return requestToken(config, params);
+};
+
+/**
+ * Runs the configured grant and caches the result. The authorization code
+ * grant opens a popup, so it must be started from a user gesture.
+ */
+export const fetchNewToken = async (config: OAuth2Config): Promise<OAuth2Token> => {
+  let token: OAuth2Token;
+  switch (config.grantType) {
+    case "client_credentials":
+      token = await requestToken(config, { grant_type: "client_credentials" });
+      break;
+    case "password":
+      token = await requestToken(config, {
+        grant_type: "password",
+        username: config.username,
+        password: config.password,
+      });
+      break;
+    case "authorization_code":
+      token = await authorizeWithPopup(config);
+      break;
+  }
+  return storeToken(config, token);
+};
+
+const renewAccessToken = async (config: OAuth2Config, cached: OAuth2Token | undefined): Promise<OAuth2Token> => {
+  if (cached?.refreshToken) {
+    try {
+      return await refreshAccessToken(config, cached);
+    } catch (e) {
+      clearCachedToken(config);
+      if (config.grantType === "authorization_code") {
+        throw new Error(`Refreshing the access token failed: ${(e as Error).message}. Get a new access token from the Auth tab.`);
+      }
+    }
+  }
+
+  if (config.grantType === "authorization_code") {
+    throw new Error("No valid access token. Use \"Get New Access Token\" in the Auth tab to authorize.");
+  }
+  return fetchNewToken(config);
+};
+
+/**
+ * Returns a usable access token for a request: the cached one while it is
+ * valid, a refreshed one once it expires, or a freshly fetched one for
+ * grants that don't need the user. Callers asking while a token is being
+ * fetched wait for that same request.
+ */
+export const getAccessToken = async (config: OAuth2Config): Promise<OAuth2Token> => {
+  const cached = getCachedToken(config);
+  if (cached && !isTokenExpired(cached)) {
+    return cached;
+  }
+
+  const key = cacheKey(config);
+  let pending = pendingTokens.get(key);
+  if (!pending) {
+    pending = renewAccessToken(config, cached).finally(() => pendingTokens.delete(key));
+    pendingTokens.set(key, pending);
+  }
+  return pending;
+};
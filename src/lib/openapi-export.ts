@@ -0,0 +1,557 @@
+import { stringify as stringifyYaml } from "yaml";
+import type { Collection, CollectionFolder, CollectionItem, ResponseExample, SavedRequest } from "@/types/collection";
+import type { AuthConfig, RequestConfig } from "@/types/request";
+import { activeRows } from "@/lib/key-value";
+import { methodAllowsBody } from "@/lib/body";
+import { parseQueryParams } from "@/lib/query-params";
+import { restoreRequest } from "@/lib/request";
+import { resolveVariables, type VariableMap } from "@/lib/variables";
+
+// OpenAPI 3.1 uses JSON Schema 2020-12, so `type` may list several types
+// and nullable is spelled as "null" among them.
+interface Schema {
+  type?: string | string[];
+  format?: string;
+  properties?: Record<string, Schema>;
+  required?: string[];
+  items?: Schema;
+  anyOf?: Schema[];
+  contentMediaType?: string;
+}
+
+interface MediaType {
+  schema: Schema;
+  example?: unknown;
+  examples?: Record<string, { summary?: string; value: unknown }>;
+}
+
+interface Parameter {
+  name: string;
+  in: "path" | "query" | "header";
+  required?: boolean;
+  schema: Schema;
+  example?: unknown;
+}
+
+interface Server {
+  url: string;
+  description?: string;
+  variables?: Record<string, { default: string; description?: string }>;
+}
+
+interface Operation {
+  operationId: string;
+  summary: string;
+  tags?: string[];
+  parameters?: Parameter[];
+  requestBody?: { content: Record<string, MediaType> };
+  responses: Record<string, { description: string; content?: Record<string, MediaType> }>;
+  security?: Record<string, string[]>[];
+  servers?: Server[];
+}
+
+interface SecurityScheme {
+  type: string;
+  scheme?: string;
+  name?: string;
+  in?: string;
+  description?: string;
+  flows?: Record<string, { authorizationUrl?: string; tokenUrl?: string; scopes: Record<string, string> }>;
+}
+
+export interface OpenApiDocument {
+  openapi: "3.1.0";
+  info: { title: string; version: string; description?: string };
+  servers?: Server[];
+  tags?: { name: string }[];
+  paths: Record<string, Record<string, Operation>>;
+  components?: { securitySchemes: Record<string, SecurityScheme> };
+  security?: Record<string, string[]>[];
+}
+
+interface ExportContext {
+  variables: VariableMap;
+  servers: Map<string, Server>;
+  // Parameter names per path shape, so that /users/{{id}} and /users/42 share
+  // one template.
+  pathParamNames: Map<string, string[]>;
+  securitySchemes: Map<string, SecurityScheme>;
+  operationIds: Set<string>;
+}
+
+// Headers OpenAPI describes elsewhere (content, auth) rather than as parameters.
+const RESERVED_HEADERS = new Set(["accept", "content-type", "authorization"]);
+
+const STATUS_TEXT: Record<number, string> = {
+  200: "OK",
+  201: "Created",
+  202: "Accepted",
+  204: "No Content",
+  400: "Bad Request",
+  401: "Unauthorized",
+  403: "Forbidden",
+  404: "Not Found",
+  409: "Conflict",
+  422: "Unprocessable Content",
+  500: "Internal Server Error",
+};
+
+// Stands in for a server variable the active environment doesn't set.
+const UNSET_SERVER = "http://localhost";
+
+const VARIABLE = /\{\{\s*([^{}]+?)\s*\}\}/g;
+// Marks a body value standing in for an unquoted {{variable}}; its schema is
+// left open since the type is only known once resolved.
+const UNTYPED = "\u0000";
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const stringFormat = (value: string): string | undefined => {
+  if (UUID.test(value)) return "uuid";
+  if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/.test(value)) return "date-time";
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return "date";
+  if (/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) return "email";
+  if (/^https?:\/\/\S+$/.test(value)) return "uri";
+  return undefined;
+};
+
+const typesOf = (schema: Schema): string[] => (Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : []);
+
+// Combines the schemas of two samples of the same value: object properties
+// are unioned (required only if both have them) and differing scalar types
+// are listed together.
+const mergeSchemas = (a: Schema, b: Schema): Schema => {
+  if (a.type === "object" && b.type === "object") {
+    const properties: Record<string, Schema> = { ...a.properties };
+    for (const [key, schema] of Object.entries(b.properties ?? {})) {
+      properties[key] = properties[key] ? mergeSchemas(properties[key], schema) : schema;
+    }
+    const required = (a.required ?? []).filter((key) => b.required?.includes(key));
+    return { type: "object", properties, ...(required.length > 0 ? { required } : {}) };
+  }
+  if (a.type === "array" && b.type === "array") {
+    return { type: "array", items: mergeSchemas(a.items ?? {}, b.items ?? {}) };
+  }
+  if (a.type === b.type && typeof a.type === "string") {
+    return a.format === b.format ? a : { type: a.type };
+  }
+  const structured = [a, b].some((schema) => schema.type === "object" || schema.type === "array" || schema.anyOf);
+  if (structured) {
+    const nullOnly = [a, b].find((schema) => schema.type === "null");
+    const other = [a, b].find((schema) => schema !== nullOnly);
+    return nullOnly && other ? { anyOf: [other, { type: "null" }] } : { anyOf: [a, b] };
+  }
+  let types = [...new Set([...typesOf(a), ...typesOf(b)])];
+  if (types.includes("number")) types = types.filter((type) => type !== "integer");
+  return types.length === 1 ? { type: types[0] } : { type: types };
+};
+
+// Arrays are sampled rather than read in full.
+const MAX_ARRAY_SAMPLES = 20;
+
+export const inferSchema = (value: unknown): Schema => {
+  if (value === null) return { type: "null" };
+  if (Array.isArray(value)) {
+    const samples = value.slice(0, MAX_ARRAY_SAMPLES).map(inferSchema);
+    return { type: "array", items: samples.length > 0 ? samples.reduce(mergeSchemas) : {} };
+  }
+  switch (typeof value) {
+    case "boolean":
+      return { type: "boolean" };
+    case "number":
+      return { type: Number.isInteger(value) ? "integer" : "number" };
+    case "string": {
+      if (value.startsWith(UNTYPED)) return {};
+      const format = stringFormat(value);
+      return format ? { type: "string", format } : { type: "string" };
+    }
+    case "object": {
+      const entries = Object.entries(value as Record<string, unknown>);
+      return {
+        type: "object",
+        properties: Object.fromEntries(entries.map(([key, item]) => [key, inferSchema(item)])),
+        ...(entries.length > 0 ? { required: entries.map(([key]) => key) } : {}),
+      };
+    }
+    default:
+      return {};
+  }
+};
+
+// A query or path value's schema; numbers and booleans arrive as text.
+const scalarSchema = (value: string): Schema => {
+  if (/^-?\d+$/.test(value)) return { type: "integer" };
+  if (/^-?\d*\.\d+$/.test(value)) return { type: "number" };
+  if (value === "true" || value === "false") return { type: "boolean" };
+  return inferSchema(value);
+};
+
+const scalarExample = (value: string): unknown => {
+  const schema = scalarSchema(value);
+  if (schema.type === "integer" || schema.type === "number") return Number(value);
+  if (schema.type === "boolean") return value === "true";
+  return value;
+};
+
+// Variables without quotes around them would make the JSON invalid, so they
+// are read as UNTYPED strings. Quoted ones stay as the text they are.
+const parseJsonBody = (raw: string): { schema: Schema; example: unknown } | undefined => {
+  const text = raw.replace(/"(?:[^"\\]|\\.)*"|\{\{[^{}]*\}\}/g, (match) =>
+    match.startsWith('"') ? match : JSON.stringify(UNTYPED + match)
+  );
+  try {
+    const parsed = JSON.parse(text);
+    return { schema: inferSchema(parsed), example: JSON.parse(JSON.stringify(parsed).replace(/\\u0000/g, "")) };
+  } catch {
+    return undefined;
+  }
+};
+
+const mediaTypeOf = (request: RequestConfig, fallback: string) => {
+  const header = activeRows(request.headers).find((row) => row.key.toLowerCase() === "content-type");
+  return header ? header.value.split(";")[0].trim().toLowerCase() || fallback : fallback;
+};
+
+const requestBody = (request: RequestConfig): Operation["requestBody"] => {
+  const { body } = request;
+  if (!methodAllowsBody(request.method)) return undefined;
+  const single = (mediaType: string, content: MediaType) => ({ content: { [mediaType]: content } });
+  switch (body.mode) {
+    case "json": {
+      if (!body.raw.trim()) return undefined;
+      return single(mediaTypeOf(request, "application/json"), parseJsonBody(body.raw) ?? { schema: {} });
+    }
+    case "xml":
+    case "text":
+      if (!body.raw.trim()) return undefined;
+      return single(mediaTypeOf(request, body.mode === "xml" ? "application/xml" : "text/plain"), {
+        schema: { type: "string" },
+        example: body.raw,
+      });
+    case "urlencoded": {
+      const rows = activeRows(body.urlencoded);
+      if (rows.length === 0) return undefined;
+      return single("application/x-www-form-urlencoded", {
+        schema: { type: "object", properties: Object.fromEntries(rows.map((row) => [row.key, scalarSchema(row.value)])) },
+      });
+    }
+    case "multipart": {
+      const rows = activeRows(body.multipart);
+      if (rows.length === 0) return undefined;
+      return single("multipart/form-data", {
+        schema: {
+          type: "object",
+          properties: Object.fromEntries(
+            rows.map((row) => [
+              row.key,
+              row.type === "file" ? { type: "string", contentMediaType: "application/octet-stream" } : scalarSchema(row.value),
+            ])
+          ),
+        },
+      });
+    }
+    case "binary":
+      return single(mediaTypeOf(request, "application/octet-stream"), {
+        schema: { type: "string", contentMediaType: "application/octet-stream" },
+      });
+    case "graphql":
+      if (!body.graphql.query.trim()) return undefined;
+      return single("application/json", {
+        schema: {
+          type: "object",
+          properties: { query: { type: "string" }, variables: { type: "object" } },
+          required: ["query"],
+        },
+        example: { query: body.graphql.query, variables: parseJsonBody(body.graphql.variables || "{}")?.example },
+      });
+    default:
+      return undefined;
+  }
+};
+
+const responseContent = (example: ResponseExample): [string, MediaType] | null => {
+  if (!example.body.trim()) return null;
+  const mediaType = (example.headers["content-type"] ?? "").split(";")[0].trim().toLowerCase();
+  try {
+    const parsed = JSON.parse(example.body);
+    return [mediaType || "application/json", { schema: inferSchema(parsed), example: parsed }];
+  } catch {
+    return [mediaType || "text/plain", { schema: { type: "string" }, example: example.body }];
+  }
+};
+
+// Several examples for one status are merged into one schema, keeping each
+// as a named example.
+const responses = (examples: ResponseExample[]): Operation["responses"] => {
+  const byStatus = new Map<string, ResponseExample[]>();
+  for (const example of examples) {
+    const status = example.status ? String(example.status) : "default";
+    byStatus.set(status, [...(byStatus.get(status) ?? []), example]);
+  }
+  if (byStatus.size === 0) return { default: { description: "No example response was saved for this request." } };
+
+  return Object.fromEntries(
+    [...byStatus].map(([status, group]) => {
+      const description = group[0].statusText || STATUS_TEXT[group[0].status] || group[0].name;
+      const content: Record<string, MediaType> = {};
+      for (const example of group) {
+        const entry = responseContent(example);
+        if (!entry) continue;
+        const [mediaType, media] = entry;
+        const existing = content[mediaType];
+        content[mediaType] = {
+          schema: existing ? mergeSchemas(existing.schema, media.schema) : media.schema,
+          examples: { ...existing?.examples, [example.name]: { value: media.example } },
+        };
+      }
+      // A single example reads better inline.
+      for (const media of Object.values(content)) {
+        const named = Object.values(media.examples ?? {});
+        if (named.length === 1) {
+          media.example = named[0].value;
+          delete media.examples;
+        }
+      }
+      return [status, Object.keys(content).length > 0 ? { description, content } : { description }];
+    })
+  );
+};
+
+const singular = (word: string) => word.replace(/ies$/, "y").replace(/(?<!s)s$/, "");
+
+const camelCase = (text: string) => {
+  const words = text.match(/[A-Za-z0-9]+/g) ?? [];
+  return words
+    .map((word, i) => {
+      if (i > 0) return word[0].toUpperCase() + word.slice(1);
+      return word === word.toUpperCase() ? word.toLowerCase() : word[0].toLowerCase() + word.slice(1);
+    })
+    .join("");
+};
+
+// Stands in for a path parameter while the path's shape is worked out.
+const SLOT = "{}";
+
+// Splits a URL into the server template it is sent to and the templated
+// path. Server parts that are {{variables}} become server variables with the
+// active environment's value as the default.
+const splitUrl = (ctx: ExportContext, url: string): { server: string | null; path: string; pathParams: Parameter[] } => {
+  const withoutQuery = url.split(/[?#]/)[0];
+  const origin = withoutQuery.match(/^(?:[a-z][\w+.-]*:\/\/[^/]*|\{\{[^{}]+\}\})/i)?.[0] ?? null;
+  const rawPath = origin ? withoutQuery.slice(origin.length) : withoutQuery;
+  const server = origin ? origin.replace(VARIABLE, "{$1}") : null;
+
+  if (origin && server && !ctx.servers.has(server)) {
+    const names = [...origin.matchAll(VARIABLE)].map((match) => match[1]);
+    ctx.servers.set(server, {
+      url: server,
+      ...(names.length > 0
+        ? {
+            variables: Object.fromEntries(
+              names.map((name) => [
+                name,
+                {
+                  default:
+                    resolveVariables(`{{${name}}}`, ctx.variables, { dynamic: false }).replace(VARIABLE, "") || UNSET_SERVER,
+                  description: `The {{${name}}} variable.`,
+                },
+              ])
+            ),
+          }
+        : {}),
+    });
+  }
+
+  // Each parameter leaves a SLOT in the path, with the name it suggests.
+  const slots: { name: string; example?: string }[] = [];
+  const slot = (name: string, example?: string) => {
+    slots.push({ name, example });
+    return SLOT;
+  };
+  const segments = rawPath.split("/").filter(Boolean);
+  const shape = `/${segments
+    .map((segment, i) => {
+      if (segment.startsWith(":") && segment.length > 1) return slot(segment.slice(1));
+      if (segment.includes("{{")) {
+        return segment.replace(VARIABLE, (_, name: string) => slot(name.replace(/[^\w.-]/g, "_")));
+      }
+      // Literal ids are what make otherwise equal paths differ.
+      if (/^\d+$/.test(segment) || UUID.test(segment)) {
+        const previous = i > 0 && !segments[i - 1].startsWith("{") ? camelCase(singular(segments[i - 1])) : "";
+        return slot(previous ? `${previous}Id` : "id", segment);
+      }
+      return segment;
+    })
+    .join("/")}`;
+
+  // The first request with this shape names its parameters, kept unique within the path.
+  const names =
+    ctx.pathParamNames.get(shape) ??
+    slots.reduce<string[]>((taken, { name }) => {
+      let unique = name;
+      for (let i = 2; taken.includes(unique); i++) unique = `${name}${i}`;
+      return [...taken, unique];
+    }, []);
+  ctx.pathParamNames.set(shape, names);
+  const pathParams = slots.map(({ example }, i): Parameter => ({
+    name: names[i],
+    in: "path",
+    required: true,
+    schema: example === undefined ? { type: "string" } : scalarSchema(example),
+    ...(example === undefined ? {} : { example: scalarExample(example) }),
+  }));
+  const path = shape.split(SLOT).reduce((result, part, i) => `${result}{${names[i - 1]}}${part}`);
+  return { server, path, pathParams };
+};
+
+const securityFor = (ctx: ExportContext, auth: AuthConfig): Record<string, string[]>[] | undefined => {
+  let baseName: string;
+  let scheme: SecurityScheme;
+  let scopes: string[] = [];
+  switch (auth.type) {
+    case "basic":
+      [baseName, scheme] = ["basicAuth", { type: "http", scheme: "basic" }];
+      break;
+    case "bearer":
+      [baseName, scheme] = ["bearerAuth", { type: "http", scheme: "bearer" }];
+      break;
+    case "apikey":
+      [baseName, scheme] = ["apiKeyAuth", { type: "apiKey", name: auth.apiKey.key, in: auth.apiKey.addTo }];
+      break;
+    case "awsv4":
+      [baseName, scheme] = [
+        "awsSigV4",
+        { type: "apiKey", name: "Authorization", in: "header", description: "AWS Signature Version 4" },
+      ];
+      break;
+    case "oauth2": {
+      const { grantType, authUrl, tokenUrl, scope } = auth.oauth2;
+      scopes = scope.split(/\s+/).filter(Boolean);
+      const scopeMap = Object.fromEntries(scopes.map((name) => [name, ""]));
+      const flows =
+        grantType === "client_credentials"
+          ? { clientCredentials: { tokenUrl, scopes: scopeMap } }
+          : grantType === "password"
+            ? { password: { tokenUrl, scopes: scopeMap } }
+            : { authorizationCode: { authorizationUrl: authUrl, tokenUrl, scopes: scopeMap } };
+      [baseName, scheme] = ["oauth2", { type: "oauth2", flows }];
+      break;
+    }
+    default:
+      return undefined;
+  }
+  // Same scheme, same name; different settings under one name get a number.
+  const signature = JSON.stringify(scheme);
+  let name = baseName;
+  for (let i = 2; ctx.securitySchemes.has(name) && JSON.stringify(ctx.securitySchemes.get(name)) !== signature; i++) {
+    name = `${baseName}${i}`;
+  }
+  ctx.securitySchemes.set(name, scheme);
+  return [{ [name]: scopes }];
+};
+
+const uniqueOperationId = (ctx: ExportContext, name: string, method: string) => {
+  const base = camelCase(name) || method.toLowerCase();
+  let id = base;
+  for (let i = 2; ctx.operationIds.has(id); i++) id = `${base}${i}`;
+  ctx.operationIds.add(id);
+  return id;
+};
+
+const buildOperation = (ctx: ExportContext, saved: SavedRequest, tag: string | null, pathParams: Parameter[]): Operation => {
+  const request = restoreRequest(saved.request);
+  const query: Parameter[] = parseQueryParams(request.url).map(({ key, value }) => ({
+    name: key,
+    in: "query",
+    schema: value.includes("{{") ? { type: "string" } : scalarSchema(value),
+    ...(value && !value.includes("{{") ? { example: scalarExample(value) } : {}),
+  }));
+  const headers: Parameter[] = activeRows(request.headers)
+    .filter((row) => !RESERVED_HEADERS.has(row.key.toLowerCase()))
+    .map((row) => ({
+      name: row.key,
+      in: "header",
+      schema: { type: "string" },
+      ...(row.value && !row.value.includes("{{") ? { example: row.value } : {}),
+    }));
+  const parameters = [...pathParams, ...query, ...headers];
+  const body = requestBody(request);
+  const security = securityFor(ctx, request.auth);
+
+  return {
+    operationId: uniqueOperationId(ctx, saved.name, request.method),
+    summary: saved.name,
+    ...(tag ? { tags: [tag] } : {}),
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(body ? { requestBody: body } : {}),
+    responses: responses(saved.examples ?? []),
+    ...(security ? { security } : {}),
+  };
+};
+
+/**
+ * Describes a collection or folder as an OpenAPI 3.1 document: one
+ * operation per saved request, tagged with its top-level folder. Literal
+ * ids in paths and {{variables}} become path parameters, and response
+ * schemas are inferred from the requests' saved examples. When two requests
+ * share a path and method, the first one describes the operation. Requests
+ * sent to other servers than most of them list their own.
+ */
+export const exportOpenApi = (node: Collection | CollectionFolder, variables: VariableMap): OpenApiDocument => {
+  const ctx: ExportContext = {
+    variables,
+    servers: new Map(),
+    pathParamNames: new Map(),
+    securitySchemes: new Map(),
+    operationIds: new Set(),
+  };
+  const paths: OpenApiDocument["paths"] = {};
+  const tags = new Set<string>();
+  const operationServers = new Map<Operation, string>();
+
+  const walk = (items: CollectionItem[], tag: string | null) => {
+    for (const item of items) {
+      if (item.type === "folder") {
+        walk(item.items, tag ?? item.name);
+        continue;
+      }
+      const method = item.request.method.toLowerCase();
+      const { server, path, pathParams } = splitUrl(ctx, item.request.url);
+      if (paths[path]?.[method]) continue;
+      if (tag) tags.add(tag);
+      const operation = buildOperation(ctx, item, tag, pathParams);
+      if (server) operationServers.set(operation, server);
+      paths[path] = { ...paths[path], [method]: operation };
+    }
+  };
+  walk(node.items, null);
+
+  // Security that every operation shares is stated once at the top.
+  const operations = Object.values(paths).flatMap((operations) => Object.values(operations));
+  const securities = new Set(operations.map((operation) => JSON.stringify(operation.security ?? null)));
+  const shared = securities.size === 1 && operations[0]?.security ? operations[0].security : undefined;
+  if (shared) operations.forEach((operation) => delete operation.security);
+
+  // The server most operations use is stated at the top; the others override it.
+  const serverUses = new Map<string, number>();
+  for (const server of operationServers.values()) serverUses.set(server, (serverUses.get(server) ?? 0) + 1);
+  let mainServer: string | undefined;
+  for (const [server, uses] of serverUses) {
+    if (!mainServer || uses > (serverUses.get(mainServer) ?? 0)) mainServer = server;
+  }
+  for (const [operation, server] of operationServers) {
+    if (server !== mainServer) operation.servers = [ctx.servers.get(server) as Server];
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: { title: node.name, version: "1.0.0" },
+    ...(mainServer ? { servers: [ctx.servers.get(mainServer) as Server] } : {}),
+    ...(tags.size > 0 ? { tags: [...tags].map((name) => ({ name })) } : {}),
+    paths,
+    ...(ctx.securitySchemes.size > 0 ? { components: { securitySchemes: Object.fromEntries(ctx.securitySchemes) } } : {}),
+    ...(shared ? { security: shared } : {}),
+  };
+};
+
+export const serializeOpenApi = (document: OpenApiDocument, format: "json" | "yaml"): string =>
+  format === "json" ? `${JSON.stringify(document, null, 2)}\n` : stringifyYaml(document, { aliasDuplicateObjects: false });
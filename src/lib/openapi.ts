@@ -0,0 +1,619 @@
+import type { CollectionItem } from "@/types/collection";
+import type { Environment } from "@/types/environment";
+import type { ImportResult } from "@/types/import";
+import type { AuthConfig, HttpMethod, KeyValueRow, MultipartRow, RequestBodyConfig, RequestConfig } from "@/types/request";
+import { createCollection, createFolder, createSavedRequest } from "@/lib/collections";
+import { createMultipartRow, defaultContentType } from "@/lib/body";
+import { createRow } from "@/lib/key-value";
+import { appendQueryParam } from "@/lib/query-params";
+import { createDefaultRequest } from "@/lib/request";
+
+// Only the parts of OpenAPI 3.x and Swagger 2.0 the importer reads. Both
+// versions are covered by the same shapes; fields unique to one are optional.
+
+interface Reference {
+  $ref?: string;
+}
+
+interface SchemaObject extends Reference {
+  type?: string | string[];
+  format?: string;
+  properties?: Record<string, SchemaObject>;
+  additionalProperties?: boolean | SchemaObject;
+  items?: SchemaObject;
+  allOf?: SchemaObject[];
+  oneOf?: SchemaObject[];
+  anyOf?: SchemaObject[];
+  enum?: unknown[];
+  const?: unknown;
+  example?: unknown;
+  examples?: unknown;
+  default?: unknown;
+  readOnly?: boolean;
+  xml?: { name?: string; attribute?: boolean };
+}
+
+interface ExampleObject extends Reference {
+  value?: unknown;
+}
+
+interface ParameterObject extends Reference, SchemaObject {
+  name?: string;
+  in?: string;
+  required?: boolean;
+  schema?: SchemaObject;
+  "x-example"?: unknown;
+}
+
+interface MediaTypeObject {
+  schema?: SchemaObject;
+  example?: unknown;
+  examples?: Record<string, ExampleObject>;
+}
+
+interface RequestBodyObject extends Reference {
+  content?: Record<string, MediaTypeObject>;
+}
+
+type SecurityRequirement = Record<string, string[]>;
+
+interface OperationObject {
+  tags?: string[];
+  summary?: string;
+  operationId?: string;
+  parameters?: ParameterObject[];
+  requestBody?: RequestBodyObject;
+  consumes?: string[];
+  security?: SecurityRequirement[];
+}
+
+type PathItemObject = Reference & { parameters?: ParameterObject[] } & Partial<Record<string, OperationObject>>;
+
+interface ServerObject {
+  url?: string;
+  description?: string;
+  variables?: Record<string, { default?: string }>;
+}
+
+interface OAuthFlow {
+  authorizationUrl?: string;
+  tokenUrl?: string;
+}
+
+interface SecuritySchemeObject extends Reference {
+  type?: string;
+  scheme?: string;
+  name?: string;
+  in?: string;
+  // OpenAPI 3.x
+  flows?: Record<string, OAuthFlow>;
+  // Swagger 2.0
+  flow?: string;
+  authorizationUrl?: string;
+  tokenUrl?: string;
+}
+
+interface SpecDocument {
+  openapi?: string;
+  swagger?: string;
+  info?: { title?: string };
+  servers?: ServerObject[];
+  host?: string;
+  basePath?: string;
+  schemes?: string[];
+  consumes?: string[];
+  tags?: { name?: string }[];
+  paths?: Record<string, PathItemObject>;
+  security?: SecurityRequirement[];
+  components?: { securitySchemes?: Record<string, SecuritySchemeObject> };
+  securityDefinitions?: Record<string, SecuritySchemeObject>;
+}
+
+interface ImportContext {
+  document: SpecDocument;
+  isSwagger: boolean;
+  warnings: string[];
+  // Path parameters seen so far, with the first example found for each.
+  pathVariables: Map<string, string>;
+  // Variables that auth placeholders refer to.
+  authVariables: Set<string>;
+}
+
+const OPERATION_METHODS = ["get", "put", "post", "delete", "options", "head", "patch"];
+
+// Example generation stops here so deeply nested schemas stay readable.
+const MAX_EXAMPLE_DEPTH = 8;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const warnOnce = (ctx: ImportContext, warning: string) => {
+  if (!ctx.warnings.includes(warning)) ctx.warnings.push(warning);
+};
+
+export const isOpenApiDocument = (document: unknown): document is SpecDocument =>
+  isObject(document) &&
+  ((typeof document.openapi === "string" && document.openapi.startsWith("3.")) || String(document.swagger) === "2.0");
+
+const decodePointerSegment = (segment: string) =>
+  decodeURIComponent(segment).replace(/~1/g, "/").replace(/~0/g, "~");
+
+/**
+ * Follows `$ref` chains within the document. References to other files
+ * can't be followed from here and resolve to an empty object with a warning.
+ * Circular schemas are fine: each lookup returns the same object, so the
+ * example builder can recognise a schema it is already inside.
+ */
+const resolve = <T extends Reference>(ctx: ImportContext, value: T | undefined): T | undefined => {
+  let current = value;
+  const followed = new Set<string>();
+  while (isObject(current) && typeof current.$ref === "string") {
+    const ref = current.$ref;
+    if (!ref.startsWith("#")) {
+      warnOnce(ctx, `External reference ${ref} can't be resolved and was left empty.`);
+      return {} as T;
+    }
+    if (followed.has(ref)) {
+      warnOnce(ctx, `Reference ${ref} points back at itself.`);
+      return {} as T;
+    }
+    followed.add(ref);
+    let target: unknown = ctx.document;
+    for (const segment of ref.slice(1).split("/").filter(Boolean).map(decodePointerSegment)) {
+      target = isObject(target) || Array.isArray(target) ? (target as Record<string, unknown>)[segment] : undefined;
+    }
+    if (target === undefined) {
+      warnOnce(ctx, `Reference ${ref} doesn't point at anything.`);
+      return undefined;
+    }
+    current = target as T;
+  }
+  return current;
+};
+
+const schemaType = (schema: SchemaObject): string | undefined => {
+  if (Array.isArray(schema.type)) return schema.type.find((type) => type !== "null") ?? schema.type[0];
+  if (schema.type) return schema.type;
+  if (schema.properties || schema.additionalProperties) return "object";
+  if (schema.items) return "array";
+  return undefined;
+};
+
+const STRING_FORMAT_EXAMPLES: Record<string, string> = {
+  "date-time": "2024-01-01T00:00:00Z",
+  date: "2024-01-01",
+  time: "00:00:00",
+  email: "user@example.com",
+  uuid: "3fa85f64-5717-4562-b3fc-2c963f66afa6",
+  uri: "https://example.com",
+  url: "https://example.com",
+  hostname: "example.com",
+  ipv4: "192.0.2.1",
+  ipv6: "2001:db8::1",
+  byte: "U3dhZ2dlciByb2Nrcw==",
+  binary: "",
+  password: "password",
+};
+
+// The first value an example-ish keyword gives, before falling back to the type.
+const declaredExample = (schema: SchemaObject): unknown => {
+  if (schema.example !== undefined) return schema.example;
+  // 3.1 schemas carry an array of examples.
+  if (Array.isArray(schema.examples) && schema.examples.length > 0) return schema.examples[0];
+  if (schema.const !== undefined) return schema.const;
+  if (schema.default !== undefined) return schema.default;
+  if (schema.enum && schema.enum.length > 0) return schema.enum[0];
+  return undefined;
+};
+
+/**
+ * Builds an example value for a schema. A schema that is already being
+ * expanded further up (a circular reference) contributes nothing, so
+ * recursive models end after one level instead of looping forever.
+ */
+const exampleFromSchema = (
+  ctx: ImportContext,
+  value: SchemaObject | undefined,
+  stack: SchemaObject[] = []
+): unknown => {
+  const schema = resolve(ctx, value);
+  if (!schema || stack.includes(schema) || stack.length >= MAX_EXAMPLE_DEPTH) return undefined;
+  const declared = declaredExample(schema);
+  if (declared !== undefined) return declared;
+
+  const inner = [...stack, schema];
+  if (schema.allOf) {
+    const parts = schema.allOf.map((part) => exampleFromSchema(ctx, part, inner)).filter((part) => part !== undefined);
+    return parts.every(isObject) ? Object.assign({}, ...parts) : parts[0];
+  }
+  const variants = schema.oneOf ?? schema.anyOf;
+  if (variants && variants.length > 0) return exampleFromSchema(ctx, variants[0], inner);
+
+  switch (schemaType(schema)) {
+    case "object": {
+      const result: Record<string, unknown> = {};
+      for (const [name, property] of Object.entries(schema.properties ?? {})) {
+        if (resolve(ctx, property)?.readOnly) continue;
+        const example = exampleFromSchema(ctx, property, inner);
+        if (example !== undefined) result[name] = example;
+      }
+      if (isObject(schema.additionalProperties) && Object.keys(result).length === 0) {
+        const example = exampleFromSchema(ctx, schema.additionalProperties, inner);
+        if (example !== undefined) result.additionalProp = example;
+      }
+      return result;
+    }
+    case "array": {
+      const item = exampleFromSchema(ctx, schema.items, inner);
+      return item === undefined ? [] : [item];
+    }
+    case "string":
+      return STRING_FORMAT_EXAMPLES[schema.format ?? ""] ?? "string";
+    case "integer":
+    case "number":
+      return 0;
+    case "boolean":
+      return true;
+    case "null":
+      return null;
+    default:
+      return undefined;
+  }
+};
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+const exampleToXml = (name: string, value: unknown, indent = ""): string => {
+  if (Array.isArray(value)) return value.map((item) => exampleToXml(name, item, indent)).join("\n");
+  if (isObject(value)) {
+    const children = Object.entries(value)
+      .map(([key, child]) => exampleToXml(key, child, `${indent}  `))
+      .filter(Boolean);
+    return `${indent}<${name}>\n${children.join("\n")}\n${indent}</${name}>`;
+  }
+  return `${indent}<${name}>${escapeXml(value === null || value === undefined ? "" : String(value))}</${name}>`;
+};
+
+const stringifyValue = (value: unknown): string => {
+  if (value === undefined || value === null) return "";
+  if (Array.isArray(value)) return value.map(stringifyValue).join(",");
+  return typeof value === "object" ? JSON.stringify(value) : String(value);
+};
+
+const parameterExample = (ctx: ImportContext, parameter: ParameterObject): unknown => {
+  if (parameter.example !== undefined) return parameter.example;
+  if (isObject(parameter.examples)) {
+    const first = resolve(ctx, Object.values(parameter.examples)[0] as ExampleObject);
+    if (first?.value !== undefined) return first.value;
+  }
+  if (parameter["x-example"] !== undefined) return parameter["x-example"];
+  // Swagger 2.0 puts the schema keywords on the parameter itself.
+  return exampleFromSchema(ctx, parameter.schema ?? parameter);
+};
+
+// Operation parameters override path-level ones with the same name and location.
+const mergeParameters = (ctx: ImportContext, ...lists: (ParameterObject[] | undefined)[]): ParameterObject[] => {
+  const merged = new Map<string, ParameterObject>();
+  for (const list of lists) {
+    for (const entry of list ?? []) {
+      const parameter = resolve(ctx, entry);
+      if (parameter?.name && parameter.in) merged.set(`${parameter.in}:${parameter.name}`, parameter);
+    }
+  }
+  return [...merged.values()];
+};
+
+const mediaTypeExample = (ctx: ImportContext, media: MediaTypeObject): unknown => {
+  if (media.example !== undefined) return media.example;
+  if (isObject(media.examples)) {
+    const first = resolve(ctx, Object.values(media.examples)[0]);
+    if (first?.value !== undefined) return first.value;
+  }
+  return exampleFromSchema(ctx, media.schema);
+};
+
+// Form fields from an object schema; binary properties become file fields.
+const formFields = (ctx: ImportContext, schema: SchemaObject | undefined, example: unknown) => {
+  const resolved = resolve(ctx, schema);
+  const values = isObject(example) ? example : {};
+  return Object.entries(resolved?.properties ?? {}).map(([name, property]) => {
+    const resolvedProperty = resolve(ctx, property);
+    const isFile =
+      resolvedProperty?.type === "file" ||
+      (resolvedProperty?.format === "binary" && schemaType(resolvedProperty) === "string") ||
+      resolvedProperty?.items?.format === "binary";
+    return { name, value: stringifyValue(values[name]), isFile };
+  });
+};
+
+const multipartRows = (fields: { name: string; value: string; isFile: boolean }[]): MultipartRow[] =>
+  fields.map((field) => ({
+    ...createMultipartRow(),
+    key: field.name,
+    value: field.isFile ? "" : field.value,
+    type: field.isFile ? "file" : "text",
+  }));
+
+const JSON_MEDIA_TYPE = /^application\/(?:[\w.+-]+\+)?json\b/i;
+const XML_MEDIA_TYPE = /^(?:application|text)\/(?:[\w.+-]+\+)?xml\b/i;
+
+// Picks the content type the editor handles best when several are offered.
+const preferredMediaType = (types: string[]) =>
+  types.find((type) => JSON_MEDIA_TYPE.test(type)) ??
+  types.find((type) => type.startsWith("application/x-www-form-urlencoded")) ??
+  types.find((type) => type.startsWith("multipart/form-data")) ??
+  types.find((type) => XML_MEDIA_TYPE.test(type)) ??
+  types.find((type) => type.startsWith("text/")) ??
+  types[0];
+
+const bodyForMediaType = (
+  ctx: ImportContext,
+  mediaType: string,
+  schema: SchemaObject | undefined,
+  example: unknown
+): Partial<RequestBodyConfig> => {
+  if (JSON_MEDIA_TYPE.test(mediaType)) {
+    return { mode: "json", raw: example === undefined ? "" : JSON.stringify(example, null, 2) };
+  }
+  if (mediaType.startsWith("application/x-www-form-urlencoded")) {
+    return {
+      mode: "urlencoded",
+      urlencoded: formFields(ctx, schema, example).map((field) => createRow(field.name, field.value)),
+    };
+  }
+  if (mediaType.startsWith("multipart/form-data")) {
+    return { mode: "multipart", multipart: multipartRows(formFields(ctx, schema, example)) };
+  }
+  if (XML_MEDIA_TYPE.test(mediaType)) {
+    const name = resolve(ctx, schema)?.xml?.name ?? schema?.$ref?.split("/").pop() ?? "root";
+    return { mode: "xml", raw: typeof example === "string" ? example : example === undefined ? "" : exampleToXml(name, example) };
+  }
+  if (mediaType.startsWith("text/")) {
+    return { mode: "text", raw: stringifyValue(example) };
+  }
+  return { mode: "binary" };
+};
+
+// The body, plus a Content-Type header when the mode's default doesn't match the spec.
+const buildRequestBody = (
+  ctx: ImportContext,
+  operation: OperationObject,
+  parameters: ParameterObject[]
+): { body: Partial<RequestBodyConfig>; contentType?: string } | null => {
+  if (!ctx.isSwagger) {
+    const requestBody = resolve(ctx, operation.requestBody);
+    const content = requestBody?.content ?? {};
+    const mediaType = preferredMediaType(Object.keys(content));
+    if (!mediaType) return null;
+    const media = content[mediaType] ?? {};
+    return {
+      body: bodyForMediaType(ctx, mediaType, media.schema, mediaTypeExample(ctx, media)),
+      contentType: mediaType,
+    };
+  }
+
+  const bodyParameter = parameters.find((parameter) => parameter.in === "body");
+  const consumes = operation.consumes ?? ctx.document.consumes ?? [];
+  if (bodyParameter) {
+    const mediaType = preferredMediaType(consumes) ?? "application/json";
+    const example = bodyParameter["x-example"] ?? exampleFromSchema(ctx, bodyParameter.schema);
+    return { body: bodyForMediaType(ctx, mediaType, bodyParameter.schema, example), contentType: mediaType };
+  }
+
+  const formParameters = parameters.filter((parameter) => parameter.in === "formData");
+  if (formParameters.length === 0) return null;
+  const fields = formParameters.map((parameter) => ({
+    name: parameter.name,
+    value: stringifyValue(parameterExample(ctx, parameter)),
+    isFile: parameter.type === "file",
+  }));
+  const multipart = fields.some((field) => field.isFile) || consumes.some((type) => type.startsWith("multipart/form-data"));
+  return multipart
+    ? { body: { mode: "multipart", multipart: multipartRows(fields) }, contentType: "multipart/form-data" }
+    : {
+        body: { mode: "urlencoded", urlencoded: fields.map((field) => createRow(field.name, field.value)) },
+        contentType: "application/x-www-form-urlencoded",
+      };
+};
+
+const authVariable = (ctx: ImportContext, name: string) => {
+  ctx.authVariables.add(name);
+  return `{{${name}}}`;
+};
+
+// Maps the first security scheme an operation accepts onto the auth editor.
+const buildAuth = (ctx: ImportContext, operation: OperationObject, auth: AuthConfig): AuthConfig => {
+  const requirements = operation.security ?? ctx.document.security ?? [];
+  const schemes = ctx.document.components?.securitySchemes ?? ctx.document.securityDefinitions ?? {};
+  const schemeName = requirements.flatMap((requirement) => Object.keys(requirement))[0];
+  const scheme = schemeName ? resolve(ctx, schemes[schemeName]) : undefined;
+  if (!scheme) return auth;
+
+  const type = scheme.type?.toLowerCase();
+  const httpScheme = scheme.scheme?.toLowerCase();
+  if (type === "basic" || (type === "http" && httpScheme === "basic")) {
+    return {
+      ...auth,
+      type: "basic",
+      basic: { username: authVariable(ctx, "username"), password: authVariable(ctx, "password") },
+    };
+  }
+  if (type === "http" && httpScheme === "bearer") {
+    return { ...auth, type: "bearer", bearer: { token: authVariable(ctx, "token"), prefix: "Bearer" } };
+  }
+  if (type === "apikey" && (scheme.in === "header" || scheme.in === "query")) {
+    return {
+      ...auth,
+      type: "apikey",
+      apiKey: { key: scheme.name ?? "", value: authVariable(ctx, "apiKey"), addTo: scheme.in },
+    };
+  }
+  if (type === "oauth2") {
+    const flows = scheme.flows ?? {};
+    const flow = flows.clientCredentials ?? flows.password ?? flows.authorizationCode ?? flows.implicit ?? scheme;
+    const grantType =
+      flows.clientCredentials || scheme.flow === "application"
+        ? "client_credentials"
+        : flows.password || scheme.flow === "password"
+          ? "password"
+          : "authorization_code";
+    return {
+      ...auth,
+      type: "oauth2",
+      oauth2: {
+        ...auth.oauth2,
+        grantType,
+        tokenUrl: flow.tokenUrl ?? "",
+        authUrl: flow.authorizationUrl ?? "",
+        clientId: authVariable(ctx, "clientId"),
+        clientSecret: authVariable(ctx, "clientSecret"),
+      },
+    };
+  }
+  warnOnce(ctx, `Security scheme "${schemeName}" (${scheme.type}) isn't supported; set auth on those requests by hand.`);
+  return auth;
+};
+
+const buildOperationRequest = (
+  ctx: ImportContext,
+  path: string,
+  method: string,
+  pathItem: PathItemObject,
+  operation: OperationObject
+): RequestConfig => {
+  const request = createDefaultRequest();
+  request.method = method.toUpperCase() as HttpMethod;
+  const parameters = mergeParameters(ctx, pathItem.parameters, operation.parameters);
+
+  // {id} becomes {{id}}; the environments carry a value for each.
+  let url = `{{baseUrl}}${path.replace(/\{([^{}]+)\}/g, (_, name: string) => `{{${name}}}`)}`;
+  const cookies: string[] = [];
+  const headers: KeyValueRow[] = [];
+  for (const parameter of parameters) {
+    const value = stringifyValue(parameterExample(ctx, parameter));
+    if (parameter.in === "path") {
+      if (!ctx.pathVariables.get(parameter.name)) ctx.pathVariables.set(parameter.name, value);
+    } else if (parameter.in === "query") {
+      url = appendQueryParam(url, parameter.name, value);
+    } else if (parameter.in === "header") {
+      // The spec says these three are described elsewhere and ignored as parameters.
+      if (!/^(accept|content-type|authorization)$/i.test(parameter.name)) headers.push(createRow(parameter.name, value));
+    } else if (parameter.in === "cookie") {
+      cookies.push(`${parameter.name}=${value}`);
+    }
+  }
+  for (const name of path.match(/\{([^{}]+)\}/g) ?? []) {
+    const variable = name.slice(1, -1);
+    if (!ctx.pathVariables.has(variable)) ctx.pathVariables.set(variable, "");
+  }
+  if (cookies.length > 0) headers.push(createRow("Cookie", cookies.join("; ")));
+
+  const body = buildRequestBody(ctx, operation, parameters);
+  if (body) {
+    request.body = { ...request.body, ...body.body };
+    if (body.contentType && body.contentType !== defaultContentType(request.body) && request.body.mode !== "multipart") {
+      headers.push(createRow("Content-Type", body.contentType));
+    }
+  }
+
+  request.url = url;
+  request.headers = headers;
+  request.auth = buildAuth(ctx, operation, request.auth);
+  return request;
+};
+
+const operationName = (path: string, method: string, operation: OperationObject) =>
+  operation.summary?.trim() || operation.operationId?.trim() || `${method.toUpperCase()} ${path}`;
+
+// Server URLs with their {variables} replaced by the declared defaults.
+const serverUrls = (ctx: ImportContext): { name: string; url: string }[] => {
+  const { document } = ctx;
+  if (ctx.isSwagger) {
+    if (!document.host) {
+      ctx.warnings.push("The spec doesn't name a host; set baseUrl in the imported environment.");
+      return [{ name: "Default", url: document.basePath ?? "" }];
+    }
+    const schemes = document.schemes?.length ? document.schemes : ["https"];
+    return schemes.map((scheme) => ({
+      name: scheme.toUpperCase(),
+      url: `${scheme}://${document.host}${document.basePath ?? ""}`.replace(/\/$/, ""),
+    }));
+  }
+
+  const servers = (document.servers ?? []).filter((server) => typeof server.url === "string");
+  if (servers.length === 0) {
+    ctx.warnings.push("The spec doesn't list any servers; set baseUrl in the imported environment.");
+    return [{ name: "Default", url: "" }];
+  }
+  return servers.map((server) => {
+    const url = server.url
+      .replace(/\{([^{}]+)\}/g, (match, name: string) => server.variables?.[name]?.default ?? match)
+      .replace(/\/$/, "");
+    if (!/^[a-z][a-z0-9+.-]*:\/\//i.test(url)) {
+      warnOnce(ctx, `Server "${url || "/"}" is relative; prefix it with the host the spec is served from.`);
+    }
+    return { name: server.description?.trim() || url || "Default", url };
+  });
+};
+
+/**
+ * Turns an OpenAPI 3.x or Swagger 2.0 document into a collection with one
+ * request per operation, in a folder per first tag, and an environment per
+ * server holding baseUrl and the path parameters.
+ */
+export const importOpenApi = (document: SpecDocument): ImportResult => {
+  const ctx: ImportContext = {
+    document,
+    isSwagger: document.swagger !== undefined && document.openapi === undefined,
+    warnings: [],
+    pathVariables: new Map(),
+    authVariables: new Set(),
+  };
+  const title = document.info?.title?.trim() || "Imported API";
+
+  // Folders follow the spec's own tag order, then the order tags first appear.
+  const folders = new Map<string, CollectionItem[]>();
+  for (const tag of document.tags ?? []) {
+    if (tag.name) folders.set(tag.name, []);
+  }
+  const rootItems: CollectionItem[] = [];
+
+  for (const [path, entry] of Object.entries(document.paths ?? {})) {
+    const pathItem = resolve(ctx, entry);
+    if (!isObject(pathItem)) continue;
+    if (pathItem.trace) warnOnce(ctx, "TRACE operations aren't supported and were skipped.");
+    for (const method of OPERATION_METHODS) {
+      const operation = pathItem[method];
+      if (!isObject(operation)) continue;
+      const saved = createSavedRequest(
+        operationName(path, method, operation),
+        buildOperationRequest(ctx, path, method, pathItem, operation)
+      );
+      const tag = operation.tags?.[0];
+      if (tag) {
+        folders.set(tag, [...(folders.get(tag) ?? []), saved]);
+      } else {
+        rootItems.push(saved);
+      }
+    }
+  }
+
+  const items: CollectionItem[] = [
+    ...[...folders].filter(([, requests]) => requests.length > 0).map(([tag, requests]) => createFolder(tag, requests)),
+    ...rootItems,
+  ];
+  if (items.length === 0) ctx.warnings.push("The spec doesn't define any operations.");
+
+  const environments: Environment[] = serverUrls(ctx).map((server) => ({
+    id: crypto.randomUUID(),
+    name: `${title}: ${server.name}`,
+    variables: [
+      createRow("baseUrl", server.url),
+      ...[...ctx.pathVariables].map(([name, value]) => createRow(name, value)),
+      ...[...ctx.authVariables].filter((name) => !ctx.pathVariables.has(name)).map((name) => createRow(name, "")),
+    ],
+  }));
+
+  return { collection: createCollection(title, items), environments, warnings: ctx.warnings };
+};
@@ -0,0 +1,547 @@
+import type { CollectionItem, ResponseExample } from "@/types/collection";
+import type { Environment } from "@/types/environment";
+import type { ImportResult } from "@/types/import";
+import type { AuthConfig, HttpMethod, KeyValueRow, OAuth2GrantType, RequestBodyConfig, RequestConfig } from "@/types/request";
+import { createCollection, createFolder, createSavedRequest } from "@/lib/collections";
+import { createDefaultBody, createMultipartRow } from "@/lib/body";
+import { createRow } from "@/lib/key-value";
+import { createDefaultRequest, HTTP_METHODS } from "@/lib/request";
+
+// The parts of the Postman v2.0/v2.1 collection and environment formats
+// the importer reads.
+
+interface PostmanVariable {
+  key?: string;
+  value?: unknown;
+  disabled?: boolean;
+  // Environment files use `enabled` instead of `disabled`.
+  enabled?: boolean;
+  type?: string;
+  src?: unknown;
+}
+
+// v2.1 stores scheme settings as a key/value list, v2.0 as an object.
+type PostmanAuthAttributes = PostmanVariable[] | Record<string, unknown>;
+
+interface PostmanAuth {
+  type?: string;
+  [scheme: string]: PostmanAuthAttributes | string | undefined;
+}
+
+interface PostmanEvent {
+  listen?: string;
+  disabled?: boolean;
+  script?: { exec?: string | string[] };
+}
+
+interface PostmanUrl {
+  raw?: string;
+  variable?: PostmanVariable[];
+}
+
+interface PostmanBody {
+  mode?: string;
+  disabled?: boolean;
+  raw?: string;
+  urlencoded?: PostmanVariable[];
+  formdata?: PostmanVariable[];
+  file?: { src?: unknown };
+  graphql?: { query?: string; variables?: string };
+  options?: { raw?: { language?: string } };
+}
+
+interface PostmanRequest {
+  method?: string;
+  url?: string | PostmanUrl;
+  header?: PostmanVariable[] | string;
+  body?: PostmanBody | null;
+  auth?: PostmanAuth | null;
+}
+
+interface PostmanResponse {
+  name?: string;
+  status?: string;
+  code?: number;
+  header?: PostmanVariable[] | string | null;
+  body?: string | null;
+}
+
+interface PostmanItem {
+  name?: string;
+  item?: PostmanItem[];
+  request?: PostmanRequest | string;
+  response?: PostmanResponse[];
+  event?: PostmanEvent[];
+  auth?: PostmanAuth | null;
+}
+
+interface PostmanCollection {
+  info: { name?: string; schema?: string };
+  item?: PostmanItem[];
+  auth?: PostmanAuth | null;
+  event?: PostmanEvent[];
+  variable?: PostmanVariable[];
+}
+
+interface PostmanEnvironment {
+  name?: string;
+  values: PostmanVariable[];
+  _postman_variable_scope?: string;
+}
+
+// What a folder passes down to everything inside it.
+interface Inherited {
+  auth: AuthConfig;
+  preRequest: string[];
+  test: string[];
+}
+
+interface ConversionContext {
+  warnings: string[];
+  fileFields: number;
+  unknownDynamicVariables: Set<string>;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+export const isPostmanCollection = (document: unknown): document is PostmanCollection =>
+  isObject(document) && isObject(document.info) && typeof document.info.schema === "string" &&
+  document.info.schema.includes("getpostman.com");
+
+export const isPostmanEnvironment = (document: unknown): document is PostmanEnvironment =>
+  isObject(document) &&
+  Array.isArray(document.values) &&
+  (typeof document._postman_variable_scope === "string" || typeof document.name === "string");
+
+const text = (value: unknown): string => {
+  if (value === undefined || value === null) return "";
+  return typeof value === "string" ? value : typeof value === "object" ? JSON.stringify(value) : String(value);
+};
+
+// Postman's dynamic variables that have an equivalent here.
+const DYNAMIC_VARIABLES: Record<string, string> = {
+  $guid: "$uuid",
+  $randomUUID: "$uuid",
+  $timestamp: "$timestamp",
+  $isoTimestamp: "$isoTimestamp",
+  $randomInt: "$randomInt",
+  $randomEmail: "$randomEmail",
+  $randomExampleEmail: "$randomEmail",
+  $randomAlphaNumeric: "$randomString 1",
+};
+
+// Renames the dynamic variables we know and notes the ones we don't.
+const convertText = (ctx: ConversionContext, value: unknown): string =>
+  text(value).replace(/\{\{\s*(\$\w+)\s*\}\}/g, (match, name: string) => {
+    if (DYNAMIC_VARIABLES[name]) return `{{${DYNAMIC_VARIABLES[name]}}}`;
+    ctx.unknownDynamicVariables.add(name);
+    return match;
+  });
+
+const convertRows = (ctx: ConversionContext, entries: PostmanVariable[] | undefined): KeyValueRow[] =>
+  (entries ?? [])
+    .filter((entry) => entry.key)
+    .map((entry) => createRow(entry.key, convertText(ctx, entry.value), !entry.disabled));
+
+// Headers can also come as the raw "Name: value" lines of older exports.
+const headerEntries = (header: PostmanVariable[] | string | null | undefined): PostmanVariable[] => {
+  if (Array.isArray(header)) return header;
+  if (typeof header !== "string") return [];
+  return header
+    .split(/\r?\n/)
+    .map((line) => line.split(/:(.*)/s))
+    .filter(([key]) => key.trim())
+    .map(([key, value = ""]) => ({ key: key.trim(), value: value.trim() }));
+};
+
+const authAttributes = (auth: PostmanAuth, scheme: string): Record<string, string> => {
+  const attributes = auth[scheme];
+  if (Array.isArray(attributes)) {
+    return Object.fromEntries(attributes.filter((entry) => entry.key).map((entry) => [entry.key, text(entry.value)]));
+  }
+  return isObject(attributes) ? Object.fromEntries(Object.entries(attributes).map(([key, value]) => [key, text(value)])) : {};
+};
+
+const OAUTH2_GRANTS: Record<string, OAuth2GrantType> = {
+  client_credentials: "client_credentials",
+  password_credentials: "password",
+  authorization_code: "authorization_code",
+  authorization_code_with_pkce: "authorization_code",
+};
+
+const convertAuth = (ctx: ConversionContext, auth: PostmanAuth, base: AuthConfig, where: string): AuthConfig => {
+  const type = auth.type ?? "noauth";
+  const attributes = Object.fromEntries(
+    Object.entries(authAttributes(auth, type)).map(([key, value]) => [key, convertText(ctx, value)])
+  );
+  switch (type) {
+    case "noauth":
+      return { ...base, type: "none" };
+    case "basic":
+      return { ...base, type: "basic", basic: { username: attributes.username ?? "", password: attributes.password ?? "" } };
+    case "bearer":
+      return { ...base, type: "bearer", bearer: { token: attributes.token ?? "", prefix: "Bearer" } };
+    case "apikey":
+      return {
+        ...base,
+        type: "apikey",
+        apiKey: { key: attributes.key ?? "", value: attributes.value ?? "", addTo: attributes.in === "query" ? "query" : "header" },
+      };
+    case "awsv4":
+      return {
+        ...base,
+        type: "awsv4",
+        awsV4: {
+          accessKeyId: attributes.accessKey ?? "",
+          secretAccessKey: attributes.secretKey ?? "",
+          sessionToken: attributes.sessionToken ?? "",
+          region: attributes.region || base.awsV4.region,
+          service: attributes.service || base.awsV4.service,
+        },
+      };
+    case "oauth2": {
+      const grantType = OAUTH2_GRANTS[attributes.grant_type ?? "authorization_code"];
+      // A bare token without a way to fetch a new one is just a bearer token.
+      if (!attributes.accessTokenUrl && attributes.accessToken) {
+        return { ...base, type: "bearer", bearer: { token: attributes.accessToken, prefix: attributes.headerPrefix || "Bearer" } };
+      }
+      if (!grantType) {
+        ctx.warnings.push(`${where}: the OAuth 2.0 ${attributes.grant_type} grant isn't supported; it was set to authorization code.`);
+      }
+      if (attributes.addTokenTo === "queryParams") {
+        ctx.warnings.push(`${where}: OAuth 2.0 tokens are always sent in the Authorization header here.`);
+      }
+      return {
+        ...base,
+        type: "oauth2",
+        oauth2: {
+          ...base.oauth2,
+          grantType: grantType ?? "authorization_code",
+          tokenUrl: attributes.accessTokenUrl ?? "",
+          authUrl: attributes.authUrl ?? "",
+          redirectUri: attributes.redirect_uri ?? "",
+          clientId: attributes.clientId ?? "",
+          clientSecret: attributes.clientSecret ?? "",
+          scope: attributes.scope ?? "",
+          username: attributes.username ?? "",
+          password: attributes.password ?? "",
+          usePkce: attributes.grant_type === "authorization_code_with_pkce",
+          clientAuth: attributes.client_authentication === "body" ? "body" : "header",
+          headerPrefix: attributes.headerPrefix || "Bearer",
+        },
+      };
+    }
+    default:
+      ctx.warnings.push(`${where}: ${type} auth isn't supported, so it was imported without auth.`);
+      return { ...base, type: "none" };
+  }
+};
+
+// A missing auth or type "inherit" means the parent's auth applies.
+const effectiveAuth = (ctx: ConversionContext, auth: PostmanAuth | null | undefined, inherited: AuthConfig, where: string) =>
+  !auth || auth.type === "inherit" ? inherited : convertAuth(ctx, auth, inherited, where);
+
+// Chai chains (after `.to`, with `not` taken out) and the matcher they become.
+const CHAI_MATCHERS: Record<string, string> = {
+  "equal(": "toBe(",
+  "eq(": "toBe(",
+  "equals(": "toBe(",
+  "be.equal(": "toBe(",
+  "eql(": "toEqual(",
+  "deep.equal(": "toEqual(",
+  "deep.eql(": "toEqual(",
+  "include(": "toContain(",
+  "includes(": "toContain(",
+  "contain(": "toContain(",
+  "contains(": "toContain(",
+  "have.string(": "toContain(",
+  "match(": "toMatch(",
+  "have.property(": "toHaveProperty(",
+  "have.nested.property(": "toHaveProperty(",
+  "have.length(": "toHaveLength(",
+  "have.lengthOf(": "toHaveLength(",
+  "have.a.lengthOf(": "toHaveLength(",
+  "be.above(": "toBeGreaterThan(",
+  "be.greaterThan(": "toBeGreaterThan(",
+  "be.gt(": "toBeGreaterThan(",
+  "be.below(": "toBeLessThan(",
+  "be.lessThan(": "toBeLessThan(",
+  "be.lt(": "toBeLessThan(",
+  "be.at.least(": "toBeGreaterThanOrEqual(",
+  "be.least(": "toBeGreaterThanOrEqual(",
+  "be.gte(": "toBeGreaterThanOrEqual(",
+  "be.at.most(": "toBeLessThanOrEqual(",
+  "be.most(": "toBeLessThanOrEqual(",
+  "be.lte(": "toBeLessThanOrEqual(",
+  "be.true": "toBe(true)",
+  "be.false": "toBe(false)",
+  "be.ok": "toBeTruthy()",
+  "be.null": "toBeNull()",
+  "be.undefined": "toBeUndefined()",
+  exist: "toBeDefined()",
+};
+
+const CHAI_CHAIN = /(\.not)?\.to((?:\.(?:not|deep|nested|be|been|have|has|at|a))*)\.(\w+)(\()?/g;
+
+const lowerCaseName = (name: string) => JSON.stringify(name.toLowerCase());
+
+// Postman sandbox calls and the equivalent in ours, applied in order.
+const SCRIPT_REWRITES: [RegExp, string | ((...match: string[]) => string)][] = [
+  [/\bpostman\.(?:setEnvironmentVariable|setGlobalVariable)\(/g, "pm.environment.set("],
+  [/\bpostman\.(?:getEnvironmentVariable|getGlobalVariable)\(/g, "pm.environment.get("],
+  [/\bpostman\.(?:clearEnvironmentVariable|clearGlobalVariable)\(/g, "pm.environment.unset("],
+  // Every Postman variable scope ends up in an environment on import.
+  [/\bpm\.(?:variables|globals|collectionVariables)\.(get|set|has|unset|toObject)\(/g, "pm.environment.$1("],
+  [/\bpm\.response\.json\(\)/g, "pm.response.data"],
+  [/\bJSON\.parse\(responseBody\)/g, "pm.response.data"],
+  [/\bpm\.response\.text\(\)/g, '(typeof pm.response.data === "string" ? pm.response.data : JSON.stringify(pm.response.data))'],
+  // Postman's `status` is the reason phrase and `code` the number.
+  [/\bpm\.response\.status\b(?!Text)/g, "pm.response.statusText"],
+  [/\bpm\.response\.code\b/g, "pm.response.status"],
+  [/\bresponseCode\.code\b/g, "pm.response.status"],
+  [/\bpm\.response\.responseTime\b/g, "pm.response.time"],
+  [/(?<![.\w])responseTime\b/g, "pm.response.time"],
+  [/\bpm\.response\.headers\.get\((["'])(.*?)\1\)/g, (_, __, name) => `pm.response.headers[${lowerCaseName(name)}]`],
+  [/\bpm\.response\.to\.have\.status\(/g, "pm.expect(pm.response.status).toBe("],
+  [
+    /\bpm\.response\.to\.have\.header\((["'])(.*?)\1\)/g,
+    (_, __, name) => `pm.expect(pm.response.headers).toHaveProperty(${lowerCaseName(name)})`,
+  ],
+  [/\bpm\.response\.to\.be\.ok\b/g, "pm.expect(pm.response.status).toBe(200)"],
+  [/\bpm\.request\.headers\.(?:add|upsert)\(\s*\{\s*key:\s*([^,]+?),\s*value:\s*([^}]+?)\s*\}\s*\)/g, "pm.request.headers.set($1, $2)"],
+  [/\bpm\.request\.url\.toString\(\)/g, "pm.request.url"],
+  // Legacy `tests["name"] = condition;`
+  [
+    /^(\s*)tests\[(.+?)\]\s*=\s*(.+?);?\s*$/gm,
+    (_, indent, name, condition) => `${indent}pm.test(${name}, () => pm.expect(Boolean(${condition})).toBe(true));`,
+  ],
+  [
+    CHAI_CHAIN,
+    (match, leadingNot = "", chain, matcher, paren = "") => {
+      const words = chain.split(".").filter((word) => word && word !== "not");
+      const replacement = CHAI_MATCHERS[[...words, matcher].join(".") + paren];
+      if (!replacement) return match;
+      const negated = Boolean(leadingNot) !== chain.split(".").includes("not");
+      return `${negated ? ".not" : ""}.${replacement}`;
+    },
+  ],
+];
+
+// Whatever is left of these after rewriting has no counterpart here.
+const UNSUPPORTED_SCRIPT_APIS: [RegExp, string][] = [
+  [/\bpm\.sendRequest\b/, "pm.sendRequest"],
+  [/\bpm\.cookies\b/, "pm.cookies"],
+  [/\bpm\.iterationData\b/, "pm.iterationData"],
+  [/\bpm\.info\b/, "pm.info"],
+  [/\bpm\.visualizer\b/, "pm.visualizer"],
+  [/\bpm\.execution\b/, "pm.execution"],
+  [/\bpm\.vault\b/, "pm.vault"],
+  [/\bpm\.(?:variables|globals|collectionVariables|environment)\.(?!get\b|set\b|has\b|unset\b|toObject\b)\w+/, "variable helpers other than get/set/has/unset"],
+  [/\bpm\.response\.to\b/, "pm.response.to assertions"],
+  [/\.to(?:\.\w+)+/, "some Chai assertions"],
+  [/\bpostman\.\w+/, "postman.*"],
+  [/\brequire\(/, "require()"],
+  [/\bCryptoJS\b/, "CryptoJS"],
+  [/\b_\.\w+\(/, "lodash"],
+  [/\b(?:xml2Json|tv4|cheerio)\b/, "bundled libraries"],
+  [/(?<![.\w$])(?:responseBody|responseHeaders|responseCookies|globals|environment)\b(?!\s*[:=(])/, "legacy sandbox globals"],
+];
+
+export const translatePostmanScript = (code: string): { code: string; unsupported: string[] } => {
+  const translated = SCRIPT_REWRITES.reduce(
+    (current, [pattern, replacement]) => current.replace(pattern, replacement as never),
+    code
+  );
+  // Only the code itself counts; comments and strings may mention anything.
+  const bare = translated.replace(/\/\*[\s\S]*?\*\/|\/\/.*$|(["'`])(?:\\.|(?!\1)[^\\])*\1/gm, "");
+  const unsupported = UNSUPPORTED_SCRIPT_APIS.filter(([pattern]) => pattern.test(bare)).map(([, name]) => name);
+  return { code: translated, unsupported };
+};
+
+const eventScript = (events: PostmanEvent[] | undefined, listen: string) =>
+  (events ?? [])
+    .filter((event) => event.listen === listen && !event.disabled)
+    .map((event) => (Array.isArray(event.script?.exec) ? event.script.exec.join("\n") : text(event.script?.exec)))
+    .join("\n")
+    .trim();
+
+const convertScript = (ctx: ConversionContext, events: PostmanEvent[] | undefined, listen: string, where: string) => {
+  const source = eventScript(events, listen);
+  if (!source) return "";
+  const { code, unsupported } = translatePostmanScript(source);
+  if (unsupported.length > 0) {
+    const label = listen === "test" ? "Test script" : "Pre-request script";
+    ctx.warnings.push(`${where}: ${label} uses ${unsupported.join(", ")}, which won't work here.`);
+  }
+  return code;
+};
+
+// Parent scripts run before the request's own in Postman; here they are
+// copied in front of it, marked with where they came from.
+const withInherited = (inherited: string[], own: string) => [...inherited, own].filter(Boolean).join("\n\n");
+
+const labelScript = (code: string, source: string) => (code ? `// From ${source}\n${code}` : "");
+
+const RAW_LANGUAGE_TYPES: Record<string, string> = {
+  javascript: "application/javascript",
+  html: "text/html",
+};
+
+const convertBody = (ctx: ConversionContext, body: PostmanBody | null | undefined, headers: KeyValueRow[]): RequestBodyConfig => {
+  const result = createDefaultBody();
+  if (!body || body.disabled) return result;
+  switch (body.mode) {
+    case "raw": {
+      const language = body.options?.raw?.language ?? "text";
+      result.mode = language === "json" ? "json" : language === "xml" ? "xml" : "text";
+      result.raw = convertText(ctx, body.raw);
+      const contentType = RAW_LANGUAGE_TYPES[language];
+      if (contentType && !headers.some((row) => row.key.toLowerCase() === "content-type")) {
+        headers.push(createRow("Content-Type", contentType));
+      }
+      return result;
+    }
+    case "urlencoded":
+      return { ...result, mode: "urlencoded", urlencoded: convertRows(ctx, body.urlencoded) };
+    case "formdata":
+      return {
+        ...result,
+        mode: "multipart",
+        multipart: (body.formdata ?? [])
+          .filter((entry) => entry.key)
+          .map((entry) => {
+            const isFile = entry.type === "file";
+            if (isFile) ctx.fileFields++;
+            return {
+              ...createMultipartRow(),
+              key: entry.key,
+              value: isFile ? "" : convertText(ctx, entry.value),
+              enabled: !entry.disabled,
+              type: isFile ? "file" : "text",
+            };
+          }),
+      };
+    case "file":
+      ctx.fileFields++;
+      return { ...result, mode: "binary" };
+    case "graphql":
+      return {
+        ...result,
+        mode: "graphql",
+        graphql: { query: text(body.graphql?.query), variables: text(body.graphql?.variables) },
+      };
+    default:
+      return result;
+  }
+};
+
+// Postman's :name path segments take the value set on the request.
+const convertUrl = (ctx: ConversionContext, url: string | PostmanUrl | undefined): string => {
+  if (typeof url === "string" || url === undefined) return convertText(ctx, url);
+  const values = new Map((url.variable ?? []).map((variable) => [variable.key, text(variable.value)]));
+  const raw = convertText(ctx, url.raw);
+  return raw.replace(/(\/):(\w+)(?=[/?#]|$)/g, (match, slash: string, name: string) =>
+    values.has(name) && values.get(name) !== "" ? `${slash}${values.get(name)}` : `${slash}{{${name}}}`
+  );
+};
+
+const convertExample = (response: PostmanResponse): ResponseExample => ({
+  id: crypto.randomUUID(),
+  name: response.name?.trim() || "Example",
+  status: response.code ?? 0,
+  statusText: response.status ?? "",
+  headers: Object.fromEntries(headerEntries(response.header).map((entry) => [entry.key.toLowerCase(), text(entry.value)])),
+  body: response.body ?? "",
+});
+
+const convertRequest = (
+  ctx: ConversionContext,
+  item: PostmanItem,
+  inherited: Inherited,
+  where: string
+): RequestConfig => {
+  const source: PostmanRequest = typeof item.request === "string" ? { url: item.request } : (item.request ?? {});
+  const request = createDefaultRequest();
+  const method = (source.method ?? "GET").toUpperCase();
+  if (HTTP_METHODS.includes(method as HttpMethod)) {
+    request.method = method as HttpMethod;
+  } else {
+    ctx.warnings.push(`${where}: the ${method} method isn't supported, so it was changed to GET.`);
+  }
+  request.url = convertUrl(ctx, source.url);
+  request.headers = convertRows(ctx, headerEntries(source.header));
+  request.body = convertBody(ctx, source.body, request.headers);
+  request.auth = effectiveAuth(ctx, source.auth, inherited.auth, where);
+  request.scripts = {
+    preRequest: withInherited(inherited.preRequest, convertScript(ctx, item.event, "prerequest", where)),
+    test: withInherited(inherited.test, convertScript(ctx, item.event, "test", where)),
+  };
+  return request;
+};
+
+const convertItems = (ctx: ConversionContext, items: PostmanItem[], inherited: Inherited, path: string[]): CollectionItem[] =>
+  items.map((item) => {
+    const name = item.name?.trim() || "Untitled";
+    const where = `"${[...path, name].join(" / ")}"`;
+    if (Array.isArray(item.item)) {
+      const folderInherited: Inherited = {
+        auth: effectiveAuth(ctx, item.auth, inherited.auth, where),
+        preRequest: [...inherited.preRequest, labelScript(convertScript(ctx, item.event, "prerequest", where), `folder ${where}`)].filter(Boolean),
+        test: [...inherited.test, labelScript(convertScript(ctx, item.event, "test", where), `folder ${where}`)].filter(Boolean),
+      };
+      return createFolder(name, convertItems(ctx, item.item, folderInherited, [...path, name]));
+    }
+    const saved = createSavedRequest(name, convertRequest(ctx, item, inherited, where));
+    const examples = (item.response ?? []).map(convertExample);
+    return examples.length > 0 ? { ...saved, examples } : saved;
+  });
+
+const finishWarnings = (ctx: ConversionContext) => {
+  if (ctx.fileFields > 0) {
+    ctx.warnings.push(`Postman exports don't include files; choose them again for ${ctx.fileFields} file field(s) or body(ies).`);
+  }
+  if (ctx.unknownDynamicVariables.size > 0) {
+    ctx.warnings.push(
+      `These dynamic variables have no equivalent and were left as they are: ${[...ctx.unknownDynamicVariables].join(", ")}.`
+    );
+  }
+  return ctx.warnings;
+};
+
+/**
+ * Converts a Postman v2.0/v2.1 collection. Folder and collection auth is
+ * resolved onto each request and their scripts are copied in front of the
+ * request's own, since neither is inherited here. Collection variables
+ * become an environment.
+ */
+export const importPostmanCollection = (collection: PostmanCollection): ImportResult => {
+  const ctx: ConversionContext = { warnings: [], fileFields: 0, unknownDynamicVariables: new Set() };
+  const name = collection.info.name?.trim() || "Postman Collection";
+  const where = `"${name}"`;
+  const inherited: Inherited = {
+    auth: effectiveAuth(ctx, collection.auth, createDefaultRequest().auth, where),
+    preRequest: [labelScript(convertScript(ctx, collection.event, "prerequest", where), `collection ${where}`)].filter(Boolean),
+    test: [labelScript(convertScript(ctx, collection.event, "test", where), `collection ${where}`)].filter(Boolean),
+  };
+  const items = convertItems(ctx, collection.item ?? [], inherited, []);
+
+  const variables = convertRows(ctx, collection.variable);
+  const environments: Environment[] =
+    variables.length > 0 ? [{ id: crypto.randomUUID(), name: `${name} variables`, variables }] : [];
+
+  return { collection: createCollection(name, items), environments, warnings: finishWarnings(ctx) };
+};
+
+export const importPostmanEnvironment = (environment: PostmanEnvironment): ImportResult => {
+  const ctx: ConversionContext = { warnings: [], fileFields: 0, unknownDynamicVariables: new Set() };
+  const fallbackName = environment._postman_variable_scope === "globals" ? "Postman Globals" : "Postman Environment";
+  const variables = environment.values
+    .filter((entry) => entry.key)
+    .map((entry) => createRow(entry.key, convertText(ctx, entry.value), entry.enabled !== false));
+  return {
+    collection: null,
+    environments: [{ id: crypto.randomUUID(), name: environment.name?.trim() || fallbackName, variables }],
+    warnings: finishWarnings(ctx),
+  };
+};
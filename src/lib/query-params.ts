@@ -0,0 +1,90 @@
+import type { KeyValueRow } from "@/types/request";
+import { createRow } from "@/lib/key-value";
+
+interface UrlParts {
+  base: string;
+  query: string;
+  hash: string;
+}
+
+// Splits on the raw string rather than with `new URL`, so URLs that are
+// still being typed (no protocol yet, relative paths) keep their params.
+const splitUrl = (url: string): UrlParts => {
+  const hashIndex = url.indexOf("#");
+  const withoutHash = hashIndex === -1 ? url : url.slice(0, hashIndex);
+  const hash = hashIndex === -1 ? "" : url.slice(hashIndex);
+  const queryIndex = withoutHash.indexOf("?");
+  if (queryIndex === -1) {
+    return { base: withoutHash, query: "", hash };
+  }
+  return {
+    base: withoutHash.slice(0, queryIndex),
+    query: withoutHash.slice(queryIndex + 1),
+    hash,
+  };
+};
+
+const isUrlBacked = (row: KeyValueRow) => row.enabled && row.key !== "";
+
+export const parseQueryParams = (url: string): KeyValueRow[] => {
+  const { query } = splitUrl(url);
+  const rows: KeyValueRow[] = [];
+  new URLSearchParams(query).forEach((value, key) => {
+    rows.push(createRow(key, value));
+  });
+  return rows;
+};
+
+// {{variable}} placeholders are left unencoded so they can still be
+// substituted at send time.
+export const encodeQueryComponent = (value: string): string =>
+  value
+    .split(/(\{\{[^{}]*\}\})/)
+    .map((part, i) => (i % 2 === 1 ? part : encodeURIComponent(part)))
+    .join("");
+
+export const serializeQueryParams = (rows: KeyValueRow[]): string =>
+  rows
+    .filter(isUrlBacked)
+    .map((row) =>
+      row.value === ""
+        ? encodeQueryComponent(row.key)
+        : `${encodeQueryComponent(row.key)}=${encodeQueryComponent(row.value)}`
+    )
+    .join("&");
+
+export const buildUrlWithParams = (url: string, rows: KeyValueRow[]): string => {
+  const { base, hash } = splitUrl(url);
+  const query = serializeQueryParams(rows);
+  return `${base}${query ? `?${query}` : ""}${hash}`;
+};
+
+// Adds a param without re-serializing the existing query string.
+export const appendQueryParam = (url: string, key: string, value: string): string => {
+  const { base, query, hash } = splitUrl(url);
+  const param = `${encodeQueryComponent(key)}=${encodeQueryComponent(value)}`;
+  return `${base}?${query ? `${query}&` : ""}${param}${hash}`;
+};
+
+/**
+ * Reconciles the params table with a freshly typed URL. Rows that are
+ * reflected in the URL are replaced by the parsed params (keeping their ids
+ * so inputs don't remount), while disabled and blank rows stay where they
+ * were because the URL knows nothing about them.
+ */
+export const mergeQueryParams = (current: KeyValueRow[], url: string): KeyValueRow[] => {
+  const parsed = parseQueryParams(url);
+  const merged: KeyValueRow[] = [];
+  let next = 0;
+
+  for (const row of current) {
+    if (!isUrlBacked(row)) {
+      merged.push(row);
+    } else if (next < parsed.length) {
+      merged.push({ ...parsed[next], id: row.id });
+      next++;
+    }
+  }
+
+  return [...merged, ...parsed.slice(next)];
+};
@@ -0,0 +1,114 @@
+import type { HttpMethod, RequestConfig } from "@/types/request";
+import { buildHeaders } from "@/lib/headers";
+import { acquireAuth, applyAuth, createDefaultAuth } from "@/lib/auth";
+import { signRequest } from "@/lib/aws-sigv4";
+import { createDefaultBody, graphqlQueryParams, methodAllowsBody, sendsGraphQLInUrl, serializeBody } from "@/lib/body";
+import { appendQueryParam } from "@/lib/query-params";
+import { createDefaultScripts } from "@/lib/scripts";
+
+export interface PreparedRequest {
+  url: string;
+  init: RequestInit;
+}
+
+export const HTTP_METHODS: HttpMethod[] = ["GET", "POST", "PUT", "DELETE", "PATCH", "OPTIONS", "HEAD"];
+
+export const createDefaultRequest = (): RequestConfig => ({
+  method: "GET",
+  url: "",
+  headers: [],
+  body: createDefaultBody(),
+  auth: createDefaultAuth(),
+  scripts: createDefaultScripts(),
+  assertions: [],
+});
+
+/**
+ * A JSON-safe deep copy for persisting a request. Selected files can't be
+ * stored, so binary and multipart file fields come back empty.
+ */
+export const toStoredRequest = (config: RequestConfig): RequestConfig =>
+  JSON.parse(
+    JSON.stringify({
+      ...config,
+      body: {
+        ...config.body,
+        binary: null,
+        multipart: config.body.multipart.map((row) => ({ ...row, file: null })),
+      },
+    })
+  );
+
+// Fills in fields that requests saved by older versions don't have yet.
+export const restoreRequest = (stored: Partial<RequestConfig>): RequestConfig => {
+  const defaults = createDefaultRequest();
+  return {
+    ...defaults,
+    ...stored,
+    body: { ...defaults.body, ...stored.body, graphql: { ...defaults.body.graphql, ...stored.body?.graphql } },
+    auth: {
+      ...defaults.auth,
+      ...stored.auth,
+      oauth2: { ...defaults.auth.oauth2, ...stored.auth?.oauth2 },
+      awsV4: { ...defaults.auth.awsV4, ...stored.auth?.awsV4 },
+    },
+    scripts: { ...defaults.scripts, ...stored.scripts },
+  };
+};
+
+export const prepareRequest = async (config: RequestConfig): Promise<PreparedRequest> => {
+  try {
+    new URL(config.url);
+  } catch (e) {
+    throw new Error(`Invalid URL: ${config.url}. Make sure to include the protocol (http:// or https://).`);
+  }
+
+  const headers = buildHeaders(config.headers);
+  let url = applyAuth(config.url, headers, await acquireAuth(config.auth));
+  if (sendsGraphQLInUrl(config.method, config.body)) {
+    url = graphqlQueryParams(config.body.graphql).reduce((acc, [key, value]) => appendQueryParam(acc, key, value), url);
+  }
+
+  const init: RequestInit = {
+    method: config.method,
+    headers,
+  };
+
+  if (methodAllowsBody(config.method)) {
+    const serialized = serializeBody(config.body);
+    if (serialized.body !== undefined) {
+      init.body = serialized.body;
+      if (serialized.contentType && !headers.has("content-type")) {
+        headers.set("Content-Type", serialized.contentType);
+      }
+    }
+  }
+
+  if (config.auth.type === "awsv4") {
+    await signPreparedRequest({ url, init }, config);
+  }
+
+  return { url, init };
+};
+
+/**
+ * SigV4 hashes the exact payload, so the body is serialized up front
+ * (through a Request, which also yields the Content-Type fetch would pick)
+ * and sent as those bytes.
+ */
+const signPreparedRequest = async (prepared: PreparedRequest, config: RequestConfig) => {
+  const headers = prepared.init.headers as Headers;
+  let body: Uint8Array | undefined;
+
+  if (prepared.init.body !== undefined) {
+    const serialized = new Request(prepared.url, { method: config.method, body: prepared.init.body });
+    body = new Uint8Array(await serialized.arrayBuffer());
+    const contentType = serialized.headers.get("content-type");
+    if (contentType && !headers.has("content-type")) {
+      headers.set("Content-Type", contentType);
+    }
+    prepared.init.body = body;
+  }
+
+  await signRequest({ method: config.method, url: prepared.url, headers, body }, config.auth.awsV4);
+};
@@ -0,0 +1,227 @@
+import type { Collection, CollectionFolder, CollectionItem } from "@/types/collection";
+import type { HistoryEntry } from "@/types/history";
+import type { RequestConfig } from "@/types/request";
+import type { ApiResponse } from "@/types/response";
+import type { TestResult } from "@/types/script";
+import { executeRequest } from "@/lib/execute";
+import { createHistoryEntry } from "@/lib/history";
+import { restoreRequest } from "@/lib/request";
+import { applyVariableUpdates, type VariableMap, type VariableUpdates } from "@/lib/variables";
+
+export interface RunnerRequest {
+  id: string;
+  name: string;
+  // Folder names between the run's root and the request.
+  path: string[];
+  config: RequestConfig;
+}
+
+export interface RunnerOptions {
+  // Ignored when there is data: each row is one iteration.
+  iterations: number;
+  // Milliseconds to wait between two requests.
+  delay: number;
+  stopOnFailure: boolean;
+  data: VariableMap[];
+}
+
+export interface RunStep {
+  // Zero-based.
+  iteration: number;
+  request: RunnerRequest;
+  response: ApiResponse;
+  // Assertions, then test script results.
+  checks: TestResult[];
+  passed: boolean;
+  historyEntry: HistoryEntry;
+}
+
+export interface RunCallbacks {
+  onStepStart: (iteration: number, request: RunnerRequest) => void;
+  onStep: (step: RunStep) => void;
+  // Environment changes made by the requests' scripts.
+  onVariableUpdates: (updates: VariableUpdates) => void;
+}
+
+export type RunOutcome = "completed" | "failed" | "stopped";
+
+export interface RunSummary {
+  requests: number;
+  failedRequests: number;
+  checks: number;
+  failedChecks: number;
+  // Sum of the response times, without delays and script time.
+  totalTime: number;
+  averageTime: number;
+}
+
+// Every request under the node, in the order the sidebar shows them.
+export const collectRunnerRequests = (node: Collection | CollectionFolder): RunnerRequest[] => {
+  const walk = (items: CollectionItem[], path: string[]): RunnerRequest[] =>
+    items.flatMap((item) =>
+      item.type === "folder"
+        ? walk(item.items, [...path, item.name])
+        : [{ id: item.id, name: item.name, path, config: restoreRequest(item.request) }]
+    );
+  return walk(node.items, []);
+};
+
+// RFC 4180: quoted fields may hold commas, newlines and doubled quotes.
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      rows.push([...row, field]);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) throw new Error("The CSV file ends inside a quoted field.");
+  if (field || row.length > 0) rows.push([...row, field]);
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+};
+
+const parseCsv = (text: string): VariableMap[] => {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header) return [];
+  const names = header.map((name) => name.trim());
+  return rows.map((cells) =>
+    Object.fromEntries(names.flatMap((name, i) => (name ? [[name, cells[i] ?? ""]] : [])))
+  );
+};
+
+const toVariableValue = (value: unknown) =>
+  typeof value === "string" ? value : value === null || value === undefined ? "" : JSON.stringify(value);
+
+const parseJsonData = (text: string): VariableMap[] => {
+  const document = JSON.parse(text);
+  const rows = Array.isArray(document) ? document : [document];
+  return rows.map((row, i) => {
+    if (typeof row !== "object" || row === null || Array.isArray(row)) {
+      throw new Error(`Row ${i + 1} isn't an object of variable names and values.`);
+    }
+    return Object.fromEntries(Object.entries(row).map(([name, value]) => [name, toVariableValue(value)]));
+  });
+};
+
+/**
+ * Reads a data file for a run: a JSON array of objects, or a CSV file whose
+ * first line names the variables. Values that aren't strings are kept as
+ * their JSON text. Throws with a readable message when the file is unusable.
+ */
+export const parseRunnerData = (text: string, fileName: string): VariableMap[] => {
+  const content = text.replace(/^\uFEFF/, "");
+  const isJson = /\.json$/i.test(fileName) || /^\s*[[{]/.test(content);
+  const rows = isJson ? parseJsonData(content) : parseCsv(content);
+  if (rows.length === 0) throw new Error("The data file has no rows.");
+  return rows;
+};
+
+// A request fails when it couldn't be sent or one of its checks failed;
+// without any checks, an error status counts as the failure.
+const stepPassed = (response: ApiResponse, checks: TestResult[]) => {
+  if (response.error) return false;
+  return checks.length > 0 ? checks.every((check) => check.passed) : response.status < 400;
+};
+
+// Resolves after `ms`, or as soon as the signal aborts.
+export const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    if (ms <= 0 || signal.aborted) {
+      resolve();
+      return;
+    }
+    const done = () => {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal.addEventListener("abort", done);
+  });
+
+/**
+ * Sends the requests one after another, once per iteration. Each iteration
+ * sees the environment with its data row on top, and variables set by
+ * scripts carry over to the requests after them. Aborting the signal stops
+ * the run once the request in flight has finished.
+ */
+export const runCollection = async (
+  requests: RunnerRequest[],
+  variables: VariableMap,
+  options: RunnerOptions,
+  callbacks: RunCallbacks,
+  signal: AbortSignal
+): Promise<RunOutcome> => {
+  const iterations = options.data.length > 0 ? options.data.length : Math.max(1, options.iterations);
+  let environment = variables;
+  let first = true;
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const row = options.data[iteration] ?? {};
+    for (const request of requests) {
+      if (!first) await wait(options.delay, signal);
+      first = false;
+      if (signal.aborted) return "stopped";
+
+      callbacks.onStepStart(iteration, request);
+      const { response, sentUrl } = await executeRequest(
+        request.config,
+        { ...environment, ...row },
+        {
+          addToHistory: false,
+          onVariableUpdates: (updates) => {
+            environment = applyVariableUpdates(environment, updates);
+            callbacks.onVariableUpdates(updates);
+          },
+        }
+      );
+      const checks = [...(response.assertions ?? []), ...(response.tests ?? [])];
+      const passed = stepPassed(response, checks);
+      callbacks.onStep({
+        iteration,
+        request,
+        response,
+        checks,
+        passed,
+        historyEntry: createHistoryEntry(request.config, sentUrl, response),
+      });
+      if (!passed && options.stopOnFailure) return "failed";
+    }
+  }
+  return signal.aborted ? "stopped" : "completed";
+};
+
+export const summarizeRun = (steps: RunStep[]): RunSummary => {
+  const totalTime = steps.reduce((total, step) => total + step.response.time, 0);
+  const checks = steps.flatMap((step) => step.checks);
+  return {
+    requests: steps.length,
+    failedRequests: steps.filter((step) => !step.passed).length,
+    checks: checks.length,
+    failedChecks: checks.filter((check) => !check.passed).length,
+    totalTime,
+    averageTime: steps.length > 0 ? Math.round(totalTime / steps.length) : 0,
+  };
+};
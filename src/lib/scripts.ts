@@ -0,0 +1,74 @@
+import type { RequestConfig, RequestScripts } from "@/types/request";
+import type { ApiResponse } from "@/types/response";
+import type { PreRequestScriptJob, ScriptJob, ScriptRequest, ScriptResult, TestScriptJob } from "@/types/script";
+import { activeRows, createRow } from "@/lib/key-value";
+import { isRawMode } from "@/lib/body";
+import type { VariableMap } from "@/lib/variables";
+
+export const SCRIPT_TIMEOUT_MS = 5000;
+
+export const createDefaultScripts = (): RequestScripts => ({ preRequest: "", test: "" });
+
+// Each run gets a fresh worker so nothing a script leaves behind leaks into
+// the next one, and a script that never settles can simply be terminated.
+export const runScript = (job: ScriptJob, timeoutMs = SCRIPT_TIMEOUT_MS): Promise<ScriptResult> =>
+  new Promise((resolve) => {
+    const worker = new Worker(new URL("../workers/script-sandbox.worker.ts", import.meta.url), { type: "module" });
+
+    const finish = (result: ScriptResult) => {
+      clearTimeout(timer);
+      worker.terminate();
+      resolve(result);
+    };
+
+    const timer = setTimeout(() => {
+      finish({ error: { message: `Script timed out after ${timeoutMs} ms` }, logs: [] });
+    }, timeoutMs);
+
+    worker.addEventListener("message", (event: MessageEvent<ScriptResult>) => finish(event.data));
+    worker.addEventListener("error", (event) => {
+      event.preventDefault();
+      finish({ error: { message: event.message || "Script worker failed to start" }, logs: [] });
+    });
+    worker.postMessage(job);
+  });
+
+const toScriptRequest = (config: RequestConfig): ScriptRequest => ({
+  method: config.method,
+  url: config.url,
+  headers: activeRows(config.headers).map((row) => [row.key, row.value]),
+  body: isRawMode(config.body.mode) ? config.body.raw : null,
+});
+
+export const runPreRequestScript = (config: RequestConfig, variables: VariableMap): Promise<ScriptResult> => {
+  const job: PreRequestScriptJob = {
+    kind: "pre-request",
+    code: config.scripts.preRequest,
+    request: toScriptRequest(config),
+    variables,
+  };
+  return runScript(job);
+};
+
+// Changes only apply to the request being sent; the editor keeps what was typed.
+export const applyScriptRequest = (config: RequestConfig, request: ScriptRequest): RequestConfig => ({
+  ...config,
+  url: request.url,
+  headers: request.headers.map(([key, value]) => createRow(key, value)),
+  body: request.body !== null ? { ...config.body, raw: request.body } : config.body,
+});
+
+export const runTestScript = (
+  code: string,
+  response: ApiResponse,
+  variables: VariableMap
+): Promise<ScriptResult> => {
+  const { status, statusText, headers, data, time } = response;
+  const job: TestScriptJob = {
+    kind: "test",
+    code,
+    response: { status, statusText, headers, data, time },
+    variables,
+  };
+  return runScript(job);
+};
@@ -0,0 +1,823 @@
+import type { AwsSigV4Config, HttpMethod, RequestConfig } from "@/types/request";
+import type { EditorLanguage } from "@/lib/editor";
+import { activeRows } from "@/lib/key-value";
+import { resolveAuth } from "@/lib/auth";
+import { signRequest } from "@/lib/aws-sigv4";
+import { defaultContentType, graphqlQueryParams, methodAllowsBody, sendsGraphQLInUrl } from "@/lib/body";
+import { encodeBase64 } from "@/lib/encoding";
+import { appendQueryParam } from "@/lib/query-params";
+import { resolveRequestConfig, type VariableMap } from "@/lib/variables";
+
+export type SnippetLanguage = "curl" | "fetch" | "axios" | "node" | "python" | "go" | "java" | "csharp" | "powershell";
+
+export interface SnippetLanguageInfo {
+  id: SnippetLanguage;
+  label: string;
+  editor: EditorLanguage;
+}
+
+export const SNIPPET_LANGUAGES: SnippetLanguageInfo[] = [
+  { id: "curl", label: "cURL", editor: "shell" },
+  { id: "fetch", label: "JavaScript (fetch)", editor: "javascript" },
+  { id: "axios", label: "JavaScript (axios)", editor: "javascript" },
+  { id: "node", label: "Node.js (http)", editor: "javascript" },
+  { id: "python", label: "Python (requests)", editor: "python" },
+  { id: "go", label: "Go (net/http)", editor: "go" },
+  { id: "java", label: "Java (HttpClient)", editor: "java" },
+  { id: "csharp", label: "C# (HttpClient)", editor: "csharp" },
+  { id: "powershell", label: "PowerShell", editor: "powershell" },
+];
+
+type Header = [string, string];
+
+type MultipartField = { key: string; value: string } | { key: string; fileName: string };
+
+type SnippetBody =
+  | { kind: "none" }
+  | { kind: "text"; text: string }
+  | { kind: "urlencoded"; fields: [string, string][] }
+  | { kind: "multipart"; fields: MultipartField[] }
+  | { kind: "file"; fileName: string };
+
+interface AwsSnippetAuth {
+  config: AwsSigV4Config;
+  // Signed now for languages without a SigV4 library call; null when that wasn't possible.
+  signedHeaders: Header[] | null;
+  note: string;
+}
+
+/**
+ * The request as every generator sees it: variables resolved, auth turned
+ * into headers or query params where that's all it is, and the body reduced
+ * to what a snippet has to reproduce.
+ */
+export interface SnippetRequest {
+  method: HttpMethod;
+  url: string;
+  headers: Header[];
+  body: SnippetBody;
+  // Kept out of `headers` so languages with a built-in form can use it.
+  basicAuth: { username: string; password: string } | null;
+  aws: AwsSnippetAuth | null;
+  notes: string[];
+}
+
+const AWS_SIGNED_HEADERS = ["X-Amz-Date", "X-Amz-Security-Token", "X-Amz-Content-Sha256", "Authorization"];
+
+const MULTIPART_BOUNDARY = "----ApiSimplicityWizardBoundary7MA4YWxk";
+
+const hasHeader = (headers: Header[], name: string) =>
+  headers.some(([key]) => key.toLowerCase() === name.toLowerCase());
+
+const withoutHeader = (headers: Header[], name: string) =>
+  headers.filter(([key]) => key.toLowerCase() !== name.toLowerCase());
+
+const encodeUrlencoded = (fields: [string, string][]) => new URLSearchParams(fields).toString();
+
+const buildBody = (config: RequestConfig, notes: string[]): SnippetBody => {
+  const { body } = config;
+  if (!methodAllowsBody(config.method)) return { kind: "none" };
+  switch (body.mode) {
+    case "json":
+    case "text":
+    case "xml":
+      return body.raw ? { kind: "text", text: body.raw } : { kind: "none" };
+    case "urlencoded":
+      return { kind: "urlencoded", fields: activeRows(body.urlencoded).map((row) => [row.key, row.value]) };
+    case "multipart":
+      return {
+        kind: "multipart",
+        fields: activeRows(body.multipart).map((row) =>
+          row.type === "file" ? { key: row.key, fileName: row.file?.name ?? "file" } : { key: row.key, value: row.value }
+        ),
+      };
+    case "binary":
+      return { kind: "file", fileName: body.binary?.name ?? "file.bin" };
+    case "graphql": {
+      const { query, variables } = body.graphql;
+      if (!query.trim()) return { kind: "none" };
+      let parsedVariables: unknown;
+      if (variables.trim()) {
+        try {
+          parsedVariables = JSON.parse(variables);
+        } catch {
+          notes.push("The GraphQL variables aren't valid JSON, so they were left out.");
+        }
+      }
+      return { kind: "text", text: JSON.stringify({ query, variables: parsedVariables }) };
+    }
+    default:
+      return { kind: "none" };
+  }
+};
+
+const signForSnippet = async (
+  method: HttpMethod,
+  url: string,
+  headers: Header[],
+  body: SnippetBody,
+  config: AwsSigV4Config
+): Promise<AwsSnippetAuth> => {
+  if (body.kind === "multipart" || body.kind === "file") {
+    return {
+      config,
+      signedHeaders: null,
+      note: "File bodies can't be signed ahead of time; sign this request with an AWS SDK.",
+    };
+  }
+  try {
+    const signed = new Headers();
+    headers.forEach(([key, value]) => signed.append(key, value));
+    const text = body.kind === "text" ? body.text : body.kind === "urlencoded" ? encodeUrlencoded(body.fields) : null;
+    await signRequest(
+      { method, url, headers: signed, body: text === null ? undefined : new TextEncoder().encode(text) },
+      config
+    );
+    return {
+      config,
+      signedHeaders: AWS_SIGNED_HEADERS.filter((name) => signed.has(name)).map((name) => [name, signed.get(name)]),
+      note: "The AWS signature below was computed when this snippet was generated and expires after 15 minutes.",
+    };
+  } catch (e) {
+    return { config, signedHeaders: null, note: `The request couldn't be signed: ${(e as Error).message}` };
+  }
+};
+
+export const buildSnippetRequest = async (config: RequestConfig, variables: VariableMap): Promise<SnippetRequest> => {
+  const resolved = resolveRequestConfig(config, variables, { dynamic: false });
+  const { auth } = resolved;
+  const notes: string[] = [];
+  let headers: Header[] = activeRows(resolved.headers)
+    .map((row): Header => [row.key.trim(), row.value])
+    .filter(([key]) => key !== "");
+  let url = resolved.url;
+  let basicAuth: SnippetRequest["basicAuth"] = null;
+
+  // Same precedence as sending: auth replaces a header of the same name.
+  const setHeader = (name: string, value: string) => {
+    headers = [...withoutHeader(headers, name), [name, value]];
+  };
+
+  if (auth.type === "basic" && (auth.basic.username || auth.basic.password)) {
+    basicAuth = { ...auth.basic };
+    headers = withoutHeader(headers, "authorization");
+  } else if (auth.type === "oauth2") {
+    const result = resolveAuth(auth);
+    if (result.headers.length > 0) {
+      result.headers.forEach(([key, value]) => setHeader(key, value));
+    } else {
+      const prefix = auth.oauth2.headerPrefix.trim();
+      setHeader("Authorization", prefix ? `${prefix} <access token>` : "<access token>");
+      notes.push("No OAuth 2.0 token has been fetched yet; replace <access token> with one.");
+    }
+  } else if (auth.type !== "awsv4") {
+    const result = resolveAuth(auth);
+    result.headers.forEach(([key, value]) => setHeader(key, value));
+    url = result.queryParams.reduce((acc, [key, value]) => appendQueryParam(acc, key, value), url);
+  }
+
+  if (sendsGraphQLInUrl(resolved.method, resolved.body)) {
+    let params: [string, string][];
+    try {
+      params = graphqlQueryParams(resolved.body.graphql);
+    } catch {
+      params = graphqlQueryParams({ ...resolved.body.graphql, variables: "" });
+      notes.push("The GraphQL variables aren't valid JSON, so they were left out.");
+    }
+    url = params.reduce((acc, [key, value]) => appendQueryParam(acc, key, value), url);
+  }
+
+  const body = buildBody(resolved, notes);
+  const contentType =
+    body.kind === "file"
+      ? defaultContentType(resolved.body) ?? "application/octet-stream"
+      : body.kind === "text" || body.kind === "urlencoded"
+        ? defaultContentType(resolved.body)
+        : undefined;
+  if (contentType && !hasHeader(headers, "content-type")) {
+    headers.push(["Content-Type", contentType]);
+  }
+
+  const aws = auth.type === "awsv4" ? await signForSnippet(resolved.method, url, headers, body, auth.awsV4) : null;
+
+  return { method: resolved.method, url, headers, body, basicAuth, aws, notes };
+};
+
+// Shared helpers for the generators.
+
+// A double-quoted literal that JavaScript, Python, Go, Java and C# all read the same way.
+// C# treats U+0085, U+2028 and U+2029 as line breaks, so those are escaped too.
+const quote = (value: string) =>
+  JSON.stringify(value).replace(/[\u0085\u2028\u2029]/g, (char) => `\\u${char.charCodeAt(0).toString(16).padStart(4, "0")}`);
+
+const shellQuote = (value: string) => `'${value.replace(/'/g, "'\\''")}'`;
+
+// PowerShell also ends single-quoted strings at typographic quotes.
+const psQuote = (value: string) => `'${value.replace(/['\u2018\u2019\u201a\u201b]/g, "$&$&")}'`;
+
+// Multi-line text as one literal per line, joined the way the language concatenates strings.
+const quoteLines = (text: string, join: string) => {
+  const lines = text.split(/(?<=\n)/);
+  return lines.length > 1 ? lines.map(quote).join(join) : quote(text);
+};
+
+const jsText = (text: string) =>
+  text.includes("\n") && !text.includes("\r")
+    ? `\`${text.replace(/\\/g, "\\\\").replace(/`/g, "\\`").replace(/\$\{/g, "\\${")}\``
+    : quote(text);
+
+const goText = (text: string) =>
+  text.includes("\n") && !text.includes("`") && !text.includes("\r") ? `\`${text}\`` : quote(text);
+
+const basicCredentials = ({ username, password }: { username: string; password: string }) => `${username}:${password}`;
+
+const basicHeader = (auth: { username: string; password: string }): Header => [
+  "Authorization",
+  `Basic ${encodeBase64(basicCredentials(auth))}`,
+];
+
+interface HeaderOptions {
+  // Whether basic auth should be turned into a header rather than the language's own form.
+  basic?: boolean;
+}
+
+// The request headers plus auth for languages that can't express it any other way.
+const headersWithAuth = (req: SnippetRequest, { basic = true }: HeaderOptions = {}): Header[] => [
+  ...req.headers,
+  ...(basic && req.basicAuth ? [basicHeader(req.basicAuth)] : []),
+  ...(req.aws?.signedHeaders ?? []),
+];
+
+// Object literals and hashtables can't repeat a name, so repeated headers are combined as HTTP allows.
+const mergeHeaders = (headers: Header[]): Header[] => {
+  const merged = new Map<string, Header>();
+  for (const [key, value] of headers) {
+    const existing = merged.get(key.toLowerCase());
+    merged.set(key.toLowerCase(), existing ? [existing[0], `${existing[1]}, ${value}`] : [key, value]);
+  }
+  return [...merged.values()];
+};
+
+const comments = (prefix: string, notes: string[]) => notes.map((note) => `${prefix} ${note}\n`).join("");
+
+const notesFor = (req: SnippetRequest, { awsLibrary = false } = {}) => [
+  ...req.notes,
+  ...(req.aws && !awsLibrary ? [req.aws.note] : []),
+];
+
+// Quotes and line breaks in multipart names are percent-encoded, as browsers do.
+const dispositionValue = (value: string) =>
+  value.replace(/"/g, "%22").replace(/\r/g, "%0D").replace(/\n/g, "%0A");
+
+type MultipartSegment = { text: string } | { fileName: string };
+
+// A hand-built multipart body for clients without a form-data helper.
+const multipartSegments = (fields: MultipartField[]): MultipartSegment[] => {
+  const segments: MultipartSegment[] = [];
+  let text = "";
+  for (const field of fields) {
+    text += `--${MULTIPART_BOUNDARY}\r\nContent-Disposition: form-data; name="${dispositionValue(field.key)}"`;
+    if ("value" in field) {
+      text += `\r\n\r\n${field.value}\r\n`;
+    } else {
+      text += `; filename="${dispositionValue(field.fileName)}"\r\nContent-Type: application/octet-stream\r\n\r\n`;
+      segments.push({ text }, { fileName: field.fileName });
+      text = "\r\n";
+    }
+  }
+  segments.push({ text: `${text}--${MULTIPART_BOUNDARY}--\r\n` });
+  return segments;
+};
+
+const multipartContentType = `multipart/form-data; boundary=${MULTIPART_BOUNDARY}`;
+
+const jsObject = (entries: [string, string][], indent: string) =>
+  entries.length === 0
+    ? "{}"
+    : `{\n${entries.map(([key, value]) => `${indent}  ${key}: ${value},`).join("\n")}\n${indent}}`;
+
+const jsHeaders = (headers: Header[], indent: string) =>
+  jsObject(mergeHeaders(headers).map(([key, value]) => [quote(key), quote(value)]), indent);
+
+const jsPairs = (fields: [string, string][], indent: string) =>
+  `[\n${fields.map(([key, value]) => `${indent}  [${quote(key)}, ${quote(value)}],`).join("\n")}\n${indent}]`;
+
+// Generators.
+
+const curlSnippet = (req: SnippetRequest): string => {
+  const options: string[] = [];
+  if (req.method === "HEAD") options.push("--head");
+  else if (req.method !== "GET") options.push(`--request ${req.method}`);
+  options.push(`--url ${shellQuote(req.url)}`);
+  // `Name;` is how curl sends a header with an empty value.
+  req.headers.forEach(([key, value]) => options.push(`--header ${shellQuote(value ? `${key}: ${value}` : `${key};`)}`));
+  if (req.basicAuth) options.push(`--user ${shellQuote(basicCredentials(req.basicAuth))}`);
+  if (req.aws) {
+    const { accessKeyId, secretAccessKey, sessionToken, region, service } = req.aws.config;
+    options.push(`--aws-sigv4 ${shellQuote(`aws:amz:${region}:${service}`)}`);
+    options.push(`--user ${shellQuote(`${accessKeyId}:${secretAccessKey}`)}`);
+    if (sessionToken) options.push(`--header ${shellQuote(`X-Amz-Security-Token: ${sessionToken}`)}`);
+  }
+
+  const { body } = req;
+  if (body.kind === "text") {
+    options.push(`--data-raw ${shellQuote(body.text)}`);
+  } else if (body.kind === "urlencoded") {
+    body.fields.forEach(([key, value]) =>
+      options.push(`--data-urlencode ${shellQuote(`${encodeURIComponent(key)}=${value}`)}`)
+    );
+  } else if (body.kind === "multipart") {
+    body.fields.forEach((field) =>
+      options.push(
+        "value" in field
+          ? `--form-string ${shellQuote(`${field.key}=${field.value}`)}`
+          : `--form ${shellQuote(`${field.key}=@"${field.fileName.replace(/["\\]/g, "\\$&")}"`)}`
+      )
+    );
+  } else if (body.kind === "file") {
+    options.push(`--data-binary ${shellQuote(`@${body.fileName}`)}`);
+  }
+
+  return `${comments("#", notesFor(req, { awsLibrary: true }))}curl ${options.join(" \\\n  ")}\n`;
+};
+
+const fetchSnippet = (req: SnippetRequest): string => {
+  const { body } = req;
+  const prelude: string[] = [];
+  const options: [string, string][] = [];
+  const usesFileInput = body.kind === "file" || (body.kind === "multipart" && body.fields.some((field) => !("value" in field)));
+
+  if (usesFileInput) {
+    prelude.push(`const fileInput = document.querySelector('input[type="file"]');`);
+  }
+  if (req.method !== "GET") options.push(["method", quote(req.method)]);
+  const headers = headersWithAuth(req);
+  if (headers.length > 0) options.push(["headers", jsHeaders(headers, "  ")]);
+
+  if (body.kind === "text") {
+    options.push(["body", jsText(body.text)]);
+  } else if (body.kind === "urlencoded") {
+    options.push(["body", `new URLSearchParams(${jsPairs(body.fields, "  ")})`]);
+  } else if (body.kind === "multipart") {
+    prelude.push("const form = new FormData();");
+    body.fields.forEach((field) =>
+      prelude.push(
+        "value" in field
+          ? `form.append(${quote(field.key)}, ${quote(field.value)});`
+          : `form.append(${quote(field.key)}, fileInput.files[0], ${quote(field.fileName)});`
+      )
+    );
+    options.push(["body", "form"]);
+  } else if (body.kind === "file") {
+    options.push(["body", `fileInput.files[0] /* ${body.fileName.replace(/\*\//g, "* /")} */`]);
+  }
+
+  const call = options.length > 0 ? `fetch(${quote(req.url)}, ${jsObject(options, "")})` : `fetch(${quote(req.url)})`;
+  return [
+    comments("//", notesFor(req)) + (prelude.length > 0 ? `${prelude.join("\n")}\n` : ""),
+    `const response = await ${call};\n`,
+    "console.log(response.status);\nconsole.log(await response.text());\n",
+  ]
+    .filter(Boolean)
+    .join("\n");
+};
+
+const axiosSnippet = (req: SnippetRequest): string => {
+  const { body } = req;
+  const imports = ['import axios from "axios";'];
+  const prelude: string[] = [];
+  const options: [string, string][] = [
+    ["method", quote(req.method.toLowerCase())],
+    ["url", quote(req.url)],
+  ];
+
+  if (body.kind === "multipart" || body.kind === "file") imports.push('import fs from "node:fs";');
+  if (body.kind === "multipart") {
+    imports.push('import FormData from "form-data";');
+    prelude.push("const form = new FormData();");
+    body.fields.forEach((field) =>
+      prelude.push(
+        "value" in field
+          ? `form.append(${quote(field.key)}, ${quote(field.value)});`
+          : `form.append(${quote(field.key)}, fs.createReadStream(${quote(field.fileName)}));`
+      )
+    );
+  }
+
+  const headers = mergeHeaders(headersWithAuth(req, { basic: false })).map(([key, value]): [string, string] => [
+    quote(key),
+    quote(value),
+  ]);
+  if (body.kind === "multipart") headers.unshift(["...form.getHeaders()", ""]);
+  if (headers.length > 0) {
+    const lines = headers.map(([key, value]) => (value ? `    ${key}: ${value},` : `    ${key},`));
+    options.push(["headers", `{\n${lines.join("\n")}\n  }`]);
+  }
+  if (req.basicAuth) {
+    options.push([
+      "auth",
+      `{ username: ${quote(req.basicAuth.username)}, password: ${quote(req.basicAuth.password)} }`,
+    ]);
+  }
+
+  if (body.kind === "text") options.push(["data", jsText(body.text)]);
+  else if (body.kind === "urlencoded") options.push(["data", `new URLSearchParams(${jsPairs(body.fields, "  ")})`]);
+  else if (body.kind === "multipart") options.push(["data", "form"]);
+  else if (body.kind === "file") options.push(["data", `fs.readFileSync(${quote(body.fileName)})`]);
+
+  return [
+    `${comments("//", notesFor(req))}${imports.join("\n")}\n`,
+    prelude.length > 0 ? `${prelude.join("\n")}\n` : "",
+    `const response = await axios.request(${jsObject(options, "")});\n`,
+    "console.log(response.status);\nconsole.log(response.data);\n",
+  ]
+    .filter(Boolean)
+    .join("\n");
+};
+
+const nodeSnippet = (req: SnippetRequest): string => {
+  const { body } = req;
+  const protocol = /^http:/i.test(req.url) ? "http" : "https";
+  const requires = [`const ${protocol} = require("node:${protocol}");`];
+  if (body.kind === "multipart" || body.kind === "file") requires.push('const fs = require("node:fs");');
+
+  let bodyExpression: string | null = null;
+  if (body.kind === "text") bodyExpression = jsText(body.text);
+  else if (body.kind === "urlencoded") bodyExpression = quote(encodeUrlencoded(body.fields));
+  else if (body.kind === "file") bodyExpression = `fs.readFileSync(${quote(body.fileName)})`;
+  else if (body.kind === "multipart") {
+    const parts = multipartSegments(body.fields).map((segment) =>
+      "text" in segment ? `  Buffer.from(${quote(segment.text)}),` : `  fs.readFileSync(${quote(segment.fileName)}),`
+    );
+    bodyExpression = `Buffer.concat([\n${parts.join("\n")}\n])`;
+  }
+
+  const headers = headersWithAuth(req, { basic: false });
+  const headerEntries = mergeHeaders(
+    body.kind === "multipart" && !hasHeader(headers, "content-type")
+      ? [...headers, ["Content-Type", multipartContentType] as Header]
+      : headers
+  ).map(([key, value]): [string, string] => [quote(key), quote(value)]);
+  // Without a length, Node sends the body chunked, which some servers refuse.
+  if (bodyExpression && !hasHeader(headers, "content-length")) {
+    headerEntries.push([quote("Content-Length"), "Buffer.byteLength(body)"]);
+  }
+
+  const options: [string, string][] = [["method", quote(req.method)]];
+  if (headerEntries.length > 0) options.push(["headers", jsObject(headerEntries, "  ")]);
+  if (req.basicAuth) options.push(["auth", quote(basicCredentials(req.basicAuth))]);
+
+  return [
+    `${comments("//", notesFor(req))}${requires.join("\n")}\n`,
+    bodyExpression ? `const body = ${bodyExpression};\n` : "",
+    `const options = ${jsObject(options, "")};\n`,
+    `const req = ${protocol}.request(${quote(req.url)}, options, (res) => {
+  const chunks = [];
+  res.on("data", (chunk) => chunks.push(chunk));
+  res.on("end", () => {
+    console.log(res.statusCode);
+    console.log(Buffer.concat(chunks).toString());
+  });
+});
+
+req.on("error", (error) => console.error(error));
+${bodyExpression ? "req.write(body);\n" : ""}req.end();
+`,
+  ]
+    .filter(Boolean)
+    .join("\n");
+};
+
+const pythonSnippet = (req: SnippetRequest): string => {
+  const { body } = req;
+  const imports = ["import requests"];
+  const sections: string[] = [`url = ${quote(req.url)}\n`];
+  const args = ["url"];
+
+  const headers = mergeHeaders(req.aws ? req.headers : headersWithAuth(req, { basic: false }));
+  if (headers.length > 0) {
+    sections.push(`headers = {\n${headers.map(([key, value]) => `    ${quote(key)}: ${quote(value)},`).join("\n")}\n}\n`);
+    args.push("headers=headers");
+  }
+
+  if (body.kind === "text") {
+    const literal = quoteLines(body.text, "\n    ");
+    sections.push(`payload = ${literal.includes("\n") ? `(\n    ${literal}\n)` : literal}\n`);
+    // requests encodes str bodies as Latin-1, so anything else is sent as UTF-8 bytes.
+    args.push([...body.text].some((char) => char.charCodeAt(0) > 0xff) ? 'data=payload.encode("utf-8")' : "data=payload");
+  } else if (body.kind === "urlencoded") {
+    const fields = body.fields.map(([key, value]) => `    (${quote(key)}, ${quote(value)}),`);
+    sections.push(`payload = [\n${fields.join("\n")}\n]\n`);
+    args.push("data=payload");
+  } else if (body.kind === "multipart") {
+    const files = body.fields.map((field) =>
+      "value" in field
+        ? `    (${quote(field.key)}, (None, ${quote(field.value)})),`
+        : `    (${quote(field.key)}, (${quote(field.fileName)}, open(${quote(field.fileName)}, "rb"))),`
+    );
+    sections.push(`files = [\n${files.join("\n")}\n]\n`);
+    args.push("files=files");
+  } else if (body.kind === "file") {
+    sections.push(`payload = open(${quote(body.fileName)}, "rb")\n`);
+    args.push("data=payload");
+  }
+
+  if (req.aws) {
+    const { accessKeyId, secretAccessKey, sessionToken, region, service } = req.aws.config;
+    imports.push("from requests_aws4auth import AWS4Auth");
+    const authArgs = [accessKeyId, secretAccessKey, region, service].map(quote);
+    if (sessionToken) authArgs.push(`session_token=${quote(sessionToken)}`);
+    sections.push(`auth = AWS4Auth(${authArgs.join(", ")})\n`);
+    args.push("auth=auth");
+  } else if (req.basicAuth) {
+    args.push(`auth=(${quote(req.basicAuth.username)}, ${quote(req.basicAuth.password)})`);
+  }
+
+  return [
+    `${comments("#", notesFor(req, { awsLibrary: true }))}${imports.join("\n")}\n`,
+    ...sections,
+    `response = requests.request(${quote(req.method)}, ${args.join(", ")})\n`,
+    "print(response.status_code)\nprint(response.text)\n",
+  ].join("\n");
+};
+
+const goSnippet = (req: SnippetRequest): string => {
+  const { body } = req;
+  const imports = new Set(["fmt", "io", "net/http"]);
+  const lines: string[] = [];
+  let payload = "nil";
+
+  if (body.kind === "text") {
+    imports.add("strings");
+    lines.push(`payload := strings.NewReader(${goText(body.text)})`, "");
+    payload = "payload";
+  } else if (body.kind === "urlencoded") {
+    imports.add("strings");
+    lines.push(`payload := strings.NewReader(${quote(encodeUrlencoded(body.fields))})`, "");
+    payload = "payload";
+  } else if (body.kind === "file") {
+    imports.add("os");
+    lines.push(
+      `payload, err := os.Open(${quote(body.fileName)})`,
+      "if err != nil {",
+      "\tpanic(err)",
+      "}",
+      "defer payload.Close()",
+      ""
+    );
+    payload = "payload";
+  } else if (body.kind === "multipart") {
+    imports.add("bytes").add("mime/multipart");
+    lines.push("payload := &bytes.Buffer{}", "writer := multipart.NewWriter(payload)");
+    for (const field of body.fields) {
+      if ("value" in field) {
+        lines.push(`if err := writer.WriteField(${quote(field.key)}, ${quote(field.value)}); err != nil {`, "\tpanic(err)", "}");
+      } else {
+        imports.add("os").add("path/filepath");
+        lines.push(
+          "{",
+          `\tfile, err := os.Open(${quote(field.fileName)})`,
+          "\tif err != nil {",
+          "\t\tpanic(err)",
+          "\t}",
+          "\tdefer file.Close()",
+          `\tpart, err := writer.CreateFormFile(${quote(field.key)}, filepath.Base(file.Name()))`,
+          "\tif err != nil {",
+          "\t\tpanic(err)",
+          "\t}",
+          "\tif _, err := io.Copy(part, file); err != nil {",
+          "\t\tpanic(err)",
+          "\t}",
+          "}"
+        );
+      }
+    }
+    lines.push("if err := writer.Close(); err != nil {", "\tpanic(err)", "}", "");
+    payload = "payload";
+  }
+
+  lines.push(
+    `req, err := http.NewRequest(${quote(req.method)}, ${quote(req.url)}, ${payload})`,
+    "if err != nil {",
+    "\tpanic(err)",
+    "}"
+  );
+  for (const [key, value] of headersWithAuth(req, { basic: false })) {
+    // Go sends the Host header from req.Host and ignores it in the header map.
+    lines.push(key.toLowerCase() === "host" ? `req.Host = ${quote(value)}` : `req.Header.Add(${quote(key)}, ${quote(value)})`);
+  }
+  if (body.kind === "multipart") lines.push(`req.Header.Set("Content-Type", writer.FormDataContentType())`);
+  if (req.basicAuth) lines.push(`req.SetBasicAuth(${quote(req.basicAuth.username)}, ${quote(req.basicAuth.password)})`);
+  lines.push(
+    "",
+    "res, err := http.DefaultClient.Do(req)",
+    "if err != nil {",
+    "\tpanic(err)",
+    "}",
+    "defer res.Body.Close()",
+    "",
+    "body, err := io.ReadAll(res.Body)",
+    "if err != nil {",
+    "\tpanic(err)",
+    "}",
+    "fmt.Println(res.Status)",
+    "fmt.Println(string(body))"
+  );
+
+  const importList = [...imports].sort().map((name) => `\t"${name}"`).join("\n");
+  const bodyLines = lines.map((line) => (line ? `\t${line}` : "")).join("\n");
+  return `${comments("//", notesFor(req))}package main\n\nimport (\n${importList}\n)\n\nfunc main() {\n${bodyLines}\n}\n`;
+};
+
+// HttpClient throws when these are set by hand.
+const JAVA_RESTRICTED_HEADERS = new Set(["connection", "content-length", "expect", "host", "upgrade"]);
+
+const javaSnippet = (req: SnippetRequest): string => {
+  const { body } = req;
+  const imports = new Set(["java.net.URI", "java.net.http.HttpClient", "java.net.http.HttpRequest", "java.net.http.HttpResponse"]);
+  const statements: string[] = [];
+  const notes = notesFor(req);
+  let publisher = "HttpRequest.BodyPublishers.noBody()";
+
+  if (body.kind === "text") {
+    publisher = `HttpRequest.BodyPublishers.ofString(${quoteLines(body.text, " +\n                ")})`;
+  } else if (body.kind === "urlencoded") {
+    publisher = `HttpRequest.BodyPublishers.ofString(${quote(encodeUrlencoded(body.fields))})`;
+  } else if (body.kind === "file") {
+    imports.add("java.nio.file.Path");
+    publisher = `HttpRequest.BodyPublishers.ofFile(Path.of(${quote(body.fileName)}))`;
+  } else if (body.kind === "multipart") {
+    imports.add("java.nio.charset.StandardCharsets").add("java.util.List");
+    const parts = multipartSegments(body.fields).map((segment) => {
+      if ("text" in segment) return `            ${quote(segment.text)}.getBytes(StandardCharsets.UTF_8)`;
+      imports.add("java.nio.file.Files").add("java.nio.file.Path");
+      return `            Files.readAllBytes(Path.of(${quote(segment.fileName)}))`;
+    });
+    statements.push(`List<byte[]> multipart = List.of(\n${parts.join(",\n")}\n        );`);
+    publisher = "HttpRequest.BodyPublishers.ofByteArrays(multipart)";
+  }
+
+  const headers = headersWithAuth(req);
+  if (body.kind === "multipart" && !hasHeader(headers, "content-type")) {
+    headers.push(["Content-Type", multipartContentType]);
+  }
+  const builder = [`.uri(URI.create(${quote(req.url)}))`];
+  for (const [key, value] of headers) {
+    if (JAVA_RESTRICTED_HEADERS.has(key.toLowerCase())) {
+      notes.push(`HttpClient doesn't allow setting the ${key} header, so it was left out.`);
+    } else {
+      builder.push(`.header(${quote(key)}, ${quote(value)})`);
+    }
+  }
+  builder.push(`.method(${quote(req.method)}, ${publisher})`, ".build();");
+
+  const main = [
+    ...statements,
+    "HttpClient client = HttpClient.newHttpClient();",
+    `HttpRequest request = HttpRequest.newBuilder()\n${builder.map((line) => `            ${line}`).join("\n")}`,
+    "HttpResponse<String> response = client.send(request, HttpResponse.BodyHandlers.ofString());",
+    "System.out.println(response.statusCode());",
+    "System.out.println(response.body());",
+  ];
+
+  return `${comments("//", notes)}${[...imports].sort().map((name) => `import ${name};`).join("\n")}
+
+public class Main {
+    public static void main(String[] args) throws Exception {
+${main.map((line) => `        ${line}`).join("\n")}
+    }
+}
+`;
+};
+
+// Headers that belong to HttpContent rather than the request in .NET.
+const isContentHeader = (name: string) =>
+  /^content-/i.test(name) || ["allow", "expires", "last-modified"].includes(name.toLowerCase());
+
+const csharpSnippet = (req: SnippetRequest): string => {
+  const { body } = req;
+  const usings = new Set(["System", "System.Net.Http"]);
+  const lines = ["var client = new HttpClient();", `var request = new HttpRequestMessage(new HttpMethod(${quote(req.method)}), ${quote(req.url)});`];
+  const notes = notesFor(req);
+
+  if (body.kind === "text") {
+    lines.push(`request.Content = new StringContent(${quoteLines(body.text, " +\n    ")});`);
+  } else if (body.kind === "urlencoded") {
+    usings.add("System.Collections.Generic");
+    const fields = body.fields.map(([key, value]) => `    new KeyValuePair<string, string>(${quote(key)}, ${quote(value)}),`);
+    lines.push(`request.Content = new FormUrlEncodedContent(new[]\n{\n${fields.join("\n")}\n});`);
+  } else if (body.kind === "file") {
+    usings.add("System.IO");
+    lines.push(`request.Content = new ByteArrayContent(File.ReadAllBytes(${quote(body.fileName)}));`);
+  } else if (body.kind === "multipart") {
+    lines.push("var content = new MultipartFormDataContent();");
+    for (const field of body.fields) {
+      if ("value" in field) {
+        lines.push(`content.Add(new StringContent(${quote(field.value)}), ${quote(field.key)});`);
+      } else {
+        usings.add("System.IO");
+        lines.push(
+          `content.Add(new StreamContent(File.OpenRead(${quote(field.fileName)})), ${quote(field.key)}, ${quote(field.fileName)});`
+        );
+      }
+    }
+    lines.push("request.Content = content;");
+  }
+
+  for (const [key, value] of headersWithAuth(req, { basic: false })) {
+    if (!isContentHeader(key)) {
+      lines.push(`request.Headers.TryAddWithoutValidation(${quote(key)}, ${quote(value)});`);
+    } else if (body.kind === "none") {
+      notes.push(`${key} can only be set on a request with a body, so it was left out.`);
+    } else if (key.toLowerCase() !== "content-length") {
+      // The content classes set their own Content-Type; replace it with the one configured.
+      if (key.toLowerCase() === "content-type") lines.push(`request.Content.Headers.Remove("Content-Type");`);
+      lines.push(`request.Content.Headers.TryAddWithoutValidation(${quote(key)}, ${quote(value)});`);
+    }
+  }
+  if (req.basicAuth) {
+    usings.add("System.Net.Http.Headers").add("System.Text");
+    lines.push(
+      `request.Headers.Authorization = new AuthenticationHeaderValue("Basic", Convert.ToBase64String(Encoding.UTF8.GetBytes(${quote(
+        basicCredentials(req.basicAuth)
+      )})));`
+    );
+  }
+
+  lines.push(
+    "",
+    "var response = await client.SendAsync(request);",
+    "Console.WriteLine((int)response.StatusCode);",
+    "Console.WriteLine(await response.Content.ReadAsStringAsync());"
+  );
+  return `${comments("//", notes)}${[...usings].sort().map((name) => `using ${name};`).join("\n")}\n\n${lines.join("\n")}\n`;
+};
+
+const powershellSnippet = (req: SnippetRequest): string => {
+  const { body } = req;
+  const notes = notesFor(req);
+  const sections: string[] = [];
+  const params: [string, string][] = [
+    ["Uri", psQuote(req.url)],
+    ["Method", psQuote(req.method)],
+  ];
+
+  // Invoke-WebRequest takes the content type as a parameter of its own.
+  const allHeaders = mergeHeaders(headersWithAuth(req, { basic: false }));
+  const contentType = allHeaders.find(([key]) => key.toLowerCase() === "content-type");
+  const headers = allHeaders.filter((header) => header !== contentType);
+  if (headers.length > 0 || req.basicAuth) {
+    const entries = headers.map(([key, value]) => `    ${psQuote(key)} = ${psQuote(value)}`);
+    let section = `$headers = @{\n${entries.join("\n")}${entries.length > 0 ? "\n" : ""}}\n`;
+    if (req.basicAuth) {
+      section += `$headers['Authorization'] = 'Basic ' + [Convert]::ToBase64String([Text.Encoding]::UTF8.GetBytes(${psQuote(
+        basicCredentials(req.basicAuth)
+      )}))\n`;
+    }
+    sections.push(section);
+    params.push(["Headers", "$headers"]);
+  }
+  if (contentType && body.kind !== "multipart") params.push(["ContentType", psQuote(contentType[1])]);
+
+  if (body.kind === "text") {
+    sections.push(`$body = ${psQuote(body.text)}\n`);
+    params.push(["Body", "$body"]);
+  } else if (body.kind === "urlencoded") {
+    sections.push(`$body = ${psQuote(encodeUrlencoded(body.fields))}\n`);
+    params.push(["Body", "$body"]);
+  } else if (body.kind === "file") {
+    params.push(["InFile", psQuote(body.fileName)]);
+  } else if (body.kind === "multipart") {
+    notes.push("-Form needs PowerShell 7 or later.");
+    const entries = body.fields.map((field) =>
+      "value" in field
+        ? `    ${psQuote(field.key)} = ${psQuote(field.value)}`
+        : `    ${psQuote(field.key)} = Get-Item -LiteralPath ${psQuote(field.fileName)}`
+    );
+    sections.push(`$form = [ordered]@{\n${entries.join("\n")}\n}\n`);
+    params.push(["Form", "$form"]);
+  }
+
+  const width = Math.max(...params.map(([key]) => key.length));
+  const splat = params.map(([key, value]) => `    ${key.padEnd(width)} = ${value}`).join("\n");
+  return [
+    ...(notes.length > 0 ? [comments("#", notes)] : []),
+    ...sections,
+    `$params = @{\n${splat}\n}\n`,
+    "$response = Invoke-WebRequest @params\n$response.StatusCode\n$response.Content\n",
+  ].join("\n");
+};
+
+const GENERATORS: Record<SnippetLanguage, (req: SnippetRequest) => string> = {
+  curl: curlSnippet,
+  fetch: fetchSnippet,
+  axios: axiosSnippet,
+  node: nodeSnippet,
+  python: pythonSnippet,
+  go: goSnippet,
+  java: javaSnippet,
+  csharp: csharpSnippet,
+  powershell: powershellSnippet,
+};
+
+export const generateSnippet = (language: SnippetLanguage, req: SnippetRequest): string => GENERATORS[language](req);
@@ -0,0 +1,19 @@
+const STORAGE_PREFIX = "api-simplicity-wizard:";
+
+export const loadJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(STORAGE_PREFIX + key);
+    return raw === null ? fallback : (JSON.parse(raw) as T);
+  } catch (e) {
+    console.warn(`Could not read "${key}" from local storage:`, e);
+    return fallback;
+  }
+};
+
+export const saveJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+  } catch (e) {
+    console.warn(`Could not write "${key}" to local storage:`, e);
+  }
+};
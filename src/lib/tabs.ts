@@ -0,0 +1,68 @@
+import type { Collection } from "@/types/collection";
+import type { RequestConfig } from "@/types/request";
+import type { ApiResponse } from "@/types/response";
+import type { RequestTab } from "@/types/tab";
+import { createDefaultRequest, toStoredRequest } from "@/lib/request";
+import { findNode } from "@/lib/collections";
+import { parseQueryParams } from "@/lib/query-params";
+
+interface TabOptions {
+  request?: RequestConfig;
+  savedRequestId?: string | null;
+  response?: ApiResponse | null;
+}
+
+// Selected files aren't part of the snapshot, so picking one doesn't mark a tab dirty.
+export const requestSnapshot = (config: RequestConfig) => JSON.stringify(toStoredRequest(config));
+
+export const createTab = ({ request = createDefaultRequest(), savedRequestId = null, response = null }: TabOptions = {}): RequestTab => ({
+  id: crypto.randomUUID(),
+  request,
+  params: parseQueryParams(request.url),
+  savedRequestId,
+  baseline: requestSnapshot(request),
+  certificate: null,
+  loading: false,
+  response,
+  errorDetails: null,
+});
+
+// The copy is unsaved and starts without a response.
+export const duplicateTab = (tab: RequestTab): RequestTab => ({
+  ...createTab({ request: structuredClone(tab.request) }),
+  params: structuredClone(tab.params),
+  certificate: tab.certificate,
+});
+
+export const isTabDirty = (tab: RequestTab) => requestSnapshot(tab.request) !== tab.baseline;
+
+// An untouched new tab, which opening something else may take over.
+export const isBlankTab = (tab: RequestTab) =>
+  !tab.savedRequestId &&
+  !tab.loading &&
+  !tab.response &&
+  requestSnapshot(tab.request) === requestSnapshot(createDefaultRequest());
+
+export const requestLabel = (config: RequestConfig) => {
+  const url = config.url.trim();
+  if (!url) return "New Request";
+  try {
+    const { pathname } = new URL(url);
+    return pathname === "/" ? url : pathname;
+  } catch {
+    return url;
+  }
+};
+
+export const tabTitle = (tab: RequestTab, collections: Collection[]) => {
+  const saved = tab.savedRequestId ? findNode(collections, tab.savedRequestId) : undefined;
+  return saved && "type" in saved && saved.type === "request" ? saved.name : requestLabel(tab.request);
+};
+
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  if (from === to || from < 0 || to < 0 || from >= items.length || to >= items.length) return items;
+  const moved = [...items];
+  const [item] = moved.splice(from, 1);
+  moved.splice(to, 0, item);
+  return moved;
+};
@@ -0,0 +1,178 @@
+import type { AuthConfig, AuthType, KeyValueRow, RequestConfig } from "@/types/request";
+import { activeRows, createRow } from "@/lib/key-value";
+import { methodAllowsBody, sendsGraphQLInUrl } from "@/lib/body";
+import { evaluateDynamicVariable, isDynamicVariable } from "@/lib/dynamic-variables";
+
+export type VariableMap = Record<string, string>;
+
+const VARIABLE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+// Variables may reference other variables; this bounds reference cycles.
+const MAX_DEPTH = 10;
+
+export const variablesFromRows = (rows: KeyValueRow[]): VariableMap =>
+  Object.fromEntries(activeRows(rows).map((row) => [row.key.trim(), row.value]));
+
+// Variable changes as reported by scripts: a null value means "unset".
+export type VariableUpdates = Record<string, string | null>;
+
+export const applyVariableUpdates = (variables: VariableMap, updates: VariableUpdates): VariableMap => {
+  const next = { ...variables };
+  for (const [name, value] of Object.entries(updates)) {
+    if (value === null) delete next[name];
+    else next[name] = value;
+  }
+  return next;
+};
+
+// Writes updates into an environment's rows, keeping row ids and order and
+// appending variables that didn't exist yet.
+export const updateVariableRows = (rows: KeyValueRow[], updates: VariableUpdates): KeyValueRow[] => {
+  const pending = new Map(Object.entries(updates));
+  const updated = rows.flatMap((row) => {
+    const name = row.key.trim();
+    if (!pending.has(name)) return [row];
+    const value = pending.get(name);
+    pending.delete(name);
+    return value === null ? [] : [{ ...row, value, enabled: true }];
+  });
+  for (const [name, value] of pending) {
+    if (value !== null) updated.push(createRow(name, value));
+  }
+  return updated;
+};
+
+interface ResolveOptions {
+  // Set to false to leave {{$dynamic}} placeholders in place, e.g. for
+  // previews that shouldn't show a different random value on every render.
+  dynamic?: boolean;
+}
+
+// Own keys only: `in` would also find inherited ones like "toString".
+const hasVariable = (variables: VariableMap, name: string) => Object.prototype.hasOwnProperty.call(variables, name);
+
+const resolveWithDepth = (text: string, variables: VariableMap, options: ResolveOptions, depth: number): string => {
+  if (!text || !text.includes("{{")) return text;
+  const resolveNested = (value: string) =>
+    depth < MAX_DEPTH ? resolveWithDepth(value, variables, options, depth + 1) : value;
+
+  return text.replace(VARIABLE_PATTERN, (match, name: string) => {
+    if (hasVariable(variables, name)) {
+      return resolveNested(variables[name]);
+    }
+    if (options.dynamic !== false && isDynamicVariable(name)) {
+      const value = evaluateDynamicVariable(name, {
+        lookup: (other) => (hasVariable(variables, other) ? resolveNested(variables[other]) : undefined),
+      });
+      return value ?? match;
+    }
+    return match;
+  });
+};
+
+export const resolveVariables = (text: string, variables: VariableMap, options: ResolveOptions = {}): string =>
+  resolveWithDepth(text, variables, options, 0);
+
+export const isDefinedVariable = (name: string, variables: VariableMap): boolean =>
+  hasVariable(variables, name) || isDynamicVariable(name);
+
+export const findUnresolved = (text: string, variables: VariableMap): string[] => {
+  if (!text || !text.includes("{{")) return [];
+  const missing: string[] = [];
+  for (const match of resolveVariables(text, variables).matchAll(VARIABLE_PATTERN)) {
+    missing.push(match[1]);
+  }
+  return missing;
+};
+
+const resolveRows = <T extends KeyValueRow>(rows: T[], variables: VariableMap, options: ResolveOptions = {}): T[] =>
+  rows.map((row) => ({
+    ...row,
+    key: resolveVariables(row.key, variables, options),
+    value: resolveVariables(row.value, variables, options),
+  }));
+
+// Applies `fn` to every string field of a flat settings object.
+const mapStrings = <T extends object>(section: T, fn: (value: string) => string): T =>
+  Object.fromEntries(
+    Object.entries(section).map(([key, value]) => [key, typeof value === "string" ? fn(value) : value])
+  ) as T;
+
+/**
+ * Returns a copy of the request with {{name}} placeholders replaced in the
+ * URL, headers, auth settings and body. Unknown variables are left as is;
+ * dynamic ones like {{$uuid}} get a fresh value on every call unless
+ * `options.dynamic` is false.
+ */
+export const resolveRequestConfig = (
+  config: RequestConfig,
+  variables: VariableMap,
+  options: ResolveOptions = {}
+): RequestConfig => {
+  const resolve = (value: string) => resolveVariables(value, variables, options);
+  const { auth, body } = config;
+
+  return {
+    ...config,
+    url: resolve(config.url),
+    headers: resolveRows(config.headers, variables, options),
+    auth: {
+      ...auth,
+      basic: mapStrings(auth.basic, resolve),
+      bearer: mapStrings(auth.bearer, resolve),
+      apiKey: mapStrings(auth.apiKey, resolve),
+      oauth2: mapStrings(auth.oauth2, resolve),
+      awsV4: mapStrings(auth.awsV4, resolve),
+    },
+    body: {
+      ...body,
+      raw: resolve(body.raw),
+      urlencoded: resolveRows(body.urlencoded, variables, options),
+      multipart: resolveRows(body.multipart, variables, options),
+      graphql: mapStrings(body.graphql, resolve),
+    },
+  };
+};
+
+const AUTH_SECTIONS: Record<Exclude<AuthType, "none">, keyof Omit<AuthConfig, "type">> = {
+  basic: "basic",
+  bearer: "bearer",
+  apikey: "apiKey",
+  oauth2: "oauth2",
+  awsv4: "awsV4",
+};
+
+const requestStrings = (config: RequestConfig): string[] => {
+  const { auth, body } = config;
+  const rowStrings = (rows: KeyValueRow[]) => activeRows(rows).flatMap((row) => [row.key, row.value]);
+  const authSection = auth.type === "none" ? {} : auth[AUTH_SECTIONS[auth.type]];
+  const bodyStrings = (() => {
+    if (!methodAllowsBody(config.method) && !sendsGraphQLInUrl(config.method, body)) return [];
+    switch (body.mode) {
+      case "json":
+      case "text":
+      case "xml":
+        return [body.raw];
+      case "urlencoded":
+        return rowStrings(body.urlencoded);
+      case "multipart":
+        return rowStrings(body.multipart.filter((row) => row.type === "text"));
+      case "graphql":
+        return [body.graphql.query, body.graphql.variables];
+      default:
+        return [];
+    }
+  })();
+
+  return [
+    config.url,
+    ...rowStrings(config.headers),
+    ...Object.values(authSection).filter((value): value is string => typeof value === "string"),
+    ...bodyStrings,
+  ];
+};
+
+// Names of the variables that would be sent literally, in first-seen order.
+export const collectUnresolved = (config: RequestConfig, variables: VariableMap): string[] => [
+  ...new Set(requestStrings(config).flatMap((text) => findUnresolved(text, variables))),
+];
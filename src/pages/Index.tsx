@@ -1,28 +1,94 @@
-
 import React from 'react';
 import ApiClient from '@/components/ApiClient';
+import AppSidebar from '@/components/AppSidebar';
+import EnvironmentSwitcher from '@/components/EnvironmentSwitcher';
+import RequestTabs from '@/components/RequestTabs';
+import { SidebarInset, SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar';
+import { EnvironmentsProvider } from '@/contexts/EnvironmentsContext';
+import { CollectionsProvider } from '@/contexts/CollectionsContext';
+import { TabsProvider, useTabs } from '@/contexts/TabsContext';
+import type { ResponseExample, SavedRequest } from '@/types/collection';
+import type { HistoryEntry } from '@/types/history';
+import type { RequestConfig } from '@/types/request';
+import { restoreRequest } from '@/lib/request';
+import { historyEntryToResponse } from '@/lib/history';
+import { exampleToResponse } from '@/lib/collections';
+import { createTab } from '@/lib/tabs';
+
+const Workspace = () => {
+  const { tabs, activeTab, activateTab, openTab } = useTabs();
+
+  // A saved request that is already open is brought to the front instead of opened twice.
+  const openRequest = (saved: SavedRequest) => {
+    const existing = tabs.find((tab) => tab.savedRequestId === saved.id);
+    if (existing) {
+      activateTab(existing.id);
+    } else {
+      openTab(createTab({ request: restoreRequest(saved.request), savedRequestId: saved.id }));
+    }
+  };
+
+  // Examples open in a tab of their own, detached from the saved request.
+  const openExample = (saved: SavedRequest, example: ResponseExample) => {
+    openTab(createTab({ request: restoreRequest(saved.request), response: exampleToResponse(example) }));
+  };
+
+  const restoreHistory = (entry: HistoryEntry) => {
+    openTab(createTab({ request: restoreRequest(entry.request), response: historyEntryToResponse(entry) }));
+  };
+
+  const openRequests = (requests: RequestConfig[]) => {
+    requests.forEach((request) => openTab(createTab({ request })));
+  };
 
-const Index = () => {
   return (
-    <div className="min-h-screen bg-background">
-      <header className="border-b">
-        <div className="container py-4">
-          <h1 className="text-2xl font-bold">API Simplicity Wizard</h1>
-          <p className="text-muted-foreground">A simple API client for testing endpoints</p>
-        </div>
-      </header>
-      
-      <main>
-        <ApiClient />
-      </main>
-
-      <footer className="border-t mt-8">
-        <div className="container py-4 text-center text-sm text-muted-foreground">
-          <p>API Simplicity Wizard — Test your API endpoints with ease</p>
-        </div>
-      </footer>
-    </div>
+    <SidebarProvider>
+      <AppSidebar
+        activeRequestId={activeTab.savedRequestId}
+        onOpenRequest={openRequest}
+        onOpenExample={openExample}
+        onRestoreHistory={restoreHistory}
+        onOpenRequests={openRequests}
+      />
+      <SidebarInset>
+        <header className="border-b">
+          <div className="container py-4 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <div className="flex items-center gap-3">
+              <SidebarTrigger />
+              <div>
+                <h1 className="text-2xl font-bold">API Simplicity Wizard</h1>
+                <p className="text-muted-foreground">A simple API client for testing endpoints</p>
+              </div>
+            </div>
+            <EnvironmentSwitcher />
+          </div>
+        </header>
+
+        <main>
+          <div className="container pt-4">
+            <RequestTabs />
+          </div>
+          <ApiClient key={activeTab.id} tab={activeTab} />
+        </main>
+
+        <footer className="border-t mt-8">
+          <div className="container py-4 text-center text-sm text-muted-foreground">
+            <p>API Simplicity Wizard — Test your API endpoints with ease</p>
+          </div>
+        </footer>
+      </SidebarInset>
+    </SidebarProvider>
   );
 };
 
+const Index = () => (
+  <EnvironmentsProvider>
+    <CollectionsProvider>
+      <TabsProvider>
+        <Workspace />
+      </TabsProvider>
+    </CollectionsProvider>
+  </EnvironmentsProvider>
+);
+
 export default Index;
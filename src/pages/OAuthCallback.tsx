@@ -0,0 +1,33 @@
+import { useEffect } from "react";
+import { OAUTH2_CALLBACK_MESSAGE } from "@/lib/oauth2";
+
+// Landing page for the authorization code redirect. It hands the result
+// back to the window that opened the popup and closes itself.
+const OAuthCallback = () => {
+  const hasOpener = typeof window !== "undefined" && !!window.opener;
+
+  useEffect(() => {
+    if (!window.opener) return;
+    const params = new URLSearchParams(window.location.search);
+    window.opener.postMessage(
+      {
+        type: OAUTH2_CALLBACK_MESSAGE,
+        code: params.get("code") ?? undefined,
+        state: params.get("state") ?? undefined,
+        error: params.get("error") ?? undefined,
+        errorDescription: params.get("error_description") ?? undefined,
+      },
+      window.location.origin
+    );
+  }, []);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-100">
+      <p className="text-gray-600">
+        {hasOpener ? "Completing authorization…" : "This page is used for OAuth 2.0 callbacks and can be closed."}
+      </p>
+    </div>
+  );
+};
+
+export default OAuthCallback;
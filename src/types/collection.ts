@@ -0,0 +1,35 @@
+import type { RequestConfig } from "@/types/request";
+
+// A response kept with a saved request for reference, e.g. a Postman example.
+export interface ResponseExample {
+  id: string;
+  name: string;
+  status: number;
+  statusText: string;
+  // Lower-cased header names.
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface SavedRequest {
+  type: "request";
+  id: string;
+  name: string;
+  request: RequestConfig;
+  examples?: ResponseExample[];
+}
+
+export interface CollectionFolder {
+  type: "folder";
+  id: string;
+  name: string;
+  items: CollectionItem[];
+}
+
+export type CollectionItem = CollectionFolder | SavedRequest;
+
+export interface Collection {
+  id: string;
+  name: string;
+  items: CollectionItem[];
+}
@@ -0,0 +1,7 @@
+import type { KeyValueRow } from "@/types/request";
+
+export interface Environment {
+  id: string;
+  name: string;
+  variables: KeyValueRow[];
+}
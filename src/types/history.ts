@@ -0,0 +1,26 @@
+import type { RequestConfig } from "@/types/request";
+
+export interface HistoryEntry {
+  id: string;
+  timestamp: number;
+  // The request as it was in the editor, {{variables}} and all.
+  request: RequestConfig;
+  // The URL that was actually sent.
+  url: string;
+  response: {
+    // 0 when no response arrived.
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+    bodyTruncated: boolean;
+    size?: number;
+    time: number;
+    error?: string;
+  };
+}
+
+export interface HistoryRetention {
+  maxEntries: number;
+  maxAgeDays: number;
+}
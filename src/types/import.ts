@@ -0,0 +1,10 @@
+import type { Collection } from "@/types/collection";
+import type { Environment } from "@/types/environment";
+
+export interface ImportResult {
+  // null for files that only carry environments.
+  collection: Collection | null;
+  environments: Environment[];
+  // Things the source had that couldn't be carried over, for the user to review.
+  warnings: string[];
+}
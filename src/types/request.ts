@@ -0,0 +1,110 @@
+export type HttpMethod = "GET" | "POST" | "PUT" | "DELETE" | "PATCH" | "OPTIONS" | "HEAD";
+
+export interface KeyValueRow {
+  id: string;
+  key: string;
+  value: string;
+  enabled: boolean;
+}
+
+export type BodyMode = "none" | "json" | "text" | "xml" | "urlencoded" | "multipart" | "binary" | "graphql";
+
+export interface MultipartRow extends KeyValueRow {
+  type: "text" | "file";
+  file: File | null;
+}
+
+// json, text and xml share the raw text, the same way auth keeps every
+// scheme's fields, so switching modes is lossless.
+export interface RequestBodyConfig {
+  mode: BodyMode;
+  raw: string;
+  urlencoded: KeyValueRow[];
+  multipart: MultipartRow[];
+  binary: File | null;
+  graphql: {
+    query: string;
+    variables: string;
+  };
+}
+
+export type AuthType = "none" | "basic" | "bearer" | "apikey" | "oauth2" | "awsv4";
+
+export type ApiKeyLocation = "header" | "query";
+
+export type OAuth2GrantType = "client_credentials" | "password" | "authorization_code";
+
+export type OAuth2ClientAuth = "header" | "body";
+
+export interface OAuth2Config {
+  grantType: OAuth2GrantType;
+  tokenUrl: string;
+  authUrl: string;
+  redirectUri: string;
+  clientId: string;
+  clientSecret: string;
+  scope: string;
+  username: string;
+  password: string;
+  usePkce: boolean;
+  clientAuth: OAuth2ClientAuth;
+  headerPrefix: string;
+}
+
+export interface AwsSigV4Config {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken: string;
+  region: string;
+  service: string;
+}
+
+// Every scheme keeps its own fields so switching the type back and forth
+// doesn't throw away what was typed.
+export interface AuthConfig {
+  type: AuthType;
+  basic: {
+    username: string;
+    password: string;
+  };
+  bearer: {
+    token: string;
+    prefix: string;
+  };
+  apiKey: {
+    key: string;
+    value: string;
+    addTo: ApiKeyLocation;
+  };
+  oauth2: OAuth2Config;
+  awsV4: AwsSigV4Config;
+}
+
+export interface RequestScripts {
+  preRequest: string;
+  test: string;
+}
+
+export type AssertionSource = "status" | "header" | "jsonpath" | "responseTime" | "bodySize";
+
+export type AssertionOperator = "equals" | "contains" | "matches" | "lessThan" | "exists" | "typeIs";
+
+export interface AssertionRow {
+  id: string;
+  enabled: boolean;
+  source: AssertionSource;
+  // Header name or JSONPath; unused by the other sources.
+  property: string;
+  operator: AssertionOperator;
+  expected: string;
+}
+
+export interface RequestConfig {
+  method: HttpMethod;
+  url: string;
+  headers: KeyValueRow[];
+  body: RequestBodyConfig;
+  auth: AuthConfig;
+  scripts: RequestScripts;
+  assertions: AssertionRow[];
+}
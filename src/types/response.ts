@@ -0,0 +1,23 @@
+import type { TestResult } from "@/types/script";
+
+export interface ApiResponse {
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  data: any;
+  time: number;
+  // Body size in bytes, when a body was read.
+  size?: number;
+  error?: {
+    message: string;
+    stack?: string;
+    code?: string;
+    type?: string;
+    details?: any;
+  };
+  // console output of the request's scripts, in the order it was written.
+  logs?: string[];
+  tests?: TestResult[];
+  // Results of the request's declarative assertions.
+  assertions?: TestResult[];
+}
@@ -0,0 +1,65 @@
+// Everything crossing the worker boundary is plain data so it survives
+// structured cloning.
+
+export interface ScriptRequest {
+  method: string;
+  url: string;
+  headers: [string, string][];
+  // Raw text for json/text/xml bodies, null for every other mode.
+  body: string | null;
+}
+
+export interface PreRequestScriptJob {
+  kind: "pre-request";
+  code: string;
+  request: ScriptRequest;
+  variables: Record<string, string>;
+}
+
+export interface ScriptResponse {
+  status: number;
+  statusText: string;
+  // Lower-cased header names.
+  headers: Record<string, string>;
+  // Parsed JSON when the body was JSON, the text otherwise.
+  data: unknown;
+  time: number;
+}
+
+export interface TestScriptJob {
+  kind: "test";
+  code: string;
+  response: ScriptResponse;
+  variables: Record<string, string>;
+}
+
+export type ScriptJob = PreRequestScriptJob | TestScriptJob;
+
+export interface TestResult {
+  name: string;
+  passed: boolean;
+  message?: string;
+}
+
+export interface ScriptError {
+  message: string;
+  stack?: string;
+}
+
+// Check with `"error" in result`: a script that threw, didn't compile or
+// timed out reports its error, whatever it logged and the tests it finished.
+export type ScriptResult =
+  | {
+      // Set for pre-request jobs.
+      request?: ScriptRequest;
+      // Set for test jobs, in the order the tests were declared.
+      tests?: TestResult[];
+      // null marks a variable the script unset.
+      variableUpdates: Record<string, string | null>;
+      logs: string[];
+    }
+  | {
+      error: ScriptError;
+      logs: string[];
+      tests?: TestResult[];
+    };
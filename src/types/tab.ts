@@ -0,0 +1,17 @@
+import type { KeyValueRow, RequestConfig } from "@/types/request";
+import type { ApiResponse } from "@/types/response";
+
+export interface RequestTab {
+  id: string;
+  request: RequestConfig;
+  // Edited alongside the URL; also keeps disabled rows the URL can't hold.
+  params: KeyValueRow[];
+  // The saved request this tab edits, if any; Save updates it in place.
+  savedRequestId: string | null;
+  // Snapshot of the request when it was opened or last saved.
+  baseline: string;
+  certificate: File | null;
+  loading: boolean;
+  response: ApiResponse | null;
+  errorDetails: string | null;
+}
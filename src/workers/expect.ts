@@ -0,0 +1,101 @@
+import { deepEqual } from "@/lib/deep-equal";
+
+export interface Assertion {
+  description: string;
+  passed: boolean;
+  message: string;
+}
+
+export class AssertionError extends Error {
+  name = "AssertionError";
+}
+
+const MAX_PREVIEW_LENGTH = 60;
+
+export const formatValue = (value: unknown): string => {
+  if (value === undefined) return "undefined";
+  if (typeof value === "function") return "[Function]";
+  if (value instanceof RegExp) return String(value);
+  let text: string;
+  try {
+    text = JSON.stringify(value) ?? String(value);
+  } catch {
+    text = String(value);
+  }
+  return text.length > MAX_PREVIEW_LENGTH ? `${text.slice(0, MAX_PREVIEW_LENGTH)}…` : text;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null;
+
+// Walks "data.items.0.id" or ["data", "items", 0, "id"].
+const getPath = (value: unknown, path: string | (string | number)[]) => {
+  const segments = Array.isArray(path) ? path.map(String) : path.split(".");
+  let current = value;
+  for (const segment of segments) {
+    if (!isObject(current) || !(segment in current)) return { found: false, value: undefined };
+    current = current[segment];
+  }
+  return { found: true, value: current };
+};
+
+const lengthOf = (value: unknown) =>
+  typeof value === "string" || Array.isArray(value) ? value.length : undefined;
+
+/**
+ * A small Jest-flavoured `expect`. Every matcher reports to `onAssertion`,
+ * which decides whether a failure throws (inside a test) or is recorded.
+ */
+export const createExpect = (onAssertion: (assertion: Assertion) => void) => {
+  const matchers = (actual: unknown, negated: boolean) => {
+    const check = (matcher: string, pass: boolean, verb: string, expected?: unknown[]) => {
+      const args = expected ? expected.map(formatValue).join(", ") : "";
+      const description = `expect(${formatValue(actual)})${negated ? ".not" : ""}.${matcher}(${args})`;
+      const message = `Expected ${formatValue(actual)} ${negated ? "not " : ""}${verb}${args ? ` ${args}` : ""}`;
+      onAssertion({ description, passed: negated ? !pass : pass, message });
+    };
+    const compare = (pass: (value: number) => boolean) => typeof actual === "number" && pass(actual);
+
+    return {
+      toBe: (expected: unknown) => check("toBe", Object.is(actual, expected), "to be", [expected]),
+      toEqual: (expected: unknown) => check("toEqual", deepEqual(actual, expected), "to equal", [expected]),
+      toBeTruthy: () => check("toBeTruthy", Boolean(actual), "to be truthy"),
+      toBeFalsy: () => check("toBeFalsy", !actual, "to be falsy"),
+      toBeNull: () => check("toBeNull", actual === null, "to be null"),
+      toBeUndefined: () => check("toBeUndefined", actual === undefined, "to be undefined"),
+      toBeDefined: () => check("toBeDefined", actual !== undefined, "to be defined"),
+      toContain: (expected: unknown) =>
+        check(
+          "toContain",
+          typeof actual === "string"
+            ? actual.includes(String(expected))
+            : Array.isArray(actual) && actual.some((item) => deepEqual(item, expected)),
+          "to contain",
+          [expected]
+        ),
+      toMatch: (expected: RegExp | string) =>
+        check(
+          "toMatch",
+          typeof actual === "string" && (typeof expected === "string" ? actual.includes(expected) : expected.test(actual)),
+          "to match",
+          [expected]
+        ),
+      toHaveProperty: (path: string | (string | number)[], ...value: unknown[]) => {
+        const result = getPath(actual, path);
+        const pass = result.found && (value.length === 0 || deepEqual(result.value, value[0]));
+        check("toHaveProperty", pass, "to have property", [path, ...value]);
+      },
+      toHaveLength: (expected: number) =>
+        check("toHaveLength", lengthOf(actual) === expected, "to have length", [expected]),
+      toBeGreaterThan: (expected: number) =>
+        check("toBeGreaterThan", compare((value) => value > expected), "to be greater than", [expected]),
+      toBeGreaterThanOrEqual: (expected: number) =>
+        check("toBeGreaterThanOrEqual", compare((value) => value >= expected), "to be at least", [expected]),
+      toBeLessThan: (expected: number) =>
+        check("toBeLessThan", compare((value) => value < expected), "to be less than", [expected]),
+      toBeLessThanOrEqual: (expected: number) =>
+        check("toBeLessThanOrEqual", compare((value) => value <= expected), "to be at most", [expected]),
+    };
+  };
+
+  return (actual: unknown) => ({ ...matchers(actual, false), not: matchers(actual, true) });
+};
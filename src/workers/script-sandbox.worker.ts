@@ -0,0 +1,174 @@
+import { transform } from "sucrase";
+import type { ScriptJob, ScriptRequest, ScriptResult, TestResult } from "@/types/script";
+import { AssertionError, createExpect } from "@/workers/expect";
+
+type AsyncFunctionConstructor = new (...args: string[]) => (...args: unknown[]) => Promise<unknown>;
+
+const AsyncFunction = Object.getPrototypeOf(async () => {}).constructor as AsyncFunctionConstructor;
+
+// Worker globals a script could use to reach the network or storage. They are
+// shadowed with undefined parameters; the worker itself already keeps the
+// script away from the page and the DOM.
+const BLOCKED_GLOBALS = [
+  "self",
+  "globalThis",
+  "postMessage",
+  "close",
+  "importScripts",
+  "fetch",
+  "XMLHttpRequest",
+  "WebSocket",
+  "EventSource",
+  "Worker",
+  "indexedDB",
+  "caches",
+];
+
+const formatLogValue = (value: unknown): string => {
+  if (typeof value === "string") return value;
+  if (value instanceof Error) return `${value.name}: ${value.message}`;
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+};
+
+const createConsole = (logs: string[]) => {
+  const write = (level: string) => (...values: unknown[]) => {
+    const line = values.map(formatLogValue).join(" ");
+    logs.push(level === "log" ? line : `[${level}] ${line}`);
+  };
+  return { log: write("log"), info: write("info"), warn: write("warn"), error: write("error") };
+};
+
+const createHeaderList = (headers: [string, string][]) => {
+  const matches = (name: string) => (entry: [string, string]) => entry[0].toLowerCase() === name.toLowerCase();
+
+  return {
+    get: (name: string) => headers.find(matches(name))?.[1],
+    has: (name: string) => headers.some(matches(name)),
+    set: (name: string, value: unknown) => {
+      const index = headers.findIndex(matches(name));
+      if (index === -1) headers.push([name, String(value)]);
+      else headers[index] = [headers[index][0], String(value)];
+    },
+    remove: (name: string) => {
+      for (let i = headers.length - 1; i >= 0; i--) {
+        if (matches(name)(headers[i])) headers.splice(i, 1);
+      }
+    },
+    toObject: () => Object.fromEntries(headers),
+  };
+};
+
+const createEnvironment = (variables: Record<string, string>, updates: Record<string, string | null>) => ({
+  get: (name: string) => (Object.prototype.hasOwnProperty.call(variables, name) ? variables[name] : undefined),
+  has: (name: string) => Object.prototype.hasOwnProperty.call(variables, name),
+  set: (name: string, value: unknown) => {
+    variables[name] = String(value);
+    updates[name] = variables[name];
+  },
+  unset: (name: string) => {
+    delete variables[name];
+    updates[name] = null;
+  },
+  toObject: () => ({ ...variables }),
+});
+
+const createRequest = (request: ScriptRequest) => {
+  const headers = createHeaderList(request.headers);
+  return {
+    get method() {
+      return request.method;
+    },
+    get url() {
+      return request.url;
+    },
+    set url(value: string) {
+      request.url = String(value);
+    },
+    headers,
+    get body() {
+      return request.body;
+    },
+    set body(value: string | null) {
+      if (request.body === null) {
+        throw new Error("pm.request.body can only be changed for JSON, Text and XML bodies.");
+      }
+      request.body = typeof value === "string" ? value : JSON.stringify(value);
+    },
+  };
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : formatLogValue(error));
+
+// test() blocks run as they are declared and are awaited before the script
+// settles. Assertions inside a test throw so the test stops at the first
+// failure; bare expect() calls are recorded as results of their own.
+const createTestApi = (tests: TestResult[], pending: Promise<void>[]) => {
+  let running = 0;
+
+  const expect = createExpect(({ description, passed, message }) => {
+    if (running > 0) {
+      if (!passed) throw new AssertionError(message);
+      return;
+    }
+    tests.push(passed ? { name: description, passed } : { name: description, passed, message });
+  });
+
+  const test = (name: string, fn: () => unknown) => {
+    const index = tests.push({ name: String(name), passed: true }) - 1;
+    running++;
+    const done = (async () => {
+      try {
+        await fn();
+      } catch (error) {
+        tests[index] = { name: String(name), passed: false, message: errorMessage(error) };
+      } finally {
+        running--;
+      }
+    })();
+    pending.push(done);
+    return done;
+  };
+
+  return { test, expect };
+};
+
+const run = async (job: ScriptJob): Promise<ScriptResult> => {
+  const logs: string[] = [];
+  const variables = { ...job.variables };
+  const variableUpdates: Record<string, string | null> = {};
+  const environment = createEnvironment(variables, variableUpdates);
+  const tests: TestResult[] = [];
+  const pending: Promise<void>[] = [];
+
+  let scope: Record<string, unknown>;
+  let request: ScriptRequest | undefined;
+  if (job.kind === "pre-request") {
+    request = { ...job.request, headers: job.request.headers.map(([key, value]) => [key, value]) };
+    scope = { pm: { request: createRequest(request), environment } };
+  } else {
+    const { test, expect } = createTestApi(tests, pending);
+    scope = { pm: { response: job.response, environment, test, expect }, response: job.response, test, expect };
+  }
+
+  try {
+    const { code } = transform(job.code, { transforms: ["typescript"] });
+    const script = new AsyncFunction(...Object.keys(scope), "console", ...BLOCKED_GLOBALS, code);
+    await script(...Object.values(scope), createConsole(logs));
+    await Promise.all(pending);
+    return job.kind === "pre-request"
+      ? { request, variableUpdates, logs }
+      : { tests, variableUpdates, logs };
+  } catch (error) {
+    await Promise.all(pending);
+    const { message, stack } = error instanceof Error ? error : new Error(formatLogValue(error));
+    return { error: { message, stack }, logs, tests: job.kind === "test" ? tests : undefined };
+  }
+};
+
+self.addEventListener("message", async (event: MessageEvent<ScriptJob>) => {
+  self.postMessage(await run(event.data));
+});